@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { FileText, Trash2, Upload } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import {
+  MAX_VOUCHER_BYTES,
+  VOUCHER_BUCKET,
+  VOUCHER_TYPES,
+  removeVouchers,
+  signedVoucherUrls,
+  voucherPath,
+  type VoucherTable,
+} from '@/lib/vouchers'
+import AttachmentViewer from '@/components/economy/AttachmentViewer'
+import type { EconomyAttachment } from '@/types/database'
+
+// Signed URLs are fetched when the list opens and live for an hour
+const URL_TTL_SECONDS = 60 * 60
+
+interface AttachmentListProps {
+  table: VoucherTable
+  entryId: string
+  attachments: EconomyAttachment[]
+  canEdit: boolean
+  onChanged: () => void
+}
+
+// Thumbnails of an entry's vouchers, with upload and delete for admins
+export default function AttachmentList({ table, entryId, attachments, canEdit, onChanged }: AttachmentListProps) {
+  const { t } = useTranslation()
+  const { festival, profile } = useAuthContext()
+  const [urls, setUrls] = useState<Map<string, string>>(new Map())
+  const [viewing, setViewing] = useState<EconomyAttachment | null>(null)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchUrls = useCallback(async () => {
+    setUrls(await signedVoucherUrls(attachments, URL_TTL_SECONDS))
+  }, [attachments])
+
+  useEffect(() => {
+    fetchUrls()
+  }, [fetchUrls])
+
+  const handleUpload = async (files: File[]) => {
+    if (!festival || !profile || files.length === 0) return
+    const invalid = files.find((f) => !VOUCHER_TYPES.includes(f.type) || f.size > MAX_VOUCHER_BYTES)
+    if (invalid) {
+      setError(t('economy.attachmentInvalid', { name: invalid.name }))
+      return
+    }
+    setUploading(true)
+    setError(null)
+    for (const file of files) {
+      const path = voucherPath(festival.id, table, entryId, file.name)
+      const { error: uploadError } = await supabase.storage
+        .from(VOUCHER_BUCKET)
+        .upload(path, file, { contentType: file.type })
+      if (uploadError) {
+        setError(uploadError.message)
+        break
+      }
+      const { error: insertError } = await supabase.from('economy_attachments').insert({
+        festival_id: festival.id,
+        income_id: table === 'income' ? entryId : null,
+        expense_id: table === 'expenses' ? entryId : null,
+        storage_path: path,
+        file_name: file.name,
+        content_type: file.type,
+        size_bytes: file.size,
+        uploaded_by: profile.id,
+      })
+      if (insertError) {
+        // Do not leave a file no entry points to
+        await supabase.storage.from(VOUCHER_BUCKET).remove([path])
+        setError(insertError.message)
+        break
+      }
+    }
+    setUploading(false)
+    onChanged()
+  }
+
+  const handleDelete = async (attachment: EconomyAttachment) => {
+    if (!confirm(t('economy.deleteAttachmentConfirm', { name: attachment.file_name }))) return
+    await removeVouchers([attachment])
+    await supabase.from('economy_attachments').delete().eq('id', attachment.id)
+    onChanged()
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-bg p-4">
+      <div className="flex flex-wrap items-start gap-3">
+        {attachments.length === 0 && <p className="py-2 text-sm text-text-muted">{t('economy.noAttachments')}</p>}
+        {attachments.map((a) => (
+          <div key={a.id} className="group relative">
+            <button
+              onClick={() => setViewing(a)}
+              className="flex h-20 w-20 items-center justify-center overflow-hidden rounded-lg border border-border bg-surface hover:border-primary"
+              title={a.file_name}
+            >
+              {a.content_type.startsWith('image/') && urls.get(a.id) ? (
+                <img src={urls.get(a.id)} alt={a.file_name} className="h-full w-full object-cover" />
+              ) : (
+                <FileText size={28} className="text-text-muted" />
+              )}
+            </button>
+            <p className="mt-1 w-20 truncate text-xs text-text-muted">{a.file_name}</p>
+            {canEdit && (
+              <button
+                onClick={() => handleDelete(a)}
+                className="absolute right-1 top-1 hidden rounded bg-surface p-1 text-text-muted shadow-sm hover:text-danger group-hover:block"
+                title={t('common.delete')}
+              >
+                <Trash2 size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+        {canEdit && (
+          <label className="flex h-20 w-20 cursor-pointer flex-col items-center justify-center gap-1 rounded-lg border border-dashed border-border text-xs text-text-muted hover:border-primary hover:text-primary">
+            <Upload size={16} />
+            {uploading ? t('common.loading') : t('economy.uploadAttachment')}
+            <input
+              type="file"
+              multiple
+              accept={VOUCHER_TYPES.join(',')}
+              className="hidden"
+              disabled={uploading}
+              onChange={(e) => {
+                handleUpload(Array.from(e.target.files ?? []))
+                e.target.value = ''
+              }}
+            />
+          </label>
+        )}
+      </div>
+      {error && <p className="mt-2 text-sm text-danger">{error}</p>}
+
+      {viewing && (
+        <AttachmentViewer attachment={viewing} url={urls.get(viewing.id) ?? null} onClose={() => setViewing(null)} />
+      )}
+    </div>
+  )
+}
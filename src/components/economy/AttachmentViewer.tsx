@@ -0,0 +1,53 @@
+import { useTranslation } from 'react-i18next'
+import { ExternalLink, X } from 'lucide-react'
+import type { EconomyAttachment } from '@/types/database'
+
+interface AttachmentViewerProps {
+  attachment: EconomyAttachment
+  /** Signed URL; null while it loads or when it could not be signed */
+  url: string | null
+  onClose: () => void
+}
+
+// Full-size view of one voucher: images inline, PDFs in the browser's viewer
+export default function AttachmentViewer({ attachment, url, onClose }: AttachmentViewerProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex h-full max-h-[90vh] w-full max-w-4xl flex-col rounded-xl bg-surface p-4 shadow-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-3 flex items-center justify-between gap-3">
+          <h2 className="truncate text-sm font-semibold text-text-heading">{attachment.file_name}</h2>
+          <div className="flex items-center gap-3">
+            {url && (
+              <a
+                href={url}
+                target="_blank"
+                rel="noreferrer"
+                className="text-text-muted hover:text-primary"
+                title={t('economy.openAttachment')}
+              >
+                <ExternalLink size={16} />
+              </a>
+            )}
+            <button onClick={onClose} className="text-text-muted hover:text-text-body" title={t('common.close')}>
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+        <div className="flex min-h-0 flex-1 items-center justify-center overflow-auto rounded-lg bg-bg">
+          {!url ? (
+            <div className="h-8 w-8 animate-spin rounded-full border-2 border-border border-t-primary" />
+          ) : attachment.content_type.startsWith('image/') ? (
+            <img src={url} alt={attachment.file_name} className="max-h-full max-w-full object-contain" />
+          ) : (
+            <iframe src={url} title={attachment.file_name} className="h-full w-full" />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+import { Fragment, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+import { budgetComparison, type EntryType } from '@/lib/budget'
+import { categoryName, type CategoryIndex } from '@/lib/accounts'
+import type { BudgetVersion, Expense, Income } from '@/types/database'
+
+interface BudgetComparisonProps {
+  income: Income[]
+  expenses: Expense[]
+  versions: BudgetVersion[]
+  categories: CategoryIndex
+  currency: string
+}
+
+// Budget vs. forecast vs. actual per category, with subcategories on demand
+export default function BudgetComparison({ income, expenses, versions, categories, currency }: BudgetComparisonProps) {
+  const { t } = useTranslation()
+  const [budgetChoice, setBudgetChoice] = useState<string | null>(null)
+  const [forecastChoice, setForecastChoice] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  // The primary version is the budget; the newest other version or scenario the forecast
+  const primary = versions.find((v) => v.is_primary) ?? versions[0] ?? null
+  const latest = [...versions].reverse().find((v) => v.id !== primary?.id) ?? primary
+  const budgetId = budgetChoice ?? primary?.id ?? null
+  const forecastId = forecastChoice ?? latest?.id ?? null
+
+  const rows = useMemo(
+    () => budgetComparison(income, expenses, budgetId, forecastId),
+    [income, expenses, budgetId, forecastId],
+  )
+
+  const fmt = (n: number) =>
+    new Intl.NumberFormat('nb-NO', { style: 'currency', currency, maximumFractionDigits: 0 }).format(n)
+
+  const label = (type: EntryType, category: string) => categoryName(categories, type, category)
+
+  const toggle = (key: string) => {
+    const next = new Set(expanded)
+    if (next.has(key)) next.delete(key)
+    else next.add(key)
+    setExpanded(next)
+  }
+
+  const totals = (type: EntryType) =>
+    rows
+      .filter((r) => r.type === type)
+      .reduce(
+        (s, r) => ({ budget: s.budget + r.budget, forecast: s.forecast + r.forecast, actual: s.actual + r.actual }),
+        { budget: 0, forecast: 0, actual: 0 },
+      )
+  const incomeTotals = totals('income')
+  const expenseTotals = totals('expense')
+
+  // Above budget is good for income and bad for expenses
+  const deviation = (type: EntryType, budget: number, actual: number) => {
+    const diff = actual - budget
+    const good = type === 'income' ? diff >= 0 : diff <= 0
+    return (
+      <span className={diff === 0 ? 'text-text-muted' : good ? 'text-success' : 'text-danger'}>
+        {diff > 0 ? '+' : ''}
+        {fmt(diff)}
+      </span>
+    )
+  }
+
+  const versionSelect = (value: string | null, onChange: (id: string) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value)}
+      className="mt-1 block rounded-lg border border-border bg-surface px-3 py-1.5 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+    >
+      {versions.map((v) => (
+        <option key={v.id} value={v.id}>
+          {v.name}
+          {v.kind === 'scenario' ? ` (${t('economy.scenario')})` : ''}
+        </option>
+      ))}
+    </select>
+  )
+
+  const amountCells = (type: EntryType, a: { budget: number; forecast: number; actual: number }) => (
+    <>
+      <td className="py-2 pr-4 text-right">{fmt(a.budget)}</td>
+      <td className="py-2 pr-4 text-right">{fmt(a.forecast)}</td>
+      <td className="py-2 pr-4 text-right">{fmt(a.actual)}</td>
+      <td className="py-2 pr-4 text-right">{deviation(type, a.budget, a.actual)}</td>
+      <td className="py-2 text-right text-text-muted">
+        {a.budget ? `${((a.actual / a.budget) * 100).toFixed(0)}%` : '—'}
+      </td>
+    </>
+  )
+
+  if (versions.length === 0) return null
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <h2 className="text-lg font-semibold">{t('economy.budgetComparison')}</h2>
+        <div className="flex flex-wrap gap-3">
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('economy.budget')}</label>
+            {versionSelect(budgetId, setBudgetChoice)}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('economy.forecast')}</label>
+            {versionSelect(forecastId, setForecastChoice)}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t('economy.category')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('economy.budget')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('economy.forecast')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('economy.actual')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('economy.variance')}</th>
+              <th className="pb-3 text-right font-medium">{t('economy.used')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light text-text-body">
+            {(['income', 'expense'] as const).map((type) => (
+              <Fragment key={type}>
+                {rows
+                  .filter((r) => r.type === type)
+                  .map((r) => {
+                    const key = `${type}:${r.category}`
+                    const open = expanded.has(key)
+                    return (
+                      <Fragment key={key}>
+                        <tr>
+                          <td className="py-2 pr-4">
+                            {r.subcategories.length > 0 ? (
+                              <button onClick={() => toggle(key)} className="flex items-center gap-1 hover:text-primary">
+                                {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                {label(type, r.category)}
+                              </button>
+                            ) : (
+                              <span className="pl-[18px]">{label(type, r.category)}</span>
+                            )}
+                          </td>
+                          {amountCells(type, r)}
+                        </tr>
+                        {open &&
+                          r.subcategories.map((s) => (
+                            <tr key={s.name} className="text-text-muted">
+                              <td className="py-2 pl-9 pr-4">{s.name}</td>
+                              {amountCells(type, s)}
+                            </tr>
+                          ))}
+                      </Fragment>
+                    )
+                  })}
+                <tr className="font-medium">
+                  <td className="py-2 pr-4">
+                    {type === 'income' ? t('economy.income') : t('economy.expenses')}
+                  </td>
+                  {amountCells(type, type === 'income' ? incomeTotals : expenseTotals)}
+                </tr>
+              </Fragment>
+            ))}
+            <tr className="border-t-2 border-border font-semibold">
+              <td className="py-2 pr-4">{t('economy.result')}</td>
+              {amountCells('income', {
+                budget: incomeTotals.budget - expenseTotals.budget,
+                forecast: incomeTotals.forecast - expenseTotals.forecast,
+                actual: incomeTotals.actual - expenseTotals.actual,
+              })}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
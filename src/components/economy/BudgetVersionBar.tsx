@@ -0,0 +1,191 @@
+import { useState, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Copy, GitBranch, Lock, Star, Trash2 } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import type { BudgetKind, BudgetVersion } from '@/types/database'
+
+interface BudgetVersionBarProps {
+  versions: BudgetVersion[]
+  selected: BudgetVersion | null
+  onSelect: (id: string) => void
+  isAdmin: boolean
+  /** Called after a change; with the id of a new version to select it */
+  onChanged: (selectId?: string) => void
+}
+
+// Picks the budget version the tables show and edit, and manages versions
+export default function BudgetVersionBar({ versions, selected, onSelect, isAdmin, onChanged }: BudgetVersionBarProps) {
+  const { t } = useTranslation()
+  const [creating, setCreating] = useState<BudgetKind | null>(null)
+  const [name, setName] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => PromiseLike<{ error: { message: string } | null }>, selectId?: string) => {
+    setBusy(true)
+    setError(null)
+    const { error: actionError } = await action()
+    setBusy(false)
+    if (actionError) {
+      setError(actionError.message)
+      return false
+    }
+    onChanged(selectId)
+    return true
+  }
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!selected || !creating || !name.trim()) return
+    setBusy(true)
+    setError(null)
+    const { data, error: copyError } = await supabase.rpc('copy_budget_version', {
+      p_version_id: selected.id,
+      p_name: name.trim(),
+      p_kind: creating,
+    })
+    setBusy(false)
+    if (copyError) {
+      setError(copyError.message)
+      return
+    }
+    setCreating(null)
+    setName('')
+    onChanged(data as string)
+  }
+
+  const handleLock = (version: BudgetVersion) => {
+    if (!confirm(t('economy.lockBudgetConfirm', { name: version.name }))) return
+    run(() => supabase.from('budget_versions').update({ locked_at: new Date().toISOString() }).eq('id', version.id))
+  }
+
+  const handleDelete = (version: BudgetVersion) => {
+    if (!confirm(t('economy.deleteBudgetConfirm', { name: version.name }))) return
+    run(() => supabase.from('budget_versions').delete().eq('id', version.id))
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-sm text-text-muted">{t('economy.noBudgetVersions')}</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-sm font-medium text-text-muted">{t('economy.budgetVersion')}</label>
+        <select
+          value={selected?.id ?? ''}
+          onChange={(e) => onSelect(e.target.value)}
+          className="rounded-lg border border-border bg-surface px-3 py-1.5 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+        >
+          {versions.map((v) => (
+            <option key={v.id} value={v.id}>
+              {v.name}
+              {v.kind === 'scenario' ? ` (${t('economy.scenario')})` : ''}
+            </option>
+          ))}
+        </select>
+
+        {selected && (
+          <div className="flex flex-wrap items-center gap-2">
+            {selected.is_primary && (
+              <span className="inline-flex items-center gap-1 rounded-full bg-primary-light px-2 py-0.5 text-xs font-medium text-primary">
+                <Star size={12} />
+                {t('economy.primaryBudget')}
+              </span>
+            )}
+            {selected.locked_at && (
+              <span className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-text-muted">
+                <Lock size={12} />
+                {t('economy.lockedOn', { date: selected.locked_at.slice(0, 10) })}
+              </span>
+            )}
+          </div>
+        )}
+
+        {isAdmin && selected && (
+          <div className="ml-auto flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setCreating(creating === 'version' ? null : 'version')}
+              className="flex items-center gap-1.5 rounded-lg border border-border bg-surface px-3 py-1.5 text-sm text-text-body hover:bg-surface-hover"
+            >
+              <Copy size={14} />
+              {t('economy.newBudgetVersion')}
+            </button>
+            <button
+              onClick={() => setCreating(creating === 'scenario' ? null : 'scenario')}
+              className="flex items-center gap-1.5 rounded-lg border border-border bg-surface px-3 py-1.5 text-sm text-text-body hover:bg-surface-hover"
+            >
+              <GitBranch size={14} />
+              {t('economy.newScenario')}
+            </button>
+            {selected.kind === 'version' && !selected.is_primary && (
+              <button
+                onClick={() => run(() => supabase.rpc('set_primary_budget_version', { p_version_id: selected.id }))}
+                disabled={busy}
+                className="text-text-muted hover:text-primary"
+                title={t('economy.makePrimary')}
+              >
+                <Star size={16} />
+              </button>
+            )}
+            {!selected.locked_at && (
+              <button
+                onClick={() => handleLock(selected)}
+                disabled={busy}
+                className="text-text-muted hover:text-primary"
+                title={t('economy.lockBudget')}
+              >
+                <Lock size={16} />
+              </button>
+            )}
+            {!selected.locked_at && !selected.is_primary && (
+              <button
+                onClick={() => handleDelete(selected)}
+                disabled={busy}
+                className="text-text-muted hover:text-danger"
+                title={t('common.delete')}
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {creating && selected && (
+        <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-3 rounded-lg border border-border bg-bg p-4">
+          <div>
+            <label className="block text-xs font-medium text-text-muted">
+              {creating === 'version' ? t('economy.newBudgetVersion') : t('economy.newScenario')}
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              autoFocus
+              className="mt-1 block w-64 rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+          </div>
+          <p className="pb-2 text-xs text-text-muted">{t('economy.copiedFrom', { name: selected.name })}</p>
+          <button
+            type="submit"
+            disabled={busy}
+            className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+          >
+            {busy ? t('common.loading') : t('common.save')}
+          </button>
+          <button
+            type="button"
+            onClick={() => setCreating(null)}
+            className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-text-body hover:bg-surface-hover"
+          >
+            {t('common.cancel')}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-danger">{error}</p>}
+    </div>
+  )
+}
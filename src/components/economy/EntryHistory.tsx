@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { X } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { categoryName, type CategoryIndex } from '@/lib/accounts'
+import type { EconomyAuditEntry } from '@/types/database'
+
+// Fields shown in the history, in form order; ids and timestamps are left out
+const FIELDS = [
+  'date',
+  'category',
+  'subcategory',
+  'description',
+  'amount_ex_vat',
+  'vat_rate',
+  'vat_amount',
+  'source',
+  'supplier',
+  'is_budget',
+  'status',
+  'decision_comment',
+] as const
+
+type Field = (typeof FIELDS)[number]
+
+interface EntryHistoryProps {
+  table: 'income' | 'expenses'
+  recordId: string
+  /** The entry's description or category, shown as the heading */
+  title: string
+  categories: CategoryIndex
+  currency: string
+  timeZone: string
+  onClose: () => void
+}
+
+// Drawer listing every change to one income or expense entry, newest first
+export default function EntryHistory({ table, recordId, title, categories, currency, timeZone, onClose }: EntryHistoryProps) {
+  const { t } = useTranslation()
+  const [entries, setEntries] = useState<EconomyAuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchHistory = useCallback(async () => {
+    const { data } = await supabase
+      .from('economy_audit_log')
+      .select('*')
+      .eq('table_name', table)
+      .eq('record_id', recordId)
+      .order('changed_at', { ascending: false })
+    if (data) setEntries(data)
+    setLoading(false)
+  }, [table, recordId])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  const label = (field: Field) =>
+    ({
+      date: t('economy.date'),
+      category: t('economy.category'),
+      subcategory: t('economy.subcategory'),
+      description: t('economy.description'),
+      amount_ex_vat: t('economy.amountExVat'),
+      vat_rate: t('economy.vatRate'),
+      vat_amount: t('economy.vatAmount'),
+      source: t('economy.source'),
+      supplier: t('economy.supplier'),
+      is_budget: `${t('economy.budget')}/${t('economy.actual')}`,
+      status: t('economy.status'),
+      decision_comment: t('economy.decisionComment'),
+    })[field]
+
+  const format = (field: Field, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—'
+    switch (field) {
+      case 'amount_ex_vat':
+      case 'vat_amount':
+        return new Intl.NumberFormat('nb-NO', { style: 'currency', currency, minimumFractionDigits: 2 }).format(
+          Number(value),
+        )
+      case 'vat_rate':
+        return `${(Number(value) * 100).toFixed(0)}%`
+      case 'is_budget':
+        return value ? t('economy.budget') : t('economy.actual')
+      case 'status':
+        return t(`economy.statuses.${value}`, String(value))
+      case 'category':
+        return categoryName(categories, table === 'income' ? 'income' : 'expense', String(value))
+      default:
+        return String(value)
+    }
+  }
+
+  // Updates show what changed; inserts and deletes show the whole entry
+  const changes = (entry: EconomyAuditEntry) =>
+    FIELDS.filter((field) => {
+      const before = entry.old_values?.[field]
+      const after = entry.new_values?.[field]
+      if (entry.action === 'update') return JSON.stringify(before) !== JSON.stringify(after)
+      return (entry.new_values ?? entry.old_values ?? {})[field] !== undefined
+    })
+
+  const time = (value: string) =>
+    new Intl.DateTimeFormat('nb-NO', { dateStyle: 'short', timeStyle: 'short', timeZone }).format(new Date(value))
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/50" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-md overflow-y-auto bg-surface p-5 shadow-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-start justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold">{t('economy.history')}</h2>
+            <p className="text-sm text-text-muted">{title}</p>
+          </div>
+          <button onClick={onClose} className="text-text-muted hover:text-text-body" title={t('common.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-border border-t-primary" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-6 text-center text-sm text-text-muted">{t('economy.historyEmpty')}</p>
+        ) : (
+          <ol className="space-y-4">
+            {entries.map((entry) => (
+              <li key={entry.id} className="rounded-lg border border-border-light p-3">
+                <div className="flex items-baseline justify-between gap-3">
+                  <span
+                    className={`text-sm font-medium ${entry.action === 'delete' ? 'text-danger' : 'text-text-heading'}`}
+                  >
+                    {t(`economy.auditActions.${entry.action}`)}
+                  </span>
+                  <span className="text-xs text-text-muted">{time(entry.changed_at)}</span>
+                </div>
+                <p className="text-xs text-text-muted">{entry.changed_by_name ?? t('economy.unknownUser')}</p>
+                <dl className="mt-2 space-y-1 text-sm">
+                  {changes(entry).map((field) => (
+                    <div key={field} className="flex flex-wrap gap-x-2">
+                      <dt className="text-text-muted">{label(field)}:</dt>
+                      <dd className="text-text-body">
+                        {entry.action === 'update' ? (
+                          <>
+                            <span className="line-through">{format(field, entry.old_values?.[field])}</span>
+                            {' → '}
+                            {format(field, entry.new_values?.[field])}
+                          </>
+                        ) : (
+                          format(field, (entry.new_values ?? entry.old_values)?.[field])
+                        )}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Check, X } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import type { Expense } from '@/types/database'
+
+interface ExpenseReviewProps {
+  expense: Expense
+  /** False when the reviewer submitted it themselves and it is above the threshold */
+  canApprove: boolean
+  onDone: () => void
+  onCancel: () => void
+}
+
+// Approve or reject a submitted expense, with a comment for the submitter
+export default function ExpenseReview({ expense, canApprove, onDone, onCancel }: ExpenseReviewProps) {
+  const { t } = useTranslation()
+  const [comment, setComment] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const decide = async (status: 'approved' | 'rejected') => {
+    setSaving(true)
+    setError(null)
+    const { error: updateError } = await supabase
+      .from('expenses')
+      .update({ status, decision_comment: comment.trim() || null })
+      .eq('id', expense.id)
+    setSaving(false)
+    if (updateError) {
+      setError(updateError.message)
+      return
+    }
+    onDone()
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border bg-bg p-4">
+      <div>
+        <label className="block text-xs font-medium text-text-muted">{t('economy.decisionComment')}</label>
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          rows={2}
+          className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+        />
+      </div>
+      {!canApprove && <p className="text-xs text-warning">{t('economy.ownApprovalBlocked')}</p>}
+      {error && <p className="text-sm text-danger">{error}</p>}
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => decide('approved')}
+          disabled={saving || !canApprove}
+          className="flex items-center gap-1.5 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+        >
+          <Check size={14} />
+          {t('economy.approve')}
+        </button>
+        <button
+          onClick={() => decide('rejected')}
+          disabled={saving}
+          className="flex items-center gap-1.5 rounded-lg border border-border px-4 py-2 text-sm font-medium text-danger hover:bg-surface-hover disabled:opacity-50"
+        >
+          <X size={14} />
+          {t('economy.reject')}
+        </button>
+        <button
+          onClick={onCancel}
+          className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-text-body hover:bg-surface-hover"
+        >
+          {t('common.cancel')}
+        </button>
+      </div>
+    </div>
+  )
+}
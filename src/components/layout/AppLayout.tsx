@@ -13,6 +13,10 @@ import {
 } from 'lucide-react'
 import { useState } from 'react'
 import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { useNotifications } from '@/hooks/useNotifications'
+import { DEFAULT_TIMEZONE } from '@/lib/timezone'
+import NotificationBell from '@/components/layout/NotificationBell'
 
 const navItems = [
   { to: '/dashboard', icon: LayoutDashboard, labelKey: 'nav.dashboard' },
@@ -25,7 +29,10 @@ const navItems = [
 
 export default function AppLayout() {
   const { t } = useTranslation()
+  const { festival, editions, edition, setEditionId } = useAuthContext()
   const [sidebarOpen, setSidebarOpen] = useState(false)
+  const { notifications, unreadCount, markAllRead } = useNotifications()
+  const timeZone = festival?.timezone ?? DEFAULT_TIMEZONE
 
   const handleLogout = async () => {
     await supabase.auth.signOut()
@@ -47,12 +54,43 @@ export default function AppLayout() {
           sidebarOpen ? 'translate-x-0' : '-translate-x-full'
         }`}
       >
-        <div className="flex h-16 items-center gap-2 border-b border-border px-6">
+        <div className="flex h-16 items-center justify-between gap-2 border-b border-border px-6">
           <span className="text-lg font-bold text-text-heading">
             {t('app.name')}
           </span>
+          <div className="hidden lg:block">
+            <NotificationBell
+              notifications={notifications}
+              unreadCount={unreadCount}
+              onMarkAllRead={markAllRead}
+              timeZone={timeZone}
+              align="left"
+            />
+          </div>
         </div>
 
+        {/* Edition switcher: every page shows the selected year */}
+        {edition && (
+          <div className="border-b border-border px-3 py-3">
+            <label className="block px-1 text-xs font-medium text-text-muted">
+              {t('nav.edition')}
+            </label>
+            <select
+              value={edition.id}
+              onChange={(e) => setEditionId(e.target.value)}
+              disabled={editions.length < 2}
+              className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+            >
+              {editions.map((e) => (
+                <option key={e.id} value={e.id}>
+                  {e.name || e.year}
+                  {e.id === festival?.current_edition_id ? ` (${t('nav.currentEdition')})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <nav className="flex-1 space-y-1 px-3 py-4">
           {navItems.map(({ to, icon: Icon, labelKey }) => (
             <NavLink
@@ -94,9 +132,16 @@ export default function AppLayout() {
           >
             {sidebarOpen ? <X size={24} /> : <Menu size={24} />}
           </button>
-          <span className="text-lg font-bold text-text-heading">
+          <span className="flex-1 text-lg font-bold text-text-heading">
             {t('app.name')}
           </span>
+          <NotificationBell
+            notifications={notifications}
+            unreadCount={unreadCount}
+            onMarkAllRead={markAllRead}
+            timeZone={timeZone}
+            align="right"
+          />
         </header>
 
         {/* Page content */}
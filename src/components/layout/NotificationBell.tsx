@@ -0,0 +1,93 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router-dom'
+import { Bell } from 'lucide-react'
+import type { AppNotification } from '@/types/database'
+
+interface NotificationBellProps {
+  notifications: AppNotification[]
+  unreadCount: number
+  onMarkAllRead: () => void
+  timeZone: string
+  /** Side of the bell the list opens towards */
+  align: 'left' | 'right'
+}
+
+// Bell with the unread count; opening the list marks everything read
+export default function NotificationBell({
+  notifications,
+  unreadCount,
+  onMarkAllRead,
+  timeZone,
+  align,
+}: NotificationBellProps) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const [open, setOpen] = useState(false)
+
+  const toggle = () => {
+    if (!open && unreadCount > 0) onMarkAllRead()
+    setOpen(!open)
+  }
+
+  const time = (value: string) =>
+    new Intl.DateTimeFormat('nb-NO', { dateStyle: 'short', timeStyle: 'short', timeZone }).format(new Date(value))
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className="relative text-text-muted hover:text-text-body"
+        title={t('notifications.title')}
+      >
+        <Bell size={20} />
+        {unreadCount > 0 && (
+          <span className="absolute -right-1.5 -top-1.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-danger px-1 text-[10px] font-medium text-white">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div
+            className={`absolute top-full z-50 mt-2 max-h-96 w-80 overflow-y-auto rounded-xl border border-border bg-surface shadow-sm ${
+              align === 'left' ? 'left-0' : 'right-0'
+            }`}
+          >
+            <p className="border-b border-border px-4 py-3 text-sm font-semibold text-text-heading">
+              {t('notifications.title')}
+            </p>
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-text-muted">{t('notifications.empty')}</p>
+            ) : (
+              <ul className="divide-y divide-border-light">
+                {notifications.map((n) => (
+                  <li key={n.id}>
+                    <button
+                      onClick={() => {
+                        setOpen(false)
+                        navigate('/economy')
+                      }}
+                      className="block w-full px-4 py-3 text-left hover:bg-surface-hover"
+                    >
+                      <p className="text-sm text-text-body">
+                        {t(`notifications.${n.kind}`, {
+                          subject: n.subject ?? '—',
+                          name: n.actor_name ?? t('economy.unknownUser'),
+                        })}
+                      </p>
+                      {n.comment && <p className="mt-0.5 text-xs text-text-muted">“{n.comment}”</p>}
+                      <p className="mt-1 text-xs text-text-muted">{time(n.created_at)}</p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import { useTranslation } from 'react-i18next'
+import { useIntegrationEvents } from '@/hooks/useIntegrationEvents'
+
+interface EventFilterProps {
+  /** integration_events id, or '' for all events */
+  value: string
+  onChange: (eventId: string) => void
+}
+
+// Only shown when the festival sells through more than one ticketing event
+export default function EventFilter({ value, onChange }: EventFilterProps) {
+  const { t } = useTranslation()
+  const { events } = useIntegrationEvents()
+
+  if (events.length < 2) return null
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={t('sales.event')}
+      className="rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+    >
+      <option value="">{t('sales.allEvents')}</option>
+      {events.map((ev) => (
+        <option key={ev.id} value={ev.id}>
+          {ev.label || ev.external_event_id}
+        </option>
+      ))}
+    </select>
+  )
+}
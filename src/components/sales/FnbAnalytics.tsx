@@ -0,0 +1,114 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { fnbBreakdown, type FnbDimension, type FnbRow } from '@/lib/fnb-analytics'
+import type { FnbProduct, Outlet, SaleLine } from '@/types/database'
+
+const DIMENSIONS: FnbDimension[] = ['product', 'outlet', 'day']
+
+interface FnbAnalyticsProps {
+  /** Bar sales per date and product */
+  fnb: SaleLine[]
+  /** Bar sales per outlet and product */
+  byOutlet: SaleLine[]
+  products: FnbProduct[]
+  outlets: Outlet[]
+  timeZone: string
+  currency: string
+}
+
+export default function FnbAnalytics({ fnb, byOutlet, products, outlets, timeZone, currency }: FnbAnalyticsProps) {
+  const { t } = useTranslation()
+  const [dimension, setDimension] = useState<FnbDimension>('product')
+  const { rows, total } = useMemo(
+    () => fnbBreakdown(dimension === 'outlet' ? byOutlet : fnb, products, outlets, dimension, timeZone),
+    [fnb, byOutlet, products, outlets, dimension, timeZone],
+  )
+
+  const money = (n: number) =>
+    new Intl.NumberFormat('nb-NO', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(n)
+
+  const label = (row: FnbRow) => {
+    if (dimension === 'outlet' && row.label === '') return t('sales.noOutlet')
+    return row.label
+  }
+
+  const cells = (row: FnbRow) => (
+    <>
+      <td className="py-2 pr-4 text-right">{row.units.toLocaleString('nb-NO')}</td>
+      <td className="py-2 pr-4 text-right">{money(row.revenue)}</td>
+      <td className="py-2 pr-4 text-right">{money(row.revenueExVat)}</td>
+      <td className="py-2 pr-4 text-right">{row.units > row.uncostedUnits ? money(row.cost) : '—'}</td>
+      <td className={`py-2 pr-4 text-right ${row.margin < 0 ? 'text-danger' : ''}`}>
+        {row.units > row.uncostedUnits ? money(row.margin) : '—'}
+      </td>
+      <td className="py-2 text-right">
+        {row.marginRate !== null ? `${Math.round(row.marginRate * 100)} %` : '—'}
+      </td>
+    </>
+  )
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">{t('sales.fnbAnalytics')}</h2>
+        <div className="flex gap-1 rounded-lg bg-surface-alt p-1">
+          {DIMENSIONS.map((d) => (
+            <button
+              key={d}
+              onClick={() => setDimension(d)}
+              className={`rounded-md px-3 py-1 text-sm font-medium transition-colors ${
+                dimension === d ? 'bg-surface text-text-heading shadow-sm' : 'text-text-muted hover:text-text-body'
+              }`}
+            >
+              {t(`sales.fnbBy.${d}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t(`sales.fnbBy.${dimension}`)}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.itemsLabel')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.revenue')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.revenueExVat')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.costOfGoods')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.grossMargin')}</th>
+              <th className="pb-3 text-right font-medium">{t('sales.marginRate')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light text-text-body">
+            {rows.map((row) => (
+              <tr key={row.label}>
+                <td className="py-2 pr-4 text-text-heading">
+                  {label(row)}
+                  {!row.mapped && <span className="ml-2 text-xs text-warning">{t('sales.fnbUnmapped')}</span>}
+                </td>
+                {cells(row)}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t border-border font-semibold text-text-heading">
+              <td className="py-2 pr-4">{t('sales.fnbTotal')}</td>
+              {cells(total)}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {total.uncostedUnits > 0 && (
+        <p className="mt-3 text-xs text-text-muted">
+          {t('sales.fnbUncosted', { count: total.uncostedUnits })}
+        </p>
+      )}
+    </div>
+  )
+}
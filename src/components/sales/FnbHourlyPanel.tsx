@@ -0,0 +1,94 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { festivalDates, hourlyByDay } from '@/lib/intraday'
+import type { SaleLine } from '@/types/database'
+
+const DAY_COLORS = ['#6366F1', '#22C55E', '#F59E0B', '#EF4444', '#A855F7', '#06B6D4', '#EC4899']
+
+interface FnbHourlyPanelProps {
+  fnb: SaleLine[]
+  startDate: string
+  endDate: string | null
+  timeZone: string
+  currency: string
+}
+
+export default function FnbHourlyPanel({ fnb, startDate, endDate, timeZone, currency }: FnbHourlyPanelProps) {
+  const { t } = useTranslation()
+  const [metric, setMetric] = useState<'items' | 'revenue'>('items')
+  const dates = useMemo(() => festivalDates(startDate, endDate), [startDate, endDate])
+  const points = useMemo(() => hourlyByDay(fnb, dates, timeZone), [fnb, dates, timeZone])
+
+  // Busiest hour per festival day, for staffing
+  const peaks = useMemo(
+    () =>
+      dates.map((date) => {
+        const peak = points.reduce((best, p) => ((p[date] as number) > (best[date] as number) ? p : best), points[0])
+        return { date, hour: peak.hour as string, items: peak[date] as number }
+      }),
+    [dates, points],
+  )
+
+  if (peaks.every((p) => p.items === 0)) return null
+
+  const key = (date: string) => (metric === 'items' ? date : `${date}_revenue`)
+  const format = (n: number) =>
+    metric === 'items'
+      ? n.toLocaleString('nb-NO')
+      : new Intl.NumberFormat('nb-NO', {
+          style: 'currency',
+          currency,
+          minimumFractionDigits: 0,
+          maximumFractionDigits: 0,
+        }).format(n)
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">{t('sales.fnbPerHour')}</h2>
+        <div className="flex gap-1 rounded-lg bg-surface-alt p-1">
+          {(['items', 'revenue'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`rounded-md px-3 py-1 text-sm font-medium transition-colors ${
+                metric === m ? 'bg-surface text-text-heading shadow-sm' : 'text-text-muted hover:text-text-body'
+              }`}
+            >
+              {t(m === 'items' ? 'sales.itemsLabel' : 'sales.revenue')}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={points}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#E7E5E4" />
+          <XAxis dataKey="hour" stroke="#A8A29E" fontSize={12} interval={1} />
+          <YAxis stroke="#A8A29E" fontSize={12} />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#FFFFFF', border: '1px solid #E7E5E4', borderRadius: 8 }}
+            labelStyle={{ color: '#44403C' }}
+            formatter={(value) => format(Number(value))}
+          />
+          <Legend />
+          {dates.map((date, i) => (
+            <Bar key={date} dataKey={key(date)} name={date} fill={DAY_COLORS[i % DAY_COLORS.length]} />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+
+      <div className="mt-4 flex flex-wrap gap-x-6 gap-y-1 text-sm text-text-muted">
+        {peaks
+          .filter((p) => p.items > 0)
+          .map((p) => (
+            <span key={p.date}>
+              {t('sales.peakHour', { date: p.date, hour: p.hour, items: p.items.toLocaleString('nb-NO') })}
+            </span>
+          ))}
+      </div>
+      <p className="mt-2 text-xs text-text-muted">{t('sales.localTimeNote', { timeZone })}</p>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { useTranslation } from 'react-i18next'
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts'
+import type { SalesForecast } from '@/lib/forecast'
+
+interface ForecastPanelProps {
+  forecast: SalesForecast
+  capacity: number | null
+}
+
+function formatDate(date: string) {
+  return new Date(`${date}T00:00`).toLocaleDateString('nb-NO', { day: 'numeric', month: 'long' })
+}
+
+export default function ForecastPanel({ forecast, capacity }: ForecastPanelProps) {
+  const { t } = useTranslation()
+
+  let sellOut: string
+  if (forecast.soldOut) sellOut = t('sales.soldOut')
+  else if (forecast.sellOutDate) sellOut = t('sales.sellOutOn', { date: formatDate(forecast.sellOutDate) })
+  else if (capacity) sellOut = t('sales.noSellOut')
+  else sellOut = t('sales.noCapacity')
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-baseline justify-between gap-2">
+        <h2 className="text-lg font-semibold">{t('sales.sellOutForecast')}</h2>
+        <p className="text-sm text-text-muted">
+          {forecast.historyYears > 0
+            ? t('sales.forecastBasis', { years: forecast.historyYears, perDay: forecast.trendPerDay })
+            : t('sales.forecastTrendOnly', { perDay: forecast.trendPerDay })}
+        </p>
+      </div>
+
+      <div className="mb-4 grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <p className="text-xs font-medium text-text-muted">{t('sales.projectedTotal')}</p>
+          <p className="text-xl font-bold text-text-heading">
+            {forecast.projectedTotal.toLocaleString('nb-NO')}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-text-muted">{t('sales.confidenceBand')}</p>
+          <p className="text-xl font-bold text-text-heading">
+            {forecast.low.toLocaleString('nb-NO')}–{forecast.high.toLocaleString('nb-NO')}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-text-muted">{t('sales.sellOut')}</p>
+          <p className={`text-xl font-bold ${forecast.sellOutDate || forecast.soldOut ? 'text-success' : 'text-text-heading'}`}>
+            {sellOut}
+          </p>
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <ComposedChart data={forecast.curve}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#E7E5E4" />
+          <XAxis
+            dataKey="date"
+            stroke="#A8A29E"
+            fontSize={12}
+            tickFormatter={(d: string) => d.slice(5)}
+          />
+          <YAxis stroke="#A8A29E" fontSize={12} />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#FFFFFF', border: '1px solid #E7E5E4', borderRadius: 8 }}
+            labelStyle={{ color: '#44403C' }}
+          />
+          <Area
+            type="monotone"
+            dataKey="band"
+            name={t('sales.confidenceBand')}
+            fill="#6366F1"
+            fillOpacity={0.12}
+            stroke="none"
+          />
+          <Line
+            type="monotone"
+            dataKey="actual"
+            name={t('sales.ticketsSold')}
+            stroke="#6366F1"
+            strokeWidth={2}
+            dot={false}
+          />
+          <Line
+            type="monotone"
+            dataKey="projected"
+            name={t('sales.projectedTotal')}
+            stroke="#6366F1"
+            strokeWidth={2}
+            strokeDasharray="5 5"
+            dot={false}
+          />
+          {capacity && (
+            <ReferenceLine
+              y={capacity}
+              stroke="#EF4444"
+              strokeDasharray="3 3"
+              label={{ value: t('settings.capacity'), position: 'insideTopLeft', fill: '#EF4444', fontSize: 12 }}
+            />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import {
+  groupByInterval,
+  salesDays,
+  weekdayHourHeatmap,
+  type IntervalMinutes,
+  type SalesDay,
+} from '@/lib/intraday'
+import type { SaleLine } from '@/types/database'
+
+const WEEKDAY_KEYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']
+
+interface IntradayPanelProps {
+  tickets: SaleLine[]
+  timeZone: string
+}
+
+export default function IntradayPanel({ tickets, timeZone }: IntradayPanelProps) {
+  const { t } = useTranslation()
+  const days = useMemo(() => salesDays(tickets, timeZone), [tickets, timeZone])
+  // The busiest day is usually release day, which is what people want to see first
+  const busiest = useMemo(
+    () => days.reduce<SalesDay | null>((best, d) => (!best || d.tickets > best.tickets ? d : best), null),
+    [days],
+  )
+  const [selectedDate, setSelectedDate] = useState<string | null>(null)
+  const [minutes, setMinutes] = useState<IntervalMinutes>(60)
+  const date = selectedDate && days.some((d) => d.date === selectedDate) ? selectedDate : (busiest?.date ?? null)
+
+  const buckets = useMemo(
+    () => (date ? groupByInterval(tickets, date, minutes, timeZone) : []),
+    [tickets, date, minutes, timeZone],
+  )
+  const heatmap = useMemo(() => weekdayHourHeatmap(tickets, timeZone), [tickets, timeZone])
+  const heatmapMax = useMemo(() => Math.max(1, ...heatmap.flat()), [heatmap])
+
+  if (!date) return null
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">{t('sales.intraday')}</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={date}
+            onChange={(e) => setSelectedDate(e.target.value)}
+            className="rounded-lg border border-border bg-surface px-3 py-1.5 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+          >
+            {days.map((d) => (
+              <option key={d.date} value={d.date}>
+                {d.date} ({d.tickets.toLocaleString('nb-NO')})
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-1 rounded-lg bg-surface-alt p-1">
+            {([60, 15] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMinutes(m)}
+                className={`rounded-md px-3 py-1 text-sm font-medium transition-colors ${
+                  minutes === m ? 'bg-surface text-text-heading shadow-sm' : 'text-text-muted hover:text-text-body'
+                }`}
+              >
+                {t(m === 60 ? 'sales.perHour' : 'sales.perQuarter')}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={260}>
+        <BarChart data={buckets}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#E7E5E4" />
+          <XAxis dataKey="time" stroke="#A8A29E" fontSize={12} interval={minutes === 60 ? 1 : 7} />
+          <YAxis stroke="#A8A29E" fontSize={12} allowDecimals={false} />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#FFFFFF', border: '1px solid #E7E5E4', borderRadius: 8 }}
+            labelStyle={{ color: '#44403C' }}
+          />
+          <Bar dataKey="tickets" name={t('sales.tickets')} fill="#6366F1" radius={[2, 2, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+
+      {/* Weekday × hour */}
+      <h3 className="mb-3 mt-6 text-sm font-semibold text-text-heading">{t('sales.weekdayHeatmap')}</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full border-separate border-spacing-0.5 text-xs">
+          <thead>
+            <tr>
+              <th />
+              {Array.from({ length: 24 }, (_, hour) => (
+                <th key={hour} className="font-normal text-text-muted">
+                  {hour % 3 === 0 ? String(hour).padStart(2, '0') : ''}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {heatmap.map((row, weekday) => (
+              <tr key={weekday}>
+                <td className="pr-2 text-text-muted">{t(`sales.weekdays.${WEEKDAY_KEYS[weekday]}`)}</td>
+                {row.map((value, hour) => (
+                  <td
+                    key={hour}
+                    title={`${t(`sales.weekdays.${WEEKDAY_KEYS[weekday]}`)} ${String(hour).padStart(2, '0')}:00 — ${value}`}
+                    className="h-6 min-w-4 rounded-sm"
+                    style={{
+                      backgroundColor: value === 0 ? '#F5F5F4' : `rgba(99, 102, 241, ${0.15 + 0.85 * (value / heatmapMax)})`,
+                    }}
+                  />
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-text-muted">{t('sales.localTimeNote', { timeZone })}</p>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import { useTranslation } from 'react-i18next'
+import type { OutletTotals } from '@/lib/sales-utils'
+
+interface OutletBreakdownProps {
+  rows: OutletTotals[]
+  currency: string
+  /** Click-through to an outlet's transactions */
+  onSelect?: (row: OutletTotals) => void
+}
+
+export default function OutletBreakdown({ rows, currency, onSelect }: OutletBreakdownProps) {
+  const { t } = useTranslation()
+  const total = rows.reduce((sum, row) => sum + row.revenue, 0)
+
+  const money = (n: number) =>
+    new Intl.NumberFormat('nb-NO', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(n)
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
+      <h2 className="mb-4 text-lg font-semibold">{t('sales.byOutlet')}</h2>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t('sales.outlet')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.tickets')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.fnb')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.otherSales')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.revenue')}</th>
+              <th className="w-32 pb-3 font-medium" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light text-text-body">
+            {rows.map((row) => (
+              <tr
+                key={row.outletId ?? ''}
+                onClick={onSelect && (() => onSelect(row))}
+                className={onSelect ? 'cursor-pointer hover:bg-surface-hover' : ''}
+              >
+                <td className={`py-2 pr-4 ${row.name ? 'text-text-heading' : 'text-text-muted'}`}>
+                  {row.name ?? t('sales.noOutlet')}
+                </td>
+                <td className="py-2 pr-4 text-right">{money(row.byCategory.tickets)}</td>
+                <td className="py-2 pr-4 text-right">{money(row.byCategory.fnb)}</td>
+                <td className="py-2 pr-4 text-right">{money(row.byCategory.other)}</td>
+                <td className="py-2 pr-4 text-right font-medium text-text-heading">{money(row.revenue)}</td>
+                <td className="py-2">
+                  <div className="h-2 rounded-full bg-surface-alt">
+                    <div
+                      className="h-2 rounded-full bg-primary"
+                      style={{ width: `${total > 0 ? Math.max(0, (row.revenue / total) * 100) : 0}%` }}
+                    />
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import { useTranslation } from 'react-i18next'
+import { useOutlets } from '@/hooks/useOutlets'
+import { NO_OUTLET } from '@/lib/sales-utils'
+
+interface OutletFilterProps {
+  /** outlets id, NO_OUTLET, or '' for all outlets */
+  value: string
+  onChange: (outletId: string) => void
+}
+
+// Only shown once the festival has named its outlets
+export default function OutletFilter({ value, onChange }: OutletFilterProps) {
+  const { t } = useTranslation()
+  const { outlets } = useOutlets()
+
+  if (outlets.length === 0) return null
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={t('sales.outlet')}
+      className="rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+    >
+      <option value="">{t('sales.allOutlets')}</option>
+      {outlets.map((outlet) => (
+        <option key={outlet.id} value={outlet.id}>
+          {outlet.name}
+        </option>
+      ))}
+      <option value={NO_OUTLET}>{t('sales.noOutlet')}</option>
+    </select>
+  )
+}
@@ -0,0 +1,211 @@
+import { useState, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Filter, Save, Trash2, X } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { useSalesViews } from '@/hooks/useSalesViews'
+import { SALE_CATEGORIES } from '@/lib/sales-utils'
+import { EMPTY_FILTERS, isFiltered, parseSavedFilters, type SalesFilters } from '@/lib/sales-filters'
+import EventFilter from '@/components/sales/EventFilter'
+import OutletFilter from '@/components/sales/OutletFilter'
+
+const selectClass =
+  'rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary'
+
+interface SalesFilterBarProps {
+  filters: SalesFilters
+  onChange: (filters: SalesFilters) => void
+  /** Titles to offer in the ticket type filter */
+  ticketTypes: string[]
+}
+
+export default function SalesFilterBar({ filters, onChange, ticketTypes }: SalesFilterBarProps) {
+  const { t } = useTranslation()
+  const { festival, profile } = useAuthContext()
+  const { salesViews, refetch } = useSalesViews()
+  const [viewId, setViewId] = useState('')
+  const [naming, setNaming] = useState(false)
+  const [viewName, setViewName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const view = salesViews.find((v) => v.id === viewId)
+  const canDelete = !!view && (profile?.role === 'admin' || view.created_by === profile?.id)
+
+  const set = <K extends keyof SalesFilters>(key: K, value: SalesFilters[K]) => {
+    setViewId('')
+    onChange({ ...filters, [key]: value })
+  }
+
+  const selectView = (id: string) => {
+    setViewId(id)
+    const selected = salesViews.find((v) => v.id === id)
+    onChange(selected ? parseSavedFilters(selected.filters) : EMPTY_FILTERS)
+  }
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!festival || !profile) return
+    const { data, error: saveError } = await supabase
+      .from('sales_views')
+      .insert({ festival_id: festival.id, name: viewName.trim(), filters, created_by: profile.id })
+      .select('id')
+      .single()
+    if (saveError) {
+      setError(saveError.code === '23505' ? t('sales.viewExists') : saveError.message)
+      return
+    }
+    setNaming(false)
+    setViewName('')
+    setError(null)
+    await refetch()
+    setViewId(data.id)
+  }
+
+  const handleDelete = async () => {
+    if (!view || !confirm(t('sales.deleteViewConfirm', { name: view.name }))) return
+    await supabase.from('sales_views').delete().eq('id', view.id)
+    setViewId('')
+    await refetch()
+  }
+
+  return (
+    <div className="space-y-3 rounded-xl border border-border bg-surface p-5 shadow-sm">
+      <div className="flex flex-wrap items-end gap-3">
+        <Filter size={18} className="mb-2 text-text-muted" />
+        <div>
+          <label className="block text-xs font-medium text-text-muted">{t('reports.dateFrom')}</label>
+          <input
+            type="date"
+            value={filters.dateFrom}
+            onChange={(e) => set('dateFrom', e.target.value)}
+            className={`mt-1 ${selectClass}`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-text-muted">{t('reports.dateTo')}</label>
+          <input
+            type="date"
+            value={filters.dateTo}
+            onChange={(e) => set('dateTo', e.target.value)}
+            className={`mt-1 ${selectClass}`}
+          />
+        </div>
+        <select
+          value={filters.ticketType}
+          onChange={(e) => set('ticketType', e.target.value)}
+          aria-label={t('sales.ticketType')}
+          className={selectClass}
+        >
+          <option value="">{t('sales.allTicketTypes')}</option>
+          {ticketTypes.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.channel}
+          onChange={(e) => set('channel', e.target.value as SalesFilters['channel'])}
+          aria-label={t('sales.channel')}
+          className={selectClass}
+        >
+          <option value="">{t('sales.allChannels')}</option>
+          <option value="web">{t('sales.web')}</option>
+          <option value="pos">{t('sales.pos')}</option>
+        </select>
+        <select
+          value={filters.category}
+          onChange={(e) => set('category', e.target.value as SalesFilters['category'])}
+          aria-label={t('sales.category')}
+          className={selectClass}
+        >
+          <option value="">{t('sales.allCategories')}</option>
+          {SALE_CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {t(`sales.categories.${c}`)}
+            </option>
+          ))}
+        </select>
+        <EventFilter value={filters.eventId} onChange={(id) => set('eventId', id)} />
+        <OutletFilter value={filters.outletId} onChange={(id) => set('outletId', id)} />
+        {isFiltered(filters) && (
+          <button
+            onClick={() => selectView('')}
+            className="mb-2 flex items-center gap-1 text-xs text-text-muted hover:text-primary"
+          >
+            <X size={12} />
+            {t('sales.clearFilters')}
+          </button>
+        )}
+      </div>
+
+      {/* Saved views */}
+      <div className="flex flex-wrap items-center gap-2 border-t border-border-light pt-3">
+        <select
+          value={viewId}
+          onChange={(e) => selectView(e.target.value)}
+          aria-label={t('sales.savedViews')}
+          className={selectClass}
+        >
+          <option value="">{t('sales.savedViews')}</option>
+          {salesViews.map((v) => (
+            <option key={v.id} value={v.id}>
+              {v.name}
+            </option>
+          ))}
+        </select>
+        {canDelete && (
+          <button
+            onClick={handleDelete}
+            className="text-text-muted hover:text-danger"
+            title={t('common.delete')}
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+        {naming ? (
+          <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              required
+              autoFocus
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              placeholder={t('sales.viewName')}
+              className={selectClass}
+            />
+            <button
+              type="submit"
+              className="flex items-center gap-2 rounded-lg bg-primary px-3 py-2 text-sm font-medium text-white hover:bg-primary-dark"
+            >
+              <Save size={14} />
+              {t('common.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setNaming(false)
+                setError(null)
+              }}
+              className="rounded-lg border border-border px-3 py-2 text-sm font-medium text-text-body hover:bg-surface-hover"
+            >
+              {t('common.cancel')}
+            </button>
+          </form>
+        ) : (
+          isFiltered(filters) &&
+          !viewId && (
+            <button
+              onClick={() => setNaming(true)}
+              className="flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body hover:bg-surface-hover"
+            >
+              <Save size={14} />
+              {t('sales.saveView')}
+            </button>
+          )
+        )}
+        {error && <p className="text-sm text-danger">{error}</p>}
+      </div>
+    </div>
+  )
+}
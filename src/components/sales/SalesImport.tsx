@@ -0,0 +1,324 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Upload, AlertTriangle, CheckCircle2 } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import {
+  IMPORT_FIELDS,
+  readImportFile,
+  guessMapping,
+  buildImport,
+  type ColumnMapping,
+  type ImportSheet,
+  type ImportedSale,
+  type ImportRowError,
+} from '@/lib/sales-import'
+import { SALE_CATEGORIES, outletLookup, resolveOutlet } from '@/lib/sales-utils'
+import { useOutlets } from '@/hooks/useOutlets'
+import type { SaleCategory } from '@/types/database'
+
+type Step = 'upload' | 'map' | 'preview' | 'done'
+
+const VAT_RATES = [
+  { value: 0.25, label: '25%' },
+  { value: 0.15, label: '15%' },
+  { value: 0.12, label: '12%' },
+  { value: 0, label: '0%' },
+]
+
+const inputClass =
+  'mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary'
+
+export default function SalesImport({
+  festivalId,
+  editionId,
+  timeZone,
+  onDone,
+  onCancel,
+}: {
+  festivalId: string
+  editionId: string
+  timeZone: string
+  onDone: () => void
+  onCancel: () => void
+}) {
+  const { t } = useTranslation()
+  const { outlets } = useOutlets()
+  const [step, setStep] = useState<Step>('upload')
+  const [fileName, setFileName] = useState('')
+  const [sheet, setSheet] = useState<ImportSheet | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [category, setCategory] = useState<SaleCategory>('ticket')
+  const [defaultVatRate, setDefaultVatRate] = useState(0.12)
+  const [sales, setSales] = useState<ImportedSale[]>([])
+  const [errors, setErrors] = useState<ImportRowError[]>([])
+  const [busy, setBusy] = useState(false)
+  const [readError, setReadError] = useState(false)
+  const [result, setResult] = useState<{ inserted: number; skipped: number } | null>(null)
+
+  const handleFile = async (file: File) => {
+    setBusy(true)
+    setReadError(false)
+    try {
+      const parsed = await readImportFile(file)
+      setFileName(file.name)
+      setSheet(parsed)
+      setMapping(guessMapping(parsed.headers))
+      setStep('map')
+    } catch {
+      setReadError(true)
+    }
+    setBusy(false)
+  }
+
+  const handlePreview = async () => {
+    if (!sheet || !mapping) return
+    setBusy(true)
+    const built = await buildImport(sheet, mapping, category, defaultVatRate, timeZone)
+    setSales(built.sales)
+    setErrors(built.errors)
+    setBusy(false)
+    setStep('preview')
+  }
+
+  const handleImport = async () => {
+    setBusy(true)
+    let inserted = 0
+    const outletIds = outletLookup(outlets)
+    // Rows already imported have the same external_id and are skipped
+    for (let i = 0; i < sales.length; i += 500) {
+      const batch = sales.slice(i, i + 500).map((s) => ({
+        ...s,
+        outlet_id: resolveOutlet(outletIds, s.sales_point, null),
+        festival_id: festivalId,
+        edition_id: editionId,
+        provider: 'import',
+      }))
+      const { data } = await supabase
+        .from('ticket_sales')
+        .upsert(batch, { onConflict: 'festival_id,provider,external_id', ignoreDuplicates: true })
+        .select('id')
+      inserted += data?.length ?? 0
+    }
+    setResult({ inserted, skipped: sales.length - inserted })
+    setBusy(false)
+    setStep('done')
+  }
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.some(({ field, required }) => required && mapping[field] === null)
+    : true
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{t('sales.import.title')}</h2>
+        {fileName && <span className="text-sm text-text-muted">{fileName}</span>}
+      </div>
+
+      {/* Step 1: file */}
+      {step === 'upload' && (
+        <div className="mt-4">
+          <p className="text-sm text-text-muted">{t('sales.import.uploadHint')}</p>
+          <label className="mt-4 flex w-fit cursor-pointer items-center gap-2 rounded-lg border border-border bg-surface-hover px-4 py-2 text-sm text-text-body hover:bg-border-light">
+            <Upload size={16} />
+            {busy ? t('common.loading') : t('sales.import.chooseFile')}
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFile(file)
+              }}
+            />
+          </label>
+          {readError && (
+            <p className="mt-2 text-sm text-danger">{t('sales.import.readError')}</p>
+          )}
+        </div>
+      )}
+
+      {/* Step 2: column mapping */}
+      {step === 'map' && sheet && mapping && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-text-muted">
+            {t('sales.import.mapHint', { count: sheet.rows.length })}
+          </p>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {IMPORT_FIELDS.map(({ field, required }) => (
+              <div key={field}>
+                <label className="block text-xs font-medium text-text-muted">
+                  {t(`sales.import.fields.${field}`)}
+                  {required && ' *'}
+                </label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) =>
+                    setMapping({
+                      ...mapping,
+                      [field]: e.target.value === '' ? null : Number(e.target.value),
+                    })
+                  }
+                  className={inputClass}
+                >
+                  <option value="">{t('sales.import.notMapped')}</option>
+                  {sheet.headers.map((h, idx) => (
+                    <option key={idx} value={idx}>
+                      {h || `#${idx + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div>
+              <label className="block text-xs font-medium text-text-muted">
+                {t('sales.import.category')}
+              </label>
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value as SaleCategory)}
+                className={inputClass}
+              >
+                {SALE_CATEGORIES.map((c) => (
+                  <option key={c} value={c}>
+                    {t(`sales.categories.${c}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {mapping.vat_rate === null && (
+              <div>
+                <label className="block text-xs font-medium text-text-muted">
+                  {t('sales.import.defaultVatRate')}
+                </label>
+                <select
+                  value={defaultVatRate}
+                  onChange={(e) => setDefaultVatRate(Number(e.target.value))}
+                  className={inputClass}
+                >
+                  {VAT_RATES.map((r) => (
+                    <option key={r.value} value={r.value}>
+                      {r.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handlePreview}
+              disabled={missingRequired || busy}
+              className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+            >
+              {busy ? t('common.loading') : t('common.next')}
+            </button>
+            <button
+              onClick={onCancel}
+              className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-text-body hover:bg-surface-hover"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Step 3: preview + validation */}
+      {step === 'preview' && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span className="flex items-center gap-1 text-success">
+              <CheckCircle2 size={16} />
+              {t('sales.import.validRows', { count: sales.length })}
+            </span>
+            {errors.length > 0 && (
+              <span className="flex items-center gap-1 text-danger">
+                <AlertTriangle size={16} />
+                {t('sales.import.invalidCells', { count: errors.length })}
+              </span>
+            )}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="max-h-40 space-y-1 overflow-y-auto rounded-lg bg-danger-light p-3 text-xs text-danger">
+              {errors.slice(0, 50).map((err, i) => (
+                <li key={i}>
+                  {t('sales.import.rowError', {
+                    row: err.row,
+                    field: t(`sales.import.fields.${err.field}`),
+                    value: err.value || '—',
+                  })}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {sales.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-border text-text-muted">
+                    {IMPORT_FIELDS.map(({ field }) => (
+                      <th key={field} className="pb-2 pr-4 font-medium">
+                        {t(`sales.import.fields.${field}`)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border-light">
+                  {sales.slice(0, 10).map((s) => (
+                    <tr key={s.external_id}>
+                      <td className="py-2 pr-4 text-text-body">{s.ticket_type}</td>
+                      <td className="py-2 pr-4 text-text-body">{s.quantity}</td>
+                      <td className="py-2 pr-4 text-text-body">{s.price_inc_vat.toFixed(2)}</td>
+                      <td className="py-2 pr-4 text-text-body">{(s.vat_rate * 100).toFixed(0)}%</td>
+                      <td className="py-2 pr-4 text-text-body">
+                        {new Date(s.sold_at).toLocaleString('nb-NO')}
+                      </td>
+                      <td className="py-2 pr-4 text-text-body">
+                        {s.sale_channel === 'web' ? t('sales.web') : t('sales.pos')}
+                      </td>
+                      <td className="py-2 pr-4 text-text-body">{s.sales_point ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleImport}
+              disabled={sales.length === 0 || busy}
+              className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+            >
+              {busy ? t('common.loading') : t('sales.import.importRows', { count: sales.length })}
+            </button>
+            <button
+              onClick={() => setStep('map')}
+              className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-text-body hover:bg-surface-hover"
+            >
+              {t('common.back')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Step 4: result */}
+      {step === 'done' && result && (
+        <div className="mt-4 space-y-4">
+          <p className="flex items-center gap-2 text-sm text-success">
+            <CheckCircle2 size={16} />
+            {t('sales.import.done', { inserted: result.inserted, skipped: result.skipped })}
+          </p>
+          <button
+            onClick={onDone}
+            className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
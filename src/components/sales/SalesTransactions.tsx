@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ChevronLeft, ChevronRight, X } from 'lucide-react'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { saleRowsQuery, type SaleGroup } from '@/lib/sales-rows'
+import type { SalesFilters } from '@/lib/sales-filters'
+import type { Outlet, TicketSale } from '@/types/database'
+
+const PAGE_SIZE = 25
+
+interface SalesTransactionsProps {
+  /** What was clicked, shown as the heading */
+  title: string
+  filters: Partial<SalesFilters>
+  group: SaleGroup
+  outlets: Outlet[]
+  timeZone: string
+  currency: string
+  onClose: () => void
+}
+
+// The rows behind a chart bar, newest first, a page at a time from the database
+export default function SalesTransactions({
+  title,
+  filters,
+  group,
+  outlets,
+  timeZone,
+  currency,
+  onClose,
+}: SalesTransactionsProps) {
+  const { t } = useTranslation()
+  const { festival, edition } = useAuthContext()
+  const [page, setPage] = useState(0)
+  const [visible, setVisible] = useState<TicketSale[]>([])
+  const [count, setCount] = useState(0)
+  const outletNames = useMemo(() => new Map(outlets.map((o) => [o.id, o.name])), [outlets])
+  const pages = Math.max(1, Math.ceil(count / PAGE_SIZE))
+  const current = Math.min(page, pages - 1)
+
+  const fetchPage = useCallback(async () => {
+    if (!festival || !edition) return
+    const { data, count: total } = await saleRowsQuery(festival.id, edition.id, filters, group, timeZone, true).range(
+      current * PAGE_SIZE,
+      (current + 1) * PAGE_SIZE - 1,
+    )
+    if (data) setVisible(data)
+    setCount(total ?? 0)
+  }, [festival?.id, edition?.id, filters, group, timeZone, current])
+
+  useEffect(() => {
+    fetchPage()
+  }, [fetchPage])
+
+  const money = (n: number) =>
+    new Intl.NumberFormat('nb-NO', { style: 'currency', currency, minimumFractionDigits: 2 }).format(n)
+  const time = (value: string | null) =>
+    value
+      ? new Intl.DateTimeFormat('nb-NO', { dateStyle: 'short', timeStyle: 'short', timeZone }).format(new Date(value))
+      : ''
+
+  return (
+    <div className="rounded-xl border border-primary bg-surface p-5 shadow-sm">
+      <div className="mb-4 flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">{title}</h2>
+          <p className="text-sm text-text-muted">{t('sales.transactionCount', { count })}</p>
+        </div>
+        <button onClick={onClose} className="text-text-muted hover:text-text-body" title={t('common.close')}>
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t('sales.soldAt')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('sales.ticketType')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.import.fields.quantity')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.import.fields.price_inc_vat')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('sales.import.fields.sale_channel')}</th>
+              <th className="pb-3 font-medium">{t('sales.outlet')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light text-text-body">
+            {visible.map((s) => (
+              <tr key={s.id} className={s.is_reversal ? 'text-danger' : ''}>
+                <td className="py-2 pr-4 whitespace-nowrap">{time(s.sold_at)}</td>
+                <td className="py-2 pr-4">
+                  {s.ticket_type}
+                  {s.is_reversal && <span className="ml-2 text-xs">({t('sales.refund')})</span>}
+                </td>
+                <td className="py-2 pr-4 text-right">{s.quantity}</td>
+                <td className="py-2 pr-4 text-right">{money(s.price_inc_vat ?? 0)}</td>
+                <td className="py-2 pr-4">{s.sale_channel === 'pos' ? t('sales.pos') : t('sales.web')}</td>
+                <td className="py-2 text-text-muted">
+                  {(s.outlet_id && outletNames.get(s.outlet_id)) ?? s.sales_point ?? '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {pages > 1 && (
+        <div className="mt-4 flex items-center justify-end gap-3 text-sm text-text-muted">
+          <button
+            onClick={() => setPage(current - 1)}
+            disabled={current === 0}
+            className="rounded-lg border border-border p-1.5 hover:bg-surface-hover disabled:opacity-50"
+            title={t('common.back')}
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span>{t('sales.pageOf', { page: current + 1, pages })}</span>
+          <button
+            onClick={() => setPage(current + 1)}
+            disabled={current === pages - 1}
+            className="rounded-lg border border-border p-1.5 hover:bg-surface-hover disabled:opacity-50"
+            title={t('common.next')}
+          >
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import { useTranslation } from 'react-i18next'
+import { Link } from 'react-router-dom'
+import { AlertTriangle } from 'lucide-react'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { useSyncStatus } from '@/hooks/useSyncStatus'
+
+export default function StaleSyncBanner() {
+  const { t } = useTranslation()
+  const { profile } = useAuthContext()
+  const { lastSuccessAt, isStale, staleEvents } = useSyncStatus()
+
+  if (!isStale) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-xl border border-warning bg-warning-light px-4 py-3 text-sm text-text-body">
+      <AlertTriangle size={18} className="shrink-0 text-warning" />
+      <span className="flex-1">
+        {lastSuccessAt
+          ? t('sales.staleData', { time: new Date(lastSuccessAt).toLocaleString('nb-NO') })
+          : t('sales.neverSynced')}{' '}
+        {t('sales.staleEvents', { events: staleEvents.join(', ') })}
+      </span>
+      {profile?.role === 'admin' && (
+        <Link to="/settings?tab=integrations" className="font-medium text-primary hover:underline">
+          {t('sales.checkSync')}
+        </Link>
+      )}
+    </div>
+  )
+}
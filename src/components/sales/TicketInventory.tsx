@@ -0,0 +1,125 @@
+import { useTranslation } from 'react-i18next'
+import { AlertTriangle } from 'lucide-react'
+import type { QuotaStatus, TicketInventory as Inventory } from '@/lib/ticket-inventory'
+
+const BAR_COLORS: Record<QuotaStatus, string> = {
+  ok: 'bg-primary',
+  warning: 'bg-warning',
+  soldOut: 'bg-success',
+  oversold: 'bg-danger',
+}
+
+function percent(share: number) {
+  return `${Math.round(share * 100)} %`
+}
+
+interface TicketInventoryProps {
+  inventory: Inventory
+}
+
+export default function TicketInventory({ inventory }: TicketInventoryProps) {
+  const { t } = useTranslation()
+  const flagged = inventory.types.filter((row) => row.status !== 'ok')
+  const overCapacity =
+    inventory.capacity !== null && inventory.quotaTotal !== null && inventory.quotaTotal > inventory.capacity
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+        <h2 className="text-lg font-semibold">{t('sales.inventory')}</h2>
+        {inventory.capacity !== null && (
+          <div className="text-right text-sm">
+            <p className="font-medium text-text-heading">
+              {t('sales.capacityUsed', {
+                sold: inventory.sold.toLocaleString('nb-NO'),
+                capacity: inventory.capacity.toLocaleString('nb-NO'),
+              })}
+              {inventory.capacitySellThrough !== null && ` · ${percent(inventory.capacitySellThrough)}`}
+            </p>
+            <p className="text-text-muted">
+              {t('sales.capacityRemaining', { count: Math.max(inventory.capacityRemaining ?? 0, 0) })}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {(flagged.length > 0 || overCapacity) && (
+        <div className="mb-4 space-y-1 rounded-lg border border-warning bg-warning-light p-3 text-sm text-text-body">
+          {flagged.map((row) => (
+            <p key={row.ticketType.id} className="flex items-center gap-2">
+              <AlertTriangle size={14} className="shrink-0 text-warning" />
+              {t(`sales.quota.${row.status}`, {
+                name: row.ticketType.name,
+                percent: percent(row.sellThrough ?? 0),
+                sold: row.sold,
+                quota: row.ticketType.quota,
+              })}
+            </p>
+          ))}
+          {overCapacity && (
+            <p className="flex items-center gap-2">
+              <AlertTriangle size={14} className="shrink-0 text-warning" />
+              {t('sales.quotaOverCapacity', { quota: inventory.quotaTotal, capacity: inventory.capacity })}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t('sales.ticketType')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.sold')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.quotaLabel')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.remaining')}</th>
+              <th className="w-1/3 pb-3 font-medium">{t('sales.sellThrough')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light">
+            {inventory.types.map((row) => (
+              <tr key={row.ticketType.id}>
+                <td className="py-2 pr-4 text-text-body">
+                  {row.ticketType.name}
+                  {row.window !== 'onSale' && (
+                    <span className="ml-2 rounded-full bg-surface-alt px-2 py-0.5 text-xs text-text-muted">
+                      {t(`sales.window.${row.window}`)}
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 pr-4 text-right text-text-body">{row.sold.toLocaleString('nb-NO')}</td>
+                <td className="py-2 pr-4 text-right text-text-muted">
+                  {row.ticketType.quota?.toLocaleString('nb-NO') ?? '—'}
+                </td>
+                <td className="py-2 pr-4 text-right text-text-body">
+                  {row.remaining === null ? '—' : Math.max(row.remaining, 0).toLocaleString('nb-NO')}
+                </td>
+                <td className="py-2">
+                  {row.sellThrough !== null && (
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 flex-1 overflow-hidden rounded-full bg-surface-alt">
+                        <div
+                          className={`h-full rounded-full ${BAR_COLORS[row.status]}`}
+                          style={{ width: `${Math.min(row.sellThrough, 1) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-12 text-right text-xs text-text-muted">{percent(row.sellThrough)}</span>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {inventory.unmapped.length > 0 && (
+        <p className="mt-4 text-xs text-text-muted">
+          {t('sales.unmappedTypes', {
+            titles: inventory.unmapped.map((u) => `${u.title || t('sales.unspecifiedType')} (${u.sold})`).join(', '),
+          })}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts'
+import { ArrowUpRight, ArrowDownRight } from 'lucide-react'
+import {
+  comparisonSeries,
+  compareWithPreviousYear,
+  formatChange,
+  ticketTypeComparison,
+  type ComparisonMetric,
+  type Edition,
+} from '@/lib/year-comparison'
+
+const EARLIER_COLORS = ['#A8A29E', '#F59E0B', '#22C55E', '#EC4899', '#06B6D4']
+
+interface YearComparisonProps {
+  editions: Edition[]
+  /** Days before start today; negative once the festival has begun */
+  daysBefore: number
+  currency: string
+}
+
+export default function YearComparison({ editions, daysBefore, currency }: YearComparisonProps) {
+  const { t } = useTranslation()
+  const [metric, setMetric] = useState<ComparisonMetric>('tickets')
+
+  const series = useMemo(() => comparisonSeries(editions, metric, daysBefore), [editions, metric, daysBefore])
+  const yoy = useMemo(() => compareWithPreviousYear(editions, metric, daysBefore), [editions, metric, daysBefore])
+  const byType = useMemo(
+    () => (editions.length > 1 ? ticketTypeComparison(editions[0], editions[1], metric, daysBefore) : []),
+    [editions, metric, daysBefore],
+  )
+
+  const format = (n: number) =>
+    metric === 'tickets'
+      ? n.toLocaleString('nb-NO')
+      : new Intl.NumberFormat('nb-NO', {
+          style: 'currency',
+          currency,
+          minimumFractionDigits: 0,
+          maximumFractionDigits: 0,
+        }).format(n)
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">{t('sales.yearComparison')}</h2>
+          {yoy && yoy.change !== null && (
+            <p className={`mt-1 flex items-center gap-1 text-sm font-medium ${yoy.change >= 0 ? 'text-success' : 'text-danger'}`}>
+              {yoy.change >= 0 ? <ArrowUpRight size={16} /> : <ArrowDownRight size={16} />}
+              {t(yoy.change >= 0 ? 'sales.aheadOf' : 'sales.behind', {
+                change: formatChange(yoy.change),
+                year: yoy.previousYear,
+              })}
+              <span className="font-normal text-text-muted">
+                ({format(yoy.current)} / {format(yoy.previous)})
+              </span>
+            </p>
+          )}
+        </div>
+        <div className="flex gap-1 rounded-lg bg-surface-alt p-1">
+          {(['tickets', 'revenue'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`rounded-md px-3 py-1 text-sm font-medium transition-colors ${
+                metric === m ? 'bg-surface text-text-heading shadow-sm' : 'text-text-muted hover:text-text-body'
+              }`}
+            >
+              {t(m === 'tickets' ? 'sales.tickets' : 'sales.revenue')}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {editions.length < 2 ? (
+        <p className="py-6 text-center text-sm text-text-muted">{t('sales.noEarlierEditions')}</p>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={series}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#E7E5E4" />
+              <XAxis dataKey="days_before" stroke="#A8A29E" fontSize={12} />
+              <YAxis stroke="#A8A29E" fontSize={12} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#FFFFFF', border: '1px solid #E7E5E4', borderRadius: 8 }}
+                labelStyle={{ color: '#44403C' }}
+                labelFormatter={(d) => t('sales.daysBeforeStart', { count: Number(d) })}
+                formatter={(value) => format(Number(value))}
+              />
+              <Legend />
+              <ReferenceLine x={Math.max(daysBefore, 0)} stroke="#6366F1" strokeDasharray="3 3" />
+              {editions.map((edition, i) => (
+                <Line
+                  key={edition.year}
+                  type="monotone"
+                  dataKey={String(edition.year)}
+                  name={String(edition.year)}
+                  stroke={edition.current ? '#6366F1' : EARLIER_COLORS[(i - 1) % EARLIER_COLORS.length]}
+                  strokeWidth={edition.current ? 3 : 1.5}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+          <p className="mt-1 text-center text-xs text-text-muted">{t('sales.daysBeforeAxis')}</p>
+
+          {byType.length > 0 && (
+            <div className="mt-6 overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-border text-text-muted">
+                    <th className="pb-3 pr-4 font-medium">{t('sales.ticketType')}</th>
+                    <th className="pb-3 pr-4 text-right font-medium">{editions[0].year}</th>
+                    <th className="pb-3 pr-4 text-right font-medium">{editions[1].year}</th>
+                    <th className="pb-3 text-right font-medium">{t('sales.change')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border-light">
+                  {byType.map((row) => (
+                    <tr key={row.ticketType}>
+                      <td className="py-2 pr-4 text-text-body">{row.ticketType || t('sales.unspecifiedType')}</td>
+                      <td className="py-2 pr-4 text-right text-text-body">{format(row.current)}</td>
+                      <td className="py-2 pr-4 text-right text-text-muted">{format(row.previous)}</td>
+                      <td
+                        className={`py-2 text-right font-medium ${
+                          row.change === null ? 'text-text-muted' : row.change >= 0 ? 'text-success' : 'text-danger'
+                        }`}
+                      >
+                        {row.change === null ? '—' : formatChange(row.change)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
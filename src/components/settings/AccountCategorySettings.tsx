@@ -0,0 +1,278 @@
+import { useState, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Plus, Save, Pencil, Trash2, Archive, ArchiveRestore } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { useAccountCategories } from '@/hooks/useAccountCategories'
+import { STANDARD_TAX_CODES, categorySlug } from '@/lib/accounts'
+import type { AccountCategory, AccountCategoryType } from '@/types/database'
+
+const EMPTY_FORM = {
+  type: 'income' as AccountCategoryType,
+  name: '',
+  account_number: '',
+  vat_code: '',
+  sort_order: 10,
+}
+
+const inputClass =
+  'mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary'
+
+export default function AccountCategorySettings() {
+  const { t } = useTranslation()
+  const { festival, profile } = useAuthContext()
+  const { categories, refetch } = useAccountCategories()
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isAdmin = profile?.role === 'admin'
+
+  const openForm = (category?: AccountCategory) => {
+    setEditingId(category?.id ?? null)
+    setForm(
+      category
+        ? {
+            type: category.type,
+            name: category.name,
+            account_number: category.account_number ?? '',
+            vat_code: category.vat_code ?? '',
+            sort_order: category.sort_order,
+          }
+        : {
+            ...EMPTY_FORM,
+            sort_order: Math.max(0, ...categories.filter((c) => c.type === 'income').map((c) => c.sort_order)) + 10,
+          },
+    )
+    setError(null)
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!festival) return
+
+    const row = {
+      name: form.name.trim(),
+      account_number: form.account_number.trim() || null,
+      vat_code: form.vat_code || null,
+      sort_order: form.sort_order,
+    }
+    // The slug is set once; entries keep pointing at it when the name changes
+    const slug = categorySlug(row.name)
+    if (!editingId && !slug) {
+      setError(t('settings.categoryNameInvalid'))
+      return
+    }
+
+    setSaving(true)
+    const { error: saveError } = editingId
+      ? await supabase.from('account_categories').update(row).eq('id', editingId)
+      : await supabase
+          .from('account_categories')
+          .insert({ ...row, festival_id: festival.id, type: form.type, slug })
+
+    setSaving(false)
+    if (saveError) {
+      setError(saveError.message)
+      return
+    }
+    setShowForm(false)
+    setEditingId(null)
+    await refetch()
+  }
+
+  const handleArchive = async (category: AccountCategory) => {
+    await supabase.from('account_categories').update({ archived: !category.archived }).eq('id', category.id)
+    await refetch()
+  }
+
+  const handleDelete = async (category: AccountCategory) => {
+    if (!confirm(t('settings.deleteCategoryConfirm', { name: category.name }))) return
+    const { error: deleteError } = await supabase.from('account_categories').delete().eq('id', category.id)
+    if (deleteError) alert(t('settings.categoryInUse', { name: category.name }))
+    await refetch()
+  }
+
+  const taxCodeLabel = (code: string) => `${code} – ${t(`settings.taxCodes.${code}`)}`
+
+  if (!festival) return null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">{t('settings.accountCategories')}</h3>
+          <p className="mt-1 text-sm text-text-muted">{t('settings.accountCategoriesHint')}</p>
+        </div>
+        {isAdmin && (
+          <button
+            onClick={() => openForm()}
+            className="flex shrink-0 items-center gap-2 rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-dark"
+          >
+            <Plus size={14} />
+            {t('settings.addCategory')}
+          </button>
+        )}
+      </div>
+
+      {showForm && isAdmin && (
+        <form
+          onSubmit={handleSubmit}
+          className="grid grid-cols-1 gap-3 rounded-lg border border-border bg-bg p-4 sm:grid-cols-2"
+        >
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.categoryType')}</label>
+            <select
+              value={form.type}
+              disabled={!!editingId}
+              onChange={(e) => setForm({ ...form, type: e.target.value as AccountCategoryType })}
+              className={`${inputClass} disabled:opacity-50`}
+            >
+              <option value="income">{t('economy.income')}</option>
+              <option value="expense">{t('economy.expenses')}</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.categoryName')}</label>
+            <input
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.accountNumber')}</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              pattern="[0-9]{4,6}"
+              placeholder="3000"
+              value={form.account_number}
+              onChange={(e) => setForm({ ...form, account_number: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.taxCode')}</label>
+            <select
+              value={form.vat_code}
+              onChange={(e) => setForm({ ...form, vat_code: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">{t('settings.taxCodeFromRate')}</option>
+              {STANDARD_TAX_CODES.map((code) => (
+                <option key={code} value={code}>
+                  {taxCodeLabel(code)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.sortOrder')}</label>
+            <input
+              type="number"
+              required
+              value={form.sort_order}
+              onChange={(e) => setForm({ ...form, sort_order: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          {error && <p className="text-sm text-danger sm:col-span-2">{error}</p>}
+          <div className="flex items-end gap-2 sm:col-span-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+            >
+              <Save size={14} />
+              {saving ? t('common.loading') : t('common.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-text-body hover:bg-surface-hover"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {(['income', 'expense'] as const).map((type) => {
+        const rows = categories.filter((c) => c.type === type)
+        return (
+          <div key={type} className="overflow-x-auto">
+            <h4 className="mb-2 text-sm font-semibold text-text-heading">
+              {type === 'income' ? t('economy.income') : t('economy.expenses')}
+            </h4>
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-border text-text-muted">
+                  <th className="pb-3 pr-4 font-medium">{t('settings.categoryName')}</th>
+                  <th className="pb-3 pr-4 font-medium">{t('settings.accountNumber')}</th>
+                  <th className="pb-3 pr-4 font-medium">{t('settings.taxCode')}</th>
+                  {isAdmin && <th className="pb-3 font-medium">{t('settings.actions')}</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border-light">
+                {rows.map((category) => (
+                  <tr key={category.id} className={category.archived ? 'opacity-50' : undefined}>
+                    <td className="py-3 pr-4 text-text-heading">
+                      {category.name}
+                      {category.archived && (
+                        <span className="ml-2 text-xs text-text-muted">{t('settings.archived')}</span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 font-mono text-text-body">{category.account_number ?? '—'}</td>
+                    <td className="py-3 pr-4 text-text-muted">
+                      {category.vat_code ? taxCodeLabel(category.vat_code) : t('settings.taxCodeFromRate')}
+                    </td>
+                    {isAdmin && (
+                      <td className="py-3">
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => openForm(category)}
+                            className="text-text-muted hover:text-primary"
+                            title={t('common.edit')}
+                          >
+                            <Pencil size={14} />
+                          </button>
+                          <button
+                            onClick={() => handleArchive(category)}
+                            className="text-text-muted hover:text-primary"
+                            title={category.archived ? t('settings.restoreCategory') : t('settings.archiveCategory')}
+                          >
+                            {category.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                          </button>
+                          <button
+                            onClick={() => handleDelete(category)}
+                            className="text-text-muted hover:text-danger"
+                            title={t('common.delete')}
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={isAdmin ? 4 : 3} className="py-6 text-center text-text-muted">
+                      {t('settings.noCategories')}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,311 @@
+import { useState, useEffect, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Plus, Save, Pencil, Trash2, RefreshCw } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { SALE_CATEGORIES } from '@/lib/sales-utils'
+import type { SaleCategory, SaleCategoryRule } from '@/types/database'
+
+const EMPTY_FORM = {
+  match_field: 'title' as SaleCategoryRule['match_field'],
+  match_type: 'exact' as SaleCategoryRule['match_type'],
+  pattern: '',
+  category: 'fb' as SaleCategory,
+  priority: 10,
+}
+
+const inputClass =
+  'mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary'
+
+function isValidRegex(pattern: string) {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export default function CategoryRuleSettings() {
+  const { t } = useTranslation()
+  const { festival, profile } = useAuthContext()
+  const [rules, setRules] = useState<SaleCategoryRule[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [appliedCount, setAppliedCount] = useState<number | null>(null)
+
+  const isAdmin = profile?.role === 'admin'
+
+  const fetchRules = async () => {
+    if (!festival) return
+    const { data } = await supabase
+      .from('sale_category_rules')
+      .select('*')
+      .eq('festival_id', festival.id)
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true })
+    if (data) setRules(data)
+  }
+
+  useEffect(() => {
+    fetchRules()
+  }, [festival?.id])
+
+  const openForm = (rule?: SaleCategoryRule) => {
+    setEditingId(rule?.id ?? null)
+    setForm(
+      rule
+        ? {
+            match_field: rule.match_field,
+            match_type: rule.match_type,
+            pattern: rule.pattern,
+            category: rule.category,
+            priority: rule.priority,
+          }
+        : { ...EMPTY_FORM, priority: (rules[rules.length - 1]?.priority ?? 0) + 10 },
+    )
+    setShowForm(true)
+  }
+
+  const patternInvalid = form.match_type === 'regex' && !isValidRegex(form.pattern)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!festival || patternInvalid) return
+    setSaving(true)
+
+    if (editingId) {
+      await supabase.from('sale_category_rules').update(form).eq('id', editingId)
+    } else {
+      await supabase
+        .from('sale_category_rules')
+        .insert({ ...form, festival_id: festival.id })
+    }
+
+    setSaving(false)
+    setShowForm(false)
+    setEditingId(null)
+    await fetchRules()
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm(t('settings.deleteRuleConfirm'))) return
+    await supabase.from('sale_category_rules').delete().eq('id', id)
+    await fetchRules()
+  }
+
+  // Re-classifies sales already stored; new sales are classified during sync
+  const handleApply = async () => {
+    if (!festival) return
+    setApplying(true)
+    setAppliedCount(null)
+    const { data } = await supabase.rpc('apply_sale_category_rules', {
+      p_festival_id: festival.id,
+    })
+    setAppliedCount(data ?? 0)
+    setApplying(false)
+  }
+
+  if (!festival) return null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">{t('settings.categoryRules')}</h3>
+          <p className="mt-1 text-sm text-text-muted">{t('settings.categoryRulesHint')}</p>
+        </div>
+        {isAdmin && (
+          <button
+            onClick={() => openForm()}
+            className="flex shrink-0 items-center gap-2 rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-dark"
+          >
+            <Plus size={14} />
+            {t('settings.addRule')}
+          </button>
+        )}
+      </div>
+
+      {showForm && isAdmin && (
+        <form
+          onSubmit={handleSubmit}
+          className="grid grid-cols-1 gap-3 rounded-lg border border-border bg-bg p-4 sm:grid-cols-2"
+        >
+          <div>
+            <label className="block text-xs font-medium text-text-muted">
+              {t('settings.matchField')}
+            </label>
+            <select
+              value={form.match_field}
+              onChange={(e) =>
+                setForm({ ...form, match_field: e.target.value as SaleCategoryRule['match_field'] })
+              }
+              className={inputClass}
+            >
+              <option value="title">{t('settings.matchFieldTitle')}</option>
+              <option value="category">{t('settings.matchFieldCategory')}</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">
+              {t('settings.matchType')}
+            </label>
+            <select
+              value={form.match_type}
+              onChange={(e) =>
+                setForm({ ...form, match_type: e.target.value as SaleCategoryRule['match_type'] })
+              }
+              className={inputClass}
+            >
+              <option value="exact">{t('settings.matchTypeExact')}</option>
+              <option value="regex">{t('settings.matchTypeRegex')}</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">
+              {t('settings.pattern')}
+            </label>
+            <input
+              type="text"
+              required
+              value={form.pattern}
+              onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+              placeholder={form.match_type === 'regex' ? '^(øl|vin)\\b' : 'Matpakke-billett'}
+              className={`${inputClass} font-mono`}
+            />
+            {patternInvalid && (
+              <p className="mt-1 text-xs text-danger">{t('settings.invalidRegex')}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">
+              {t('settings.saleCategory')}
+            </label>
+            <select
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value as SaleCategory })}
+              className={inputClass}
+            >
+              {SALE_CATEGORIES.map((c) => (
+                <option key={c} value={c}>
+                  {t(`sales.categories.${c}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">
+              {t('settings.priority')}
+            </label>
+            <input
+              type="number"
+              required
+              value={form.priority}
+              onChange={(e) => setForm({ ...form, priority: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex items-end gap-2 sm:col-span-2">
+            <button
+              type="submit"
+              disabled={saving || patternInvalid}
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+            >
+              <Save size={14} />
+              {saving ? t('common.loading') : t('common.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-text-body hover:bg-surface-hover"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t('settings.priority')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.matchField')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.pattern')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.saleCategory')}</th>
+              {isAdmin && <th className="pb-3 font-medium">{t('settings.actions')}</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light">
+            {rules.map((rule) => (
+              <tr key={rule.id}>
+                <td className="py-3 pr-4 text-text-muted">{rule.priority}</td>
+                <td className="py-3 pr-4 text-text-body">
+                  {rule.match_field === 'title'
+                    ? t('settings.matchFieldTitle')
+                    : t('settings.matchFieldCategory')}
+                </td>
+                <td className="py-3 pr-4">
+                  <code className="rounded bg-surface-hover px-1.5 py-0.5 text-xs text-text-heading">
+                    {rule.match_type === 'regex' ? `/${rule.pattern}/` : rule.pattern}
+                  </code>
+                </td>
+                <td className="py-3 pr-4 text-text-heading">
+                  {t(`sales.categories.${rule.category}`)}
+                </td>
+                {isAdmin && (
+                  <td className="py-3">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => openForm(rule)}
+                        className="text-text-muted hover:text-primary"
+                        title={t('common.edit')}
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule.id)}
+                        className="text-text-muted hover:text-danger"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                )}
+              </tr>
+            ))}
+            {rules.length === 0 && (
+              <tr>
+                <td colSpan={isAdmin ? 5 : 4} className="py-6 text-center text-text-muted">
+                  {t('settings.noRules')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {isAdmin && (
+        <div className="flex flex-wrap items-center gap-3 rounded-lg border border-border bg-bg p-4">
+          <button
+            onClick={handleApply}
+            disabled={applying}
+            className="flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-2 text-sm font-medium text-text-body hover:bg-surface-hover disabled:opacity-50"
+          >
+            <RefreshCw size={14} className={applying ? 'animate-spin' : ''} />
+            {t('settings.applyRules')}
+          </button>
+          <span className="text-sm text-text-muted">
+            {appliedCount === null
+              ? t('settings.applyRulesHint')
+              : t('settings.rulesApplied', { count: appliedCount })}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,334 @@
+import { useState, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Pencil, Star, CalendarPlus } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import type { FestivalEdition } from '@/types/database'
+
+const inputClass =
+  'mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary'
+
+interface EditionDraft {
+  year: number
+  name: string
+  start_date: string
+  end_date: string
+  capacity: string
+}
+
+function toDraft(edition: FestivalEdition): EditionDraft {
+  return {
+    year: edition.year,
+    name: edition.name ?? '',
+    start_date: edition.start_date ?? '',
+    end_date: edition.end_date ?? '',
+    capacity: edition.capacity?.toString() ?? '',
+  }
+}
+
+function fromDraft(draft: EditionDraft) {
+  return {
+    year: draft.year,
+    name: draft.name.trim() || null,
+    start_date: draft.start_date || null,
+    end_date: draft.end_date || null,
+    capacity: draft.capacity ? Number(draft.capacity) : null,
+  }
+}
+
+/** Name, year, dates and capacity of one edition */
+function EditionFields({ draft, onChange }: { draft: EditionDraft; onChange: (draft: EditionDraft) => void }) {
+  const { t } = useTranslation()
+  const set = (field: keyof EditionDraft, value: string | number) => onChange({ ...draft, [field]: value })
+
+  return (
+    <div className="grid grid-cols-1 gap-3 sm:grid-cols-5">
+      <div>
+        <label className="block text-xs font-medium text-text-muted">{t('settings.editionYear')}</label>
+        <input
+          type="number"
+          required
+          value={draft.year}
+          onChange={(e) => set('year', Number(e.target.value))}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-text-muted">{t('settings.editionName')}</label>
+        <input
+          type="text"
+          value={draft.name}
+          placeholder={String(draft.year)}
+          onChange={(e) => set('name', e.target.value)}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-text-muted">{t('settings.startDate')}</label>
+        <input
+          type="date"
+          value={draft.start_date}
+          onChange={(e) => set('start_date', e.target.value)}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-text-muted">{t('settings.endDate')}</label>
+        <input
+          type="date"
+          value={draft.end_date}
+          onChange={(e) => set('end_date', e.target.value)}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-text-muted">{t('settings.capacity')}</label>
+        <input
+          type="number"
+          min={0}
+          value={draft.capacity}
+          onChange={(e) => set('capacity', e.target.value)}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default function EditionSettings() {
+  const { t } = useTranslation()
+  const { festival, editions, profile, refreshFestival, refreshEditions, setEditionId } = useAuthContext()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<EditionDraft | null>(null)
+  const [rollover, setRollover] = useState<EditionDraft | null>(null)
+  const [copySponsors, setCopySponsors] = useState(true)
+  const [copyBudget, setCopyBudget] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const current = editions.find((e) => e.id === festival?.current_edition_id) ?? null
+
+  const startEdit = (edition: FestivalEdition) => {
+    setEditingId(edition.id)
+    setDraft(toDraft(edition))
+    setMessage(null)
+  }
+
+  // The next edition starts from the current one, a year later
+  const startRollover = () => {
+    const nextYear = Math.max(new Date().getFullYear(), ...editions.map((e) => e.year + 1))
+    const years = nextYear - (current?.year ?? nextYear)
+    const shift = (date: string | null) => (date ? `${Number(date.slice(0, 4)) + years}${date.slice(4)}` : '')
+    setRollover({
+      year: nextYear,
+      name: '',
+      start_date: shift(current?.start_date ?? null),
+      end_date: shift(current?.end_date ?? null),
+      capacity: current?.capacity?.toString() ?? '',
+    })
+    setMessage(null)
+  }
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!editingId || !draft) return
+    setBusy(true)
+    const { error } = await supabase.from('festival_editions').update(fromDraft(draft)).eq('id', editingId)
+    setBusy(false)
+    if (error) {
+      setMessage({ type: 'error', text: error.message })
+      return
+    }
+    setEditingId(null)
+    setDraft(null)
+    await refreshEditions()
+  }
+
+  const handleMakeCurrent = async (edition: FestivalEdition) => {
+    if (!festival || !confirm(t('settings.makeCurrentConfirm', { name: edition.name ?? edition.year }))) return
+    await supabase.from('festivals').update({ current_edition_id: edition.id }).eq('id', festival.id)
+    await refreshFestival()
+  }
+
+  const handleRollover = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!festival || !rollover) return
+    if (editions.some((ed) => ed.year === rollover.year)) {
+      setMessage({ type: 'error', text: t('settings.editionExists', { year: rollover.year }) })
+      return
+    }
+    setBusy(true)
+    setMessage(null)
+    const edition = fromDraft(rollover)
+    const { data, error } = await supabase.rpc('rollover_festival_edition', {
+      p_festival_id: festival.id,
+      p_year: edition.year,
+      p_name: edition.name,
+      p_start_date: edition.start_date,
+      p_end_date: edition.end_date,
+      p_capacity: edition.capacity,
+      p_copy_sponsors: copySponsors,
+      p_copy_budget: copyBudget,
+    })
+    setBusy(false)
+    if (error) {
+      setMessage({ type: 'error', text: error.message })
+      return
+    }
+    setRollover(null)
+    setMessage({ type: 'success', text: t('settings.editionCreated', { year: edition.year }) })
+    await Promise.all([refreshFestival(), refreshEditions()])
+    if (data) setEditionId(data)
+  }
+
+  if (!festival || profile?.role !== 'admin') return null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">{t('settings.editions')}</h3>
+          <p className="mt-1 text-sm text-text-muted">{t('settings.editionsHint')}</p>
+        </div>
+        {!rollover && (
+          <button
+            onClick={startRollover}
+            className="flex shrink-0 items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark"
+          >
+            <CalendarPlus size={16} />
+            {t('settings.newEdition')}
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <p
+          className={`rounded-lg p-3 text-sm ${
+            message.type === 'success' ? 'bg-success-light text-success' : 'bg-danger-light text-danger'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      {rollover && (
+        <form onSubmit={handleRollover} className="space-y-4 rounded-lg border border-border bg-bg p-4">
+          <div>
+            <h4 className="text-sm font-semibold text-text-heading">{t('settings.newEdition')}</h4>
+            <p className="mt-1 text-xs text-text-muted">{t('settings.rolloverHint')}</p>
+          </div>
+          <EditionFields draft={rollover} onChange={setRollover} />
+          {current && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm text-text-body">
+                <input type="checkbox" checked={copySponsors} onChange={(e) => setCopySponsors(e.target.checked)} />
+                {t('settings.copySponsors', { name: current.name ?? current.year })}
+              </label>
+              <label className="flex items-center gap-2 text-sm text-text-body">
+                <input type="checkbox" checked={copyBudget} onChange={(e) => setCopyBudget(e.target.checked)} />
+                {t('settings.copyBudget', { name: current.name ?? current.year })}
+              </label>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busy}
+              className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+            >
+              {t('common.create')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setRollover(null)}
+              className="rounded-lg border border-border px-4 py-2 text-sm text-text-body hover:bg-surface-hover"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t('settings.editionYear')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.editionName')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.startDate')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.endDate')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('settings.capacity')}</th>
+              <th className="pb-3 font-medium">{t('settings.actions')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light">
+            {editions.map((edition) =>
+              editingId === edition.id && draft ? (
+                <tr key={edition.id}>
+                  <td colSpan={6} className="py-3">
+                    <form onSubmit={handleSave} className="space-y-3">
+                      <EditionFields draft={draft} onChange={setDraft} />
+                      <div className="flex gap-2">
+                        <button
+                          type="submit"
+                          disabled={busy}
+                          className="rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+                        >
+                          {t('common.save')}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setEditingId(null)}
+                          className="rounded-lg border border-border px-3 py-1.5 text-sm text-text-body hover:bg-surface-hover"
+                        >
+                          {t('common.cancel')}
+                        </button>
+                      </div>
+                    </form>
+                  </td>
+                </tr>
+              ) : (
+                <tr key={edition.id}>
+                  <td className="py-3 pr-4 text-text-heading">
+                    {edition.year}
+                    {edition.id === festival.current_edition_id && (
+                      <span className="ml-2 rounded-full bg-success-light px-2 py-0.5 text-xs font-medium text-success">
+                        {t('nav.currentEdition')}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-3 pr-4 text-text-body">{edition.name ?? '—'}</td>
+                  <td className="py-3 pr-4 text-text-body">{edition.start_date ?? '—'}</td>
+                  <td className="py-3 pr-4 text-text-body">{edition.end_date ?? '—'}</td>
+                  <td className="py-3 pr-4 text-right text-text-body">
+                    {edition.capacity?.toLocaleString('nb-NO') ?? '—'}
+                  </td>
+                  <td className="py-3">
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => startEdit(edition)}
+                        className="text-text-muted hover:text-text-body"
+                        title={t('common.edit')}
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      {edition.id !== festival.current_edition_id && (
+                        <button
+                          onClick={() => handleMakeCurrent(edition)}
+                          className="text-text-muted hover:text-primary"
+                          title={t('settings.makeCurrent')}
+                        >
+                          <Star size={14} />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ),
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next'
 import { Save, Upload } from 'lucide-react'
 import { supabase } from '@/lib/supabase'
 import { useAuthContext } from '@/contexts/AuthContext'
+import { DEFAULT_TIMEZONE } from '@/lib/timezone'
 import type { Festival } from '@/types/database'
 
 const LOCALES = [
@@ -13,6 +14,8 @@ const LOCALES = [
 
 const CURRENCIES = ['NOK', 'SEK', 'EUR', 'DKK', 'GBP']
 
+const TIMEZONES = Intl.supportedValuesOf('timeZone')
+
 export default function FestivalSettings() {
   const { t } = useTranslation()
   const { festival, refreshFestival } = useAuthContext()
@@ -104,32 +107,6 @@ export default function FestivalSettings() {
         </div>
       </div>
 
-      {/* Dates */}
-      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-        <div>
-          <label className="block text-sm font-medium text-text-body">
-            {t('settings.startDate')}
-          </label>
-          <input
-            type="date"
-            value={form.start_date ?? ''}
-            onChange={(e) => update('start_date', e.target.value || null)}
-            className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
-          />
-        </div>
-        <div>
-          <label className="block text-sm font-medium text-text-body">
-            {t('settings.endDate')}
-          </label>
-          <input
-            type="date"
-            value={form.end_date ?? ''}
-            onChange={(e) => update('end_date', e.target.value || null)}
-            className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
-          />
-        </div>
-      </div>
-
       {/* Location + Website */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
         <div>
@@ -156,21 +133,6 @@ export default function FestivalSettings() {
         </div>
       </div>
 
-      {/* Capacity */}
-      <div>
-        <label className="block text-sm font-medium text-text-body">
-          {t('settings.capacity')}
-        </label>
-        <input
-          type="number"
-          value={form.capacity ?? ''}
-          onChange={(e) =>
-            update('capacity', e.target.value ? Number(e.target.value) : null)
-          }
-          className="mt-1 block w-full max-w-xs rounded-lg border border-border bg-surface px-3 py-2 text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
-        />
-      </div>
-
       {/* Language + Currency */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
         <div>
@@ -207,6 +169,43 @@ export default function FestivalSettings() {
         </div>
       </div>
 
+      {/* Time zone */}
+      <div>
+        <label className="block text-sm font-medium text-text-body">
+          {t('settings.timezone')}
+        </label>
+        <select
+          value={form.timezone ?? DEFAULT_TIMEZONE}
+          onChange={(e) => update('timezone', e.target.value)}
+          className="mt-1 block w-full max-w-xs rounded-lg border border-border bg-surface px-3 py-2 text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+        >
+          {TIMEZONES.map((tz) => (
+            <option key={tz} value={tz}>
+              {tz}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-text-muted">{t('settings.timezoneHint')}</p>
+      </div>
+
+      {/* Expense approval */}
+      <div>
+        <label className="block text-sm font-medium text-text-body">
+          {t('settings.approvalThreshold')}
+        </label>
+        <input
+          type="number"
+          min={0}
+          step="1"
+          value={form.expense_approval_threshold ?? ''}
+          onChange={(e) =>
+            update('expense_approval_threshold', e.target.value === '' ? null : Number(e.target.value))
+          }
+          className="mt-1 block w-full max-w-xs rounded-lg border border-border bg-surface px-3 py-2 text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+        />
+        <p className="mt-1 text-xs text-text-muted">{t('settings.approvalThresholdHint')}</p>
+      </div>
+
       {/* Submit */}
       <div className="flex items-center gap-3">
         <button
@@ -0,0 +1,223 @@
+import { useState, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Plus, Save, Pencil, Trash2 } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { useFnbProducts } from '@/hooks/useFnbProducts'
+import type { FnbProduct } from '@/types/database'
+
+const EMPTY_FORM = {
+  name: '',
+  cost_price: '',
+  external_titles: '',
+  sort_order: 10,
+}
+
+const inputClass =
+  'mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary'
+
+export default function FnbProductSettings() {
+  const { t } = useTranslation()
+  const { festival, profile } = useAuthContext()
+  const { fnbProducts, refetch } = useFnbProducts()
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isAdmin = profile?.role === 'admin'
+
+  const openForm = (product?: FnbProduct) => {
+    setEditingId(product?.id ?? null)
+    setForm(
+      product
+        ? {
+            name: product.name,
+            cost_price: product.cost_price?.toString() ?? '',
+            external_titles: product.external_titles.join('\n'),
+            sort_order: product.sort_order,
+          }
+        : { ...EMPTY_FORM, sort_order: (fnbProducts[fnbProducts.length - 1]?.sort_order ?? 0) + 10 },
+    )
+    setError(null)
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!festival) return
+    setSaving(true)
+
+    const row = {
+      name: form.name.trim(),
+      cost_price: form.cost_price ? Number(form.cost_price) : null,
+      external_titles: form.external_titles
+        .split('\n')
+        .map((title) => title.trim())
+        .filter(Boolean),
+      sort_order: form.sort_order,
+    }
+    const { error: saveError } = editingId
+      ? await supabase.from('fnb_products').update(row).eq('id', editingId)
+      : await supabase.from('fnb_products').insert({ ...row, festival_id: festival.id })
+
+    setSaving(false)
+    if (saveError) {
+      setError(saveError.message)
+      return
+    }
+    setShowForm(false)
+    setEditingId(null)
+    await refetch()
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm(t('settings.deleteFnbProductConfirm'))) return
+    await supabase.from('fnb_products').delete().eq('id', id)
+    await refetch()
+  }
+
+  if (!festival) return null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">{t('settings.fnbProducts')}</h3>
+          <p className="mt-1 text-sm text-text-muted">{t('settings.fnbProductsHint')}</p>
+        </div>
+        {isAdmin && (
+          <button
+            onClick={() => openForm()}
+            className="flex shrink-0 items-center gap-2 rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-dark"
+          >
+            <Plus size={14} />
+            {t('settings.addFnbProduct')}
+          </button>
+        )}
+      </div>
+
+      {showForm && isAdmin && (
+        <form
+          onSubmit={handleSubmit}
+          className="grid grid-cols-1 gap-3 rounded-lg border border-border bg-bg p-4 sm:grid-cols-2"
+        >
+          <div className="sm:col-span-2">
+            <label className="block text-xs font-medium text-text-muted">{t('settings.fnbProductName')}</label>
+            <input
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.costPrice')}</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={form.cost_price}
+              onChange={(e) => setForm({ ...form, cost_price: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.sortOrder')}</label>
+            <input
+              type="number"
+              required
+              value={form.sort_order}
+              onChange={(e) => setForm({ ...form, sort_order: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-xs font-medium text-text-muted">{t('settings.externalTitles')}</label>
+            <textarea
+              rows={3}
+              value={form.external_titles}
+              onChange={(e) => setForm({ ...form, external_titles: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+            <p className="mt-1 text-xs text-text-muted">{t('settings.externalTitlesHint')}</p>
+          </div>
+          {error && <p className="text-sm text-danger sm:col-span-2">{error}</p>}
+          <div className="flex items-end gap-2 sm:col-span-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+            >
+              <Save size={14} />
+              {saving ? t('common.loading') : t('common.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-text-body hover:bg-surface-hover"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t('settings.fnbProductName')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('settings.costPrice')}</th>
+              {isAdmin && <th className="pb-3 font-medium">{t('settings.actions')}</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light">
+            {fnbProducts.map((product) => (
+              <tr key={product.id}>
+                <td className="py-3 pr-4 text-text-heading">
+                  {product.name}
+                  {product.external_titles.length > 0 && (
+                    <p className="text-xs text-text-muted">{product.external_titles.join(', ')}</p>
+                  )}
+                </td>
+                <td className="py-3 pr-4 text-right text-text-body">
+                  {product.cost_price?.toLocaleString('nb-NO', { minimumFractionDigits: 2 }) ?? '—'}
+                </td>
+                {isAdmin && (
+                  <td className="py-3">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => openForm(product)}
+                        className="text-text-muted hover:text-primary"
+                        title={t('common.edit')}
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(product.id)}
+                        className="text-text-muted hover:text-danger"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                )}
+              </tr>
+            ))}
+            {fnbProducts.length === 0 && (
+              <tr>
+                <td colSpan={isAdmin ? 3 : 2} className="py-6 text-center text-text-muted">
+                  {t('settings.noFnbProducts')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
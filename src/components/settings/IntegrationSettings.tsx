@@ -0,0 +1,427 @@
+import { useState, useEffect, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Plus, Save, Pencil, Trash2, RefreshCw, X } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import type { FestivalIntegration, IntegrationEvent, TicketingProvider } from '@/types/database'
+
+const PROVIDERS: { value: TicketingProvider; label: string }[] = [
+  { value: 'ticketco', label: 'TicketCo' },
+]
+
+/** An event row in the form; id is set for events that are already stored */
+interface EventDraft {
+  id?: string
+  external_event_id: string
+  label: string
+}
+
+const EMPTY_EVENT: EventDraft = { external_event_id: '', label: '' }
+
+const EMPTY_FORM = {
+  provider: 'ticketco' as TicketingProvider,
+  label: '',
+  api_key: '',
+  events: [EMPTY_EVENT],
+  webhook_secret: '',
+}
+
+function generateSecret() {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+function webhookUrl(integrationId: string) {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ticketco-webhook?integration=${integrationId}`
+}
+
+export default function IntegrationSettings() {
+  const { t } = useTranslation()
+  const { festival, profile } = useAuthContext()
+  const [integrations, setIntegrations] = useState<FestivalIntegration[]>([])
+  const [events, setEvents] = useState<IntegrationEvent[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchIntegrations = async () => {
+    if (!festival) return
+    const [integrationsRes, eventsRes] = await Promise.all([
+      supabase
+        .from('festival_integrations')
+        .select('*')
+        .eq('festival_id', festival.id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('integration_events')
+        .select('*')
+        .eq('festival_id', festival.id)
+        .order('created_at', { ascending: true }),
+    ])
+    if (integrationsRes.data) setIntegrations(integrationsRes.data)
+    if (eventsRes.data) setEvents(eventsRes.data)
+  }
+
+  useEffect(() => {
+    fetchIntegrations()
+  }, [festival?.id])
+
+  const openForm = (integration?: FestivalIntegration) => {
+    setEditingId(integration?.id ?? null)
+    setForm(
+      integration
+        ? {
+            provider: integration.provider,
+            label: integration.label ?? '',
+            // Secrets are write-only: empty means keep the stored value
+            api_key: '',
+            events: events
+              .filter((ev) => ev.integration_id === integration.id)
+              .map((ev) => ({ id: ev.id, external_event_id: ev.external_event_id, label: ev.label ?? '' })),
+            webhook_secret: '',
+          }
+        : EMPTY_FORM,
+    )
+    setError(null)
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!festival) return
+    setSaving(true)
+    setError(null)
+
+    const values = {
+      provider: form.provider,
+      label: form.label || null,
+    }
+
+    let integrationId = editingId
+    const savedEvents = [...form.events]
+
+    // Keeps the form open on what was saved so far, so saving again does
+    // not create the integration or its new events twice
+    const fail = async (message: string) => {
+      setError(message)
+      setSaving(false)
+      setEditingId(integrationId)
+      setForm({ ...form, events: savedEvents })
+      await fetchIntegrations()
+    }
+
+    if (integrationId) {
+      const { error: updateError } = await supabase.from('festival_integrations').update(values).eq('id', integrationId)
+      if (updateError) return fail(updateError.message)
+    } else {
+      const { data, error: insertError } = await supabase
+        .from('festival_integrations')
+        .insert({ ...values, festival_id: festival.id })
+        .select('id')
+        .single()
+      if (insertError) return fail(insertError.message)
+      integrationId = data.id
+    }
+
+    // Events removed from the form are deleted; their sales keep no event
+    const keptIds = form.events.flatMap((ev) => (ev.id ? [ev.id] : []))
+    const removedIds = events
+      .filter((ev) => ev.integration_id === integrationId && !keptIds.includes(ev.id))
+      .map((ev) => ev.id)
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await supabase.from('integration_events').delete().in('id', removedIds)
+      if (deleteError) return fail(deleteError.message)
+    }
+    for (const [index, ev] of form.events.entries()) {
+      const eventValues = {
+        external_event_id: ev.external_event_id.trim(),
+        label: ev.label || null,
+      }
+      if (ev.id) {
+        const { error: eventError } = await supabase.from('integration_events').update(eventValues).eq('id', ev.id)
+        if (eventError) return fail(eventError.message)
+      } else {
+        const { data, error: eventError } = await supabase
+          .from('integration_events')
+          .insert({ ...eventValues, festival_id: festival.id, integration_id: integrationId })
+          .select('id')
+          .single()
+        if (eventError) return fail(eventError.message)
+        savedEvents[index] = { ...ev, id: data.id }
+      }
+    }
+
+    // Secrets go to the vault; the table only keeps a masked hint
+    for (const kind of ['api_key', 'webhook_secret'] as const) {
+      if (!form[kind]) continue
+      const { error: secretError } = await supabase.rpc('set_integration_secret', {
+        p_integration_id: integrationId,
+        p_kind: kind,
+        p_secret: form[kind],
+      })
+      if (secretError) return fail(secretError.message)
+    }
+
+    setSaving(false)
+    setShowForm(false)
+    setEditingId(null)
+    await fetchIntegrations()
+  }
+
+  const handleToggleEnabled = async (integration: FestivalIntegration) => {
+    await supabase
+      .from('festival_integrations')
+      .update({ enabled: !integration.enabled })
+      .eq('id', integration.id)
+    await fetchIntegrations()
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm(t('settings.deleteIntegrationConfirm'))) return
+    await supabase.from('festival_integrations').delete().eq('id', id)
+    await fetchIntegrations()
+  }
+
+  if (!festival || profile?.role !== 'admin') return null
+
+  const editing = integrations.find((i) => i.id === editingId)
+
+  const updateEvent = (index: number, changes: Partial<EventDraft>) =>
+    setForm({
+      ...form,
+      events: form.events.map((ev, i) => (i === index ? { ...ev, ...changes } : ev)),
+    })
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">{t('settings.ticketingProviders')}</h3>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center gap-2 rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-dark"
+        >
+          <Plus size={14} />
+          {t('settings.addIntegration')}
+        </button>
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="grid grid-cols-1 gap-3 rounded-lg border border-border bg-bg p-4 sm:grid-cols-2"
+        >
+          <div>
+            <label className="block text-xs font-medium text-text-muted">
+              {t('settings.provider')}
+            </label>
+            <select
+              value={form.provider}
+              onChange={(e) => setForm({ ...form, provider: e.target.value as TicketingProvider })}
+              className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+            >
+              {PROVIDERS.map((p) => (
+                <option key={p.value} value={p.value}>
+                  {p.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">
+              {t('settings.integrationLabel')}
+            </label>
+            <input
+              type="text"
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+              className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">
+              {t('settings.apiKey')}
+            </label>
+            <input
+              type="password"
+              required={!editing?.api_key_hint}
+              autoComplete="new-password"
+              placeholder={editing?.api_key_hint ?? ''}
+              value={form.api_key}
+              onChange={(e) => setForm({ ...form, api_key: e.target.value })}
+              className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <label className="block text-xs font-medium text-text-muted">
+              {t('settings.events')}
+            </label>
+            <p className="text-xs text-text-muted">{t('settings.eventsHint')}</p>
+            {form.events.map((ev, index) => (
+              <div key={ev.id ?? `new-${index}`} className="flex gap-2">
+                <input
+                  type="text"
+                  required
+                  placeholder={t('settings.eventId')}
+                  value={ev.external_event_id}
+                  onChange={(e) => updateEvent(index, { external_event_id: e.target.value })}
+                  className="block w-40 rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+                <input
+                  type="text"
+                  placeholder={t('settings.eventLabel')}
+                  value={ev.label}
+                  onChange={(e) => updateEvent(index, { label: e.target.value })}
+                  className="block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+                <button
+                  type="button"
+                  disabled={form.events.length === 1}
+                  onClick={() => setForm({ ...form, events: form.events.filter((_, i) => i !== index) })}
+                  className="shrink-0 text-text-muted hover:text-danger disabled:opacity-30"
+                  title={t('common.delete')}
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setForm({ ...form, events: [...form.events, EMPTY_EVENT] })}
+              className="flex items-center gap-1 text-sm font-medium text-primary hover:text-primary-dark"
+            >
+              <Plus size={14} />
+              {t('settings.addEvent')}
+            </button>
+          </div>
+          {form.provider === 'ticketco' && (
+            <div className="space-y-2 sm:col-span-2">
+              <label className="block text-xs font-medium text-text-muted">
+                {t('settings.webhook')}
+              </label>
+              <p className="text-xs text-text-muted">{t('settings.webhookHint')}</p>
+              {editingId ? (
+                <input
+                  type="text"
+                  readOnly
+                  value={webhookUrl(editingId)}
+                  onFocus={(e) => e.target.select()}
+                  className="block w-full rounded-lg border border-border bg-surface-hover px-3 py-2 font-mono text-xs text-text-body"
+                />
+              ) : (
+                <p className="text-xs text-text-muted">{t('settings.webhookSaveFirst')}</p>
+              )}
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  placeholder={editing?.webhook_secret_hint ?? t('settings.webhookSecret')}
+                  value={form.webhook_secret}
+                  onFocus={(e) => e.target.select()}
+                  className="block w-full rounded-lg border border-border bg-surface-hover px-3 py-2 font-mono text-xs text-text-body"
+                />
+                <button
+                  type="button"
+                  onClick={() => setForm({ ...form, webhook_secret: generateSecret() })}
+                  className="flex shrink-0 items-center gap-2 rounded-lg border border-border px-3 py-2 text-sm font-medium text-text-body hover:bg-surface-hover"
+                >
+                  <RefreshCw size={14} />
+                  {t('settings.generateSecret')}
+                </button>
+              </div>
+              {form.webhook_secret && (
+                <p className="text-xs text-warning">{t('settings.copySecretNow')}</p>
+              )}
+            </div>
+          )}
+          {error && <p className="text-sm text-danger sm:col-span-2">{error}</p>}
+          <div className="flex items-end gap-2 sm:col-span-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+            >
+              <Save size={14} />
+              {saving ? t('common.loading') : t('common.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-text-body hover:bg-surface-hover"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t('settings.provider')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.integrationLabel')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.events')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.apiKey')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.enabled')}</th>
+              <th className="pb-3 font-medium">{t('settings.actions')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light">
+            {integrations.map((integration) => (
+              <tr key={integration.id}>
+                <td className="py-3 pr-4 text-text-heading">
+                  {PROVIDERS.find((p) => p.value === integration.provider)?.label ?? integration.provider}
+                </td>
+                <td className="py-3 pr-4 text-text-body">{integration.label || '—'}</td>
+                <td className="py-3 pr-4 text-text-body">
+                  {events
+                    .filter((ev) => ev.integration_id === integration.id)
+                    .map((ev) => ev.label || ev.external_event_id)
+                    .join(', ') || '—'}
+                </td>
+                <td className="py-3 pr-4 font-mono text-xs text-text-muted">
+                  {integration.api_key_hint ?? '—'}
+                </td>
+                <td className="py-3 pr-4">
+                  <input
+                    type="checkbox"
+                    checked={integration.enabled}
+                    onChange={() => handleToggleEnabled(integration)}
+                    className="h-4 w-4 accent-primary"
+                  />
+                </td>
+                <td className="py-3">
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => openForm(integration)}
+                      className="text-text-muted hover:text-primary"
+                      title={t('common.edit')}
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(integration.id)}
+                      className="text-text-muted hover:text-danger"
+                      title={t('common.delete')}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {integrations.length === 0 && (
+              <tr>
+                <td colSpan={6} className="py-6 text-center text-text-muted">
+                  {t('settings.noIntegrations')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,267 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Plus, Save, Pencil, Trash2, RefreshCw } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { useOutlets } from '@/hooks/useOutlets'
+import type { Outlet } from '@/types/database'
+
+const EMPTY_FORM = {
+  name: '',
+  sales_points: '',
+  sort_order: 10,
+}
+
+const inputClass =
+  'mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary'
+
+export default function OutletSettings() {
+  const { t } = useTranslation()
+  const { festival, profile } = useAuthContext()
+  const { outlets, refetch } = useOutlets()
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [applying, setApplying] = useState(false)
+  const [appliedCount, setAppliedCount] = useState<number | null>(null)
+  const [unassigned, setUnassigned] = useState<string[]>([])
+
+  const isAdmin = profile?.role === 'admin'
+
+  // Sales points and devices seen on sales that no outlet claims yet
+  const fetchUnassigned = useCallback(async () => {
+    if (!festival) return
+    const { data } = await supabase
+      .from('ticket_sales')
+      .select('sales_point, pos_device')
+      .eq('festival_id', festival.id)
+      .is('outlet_id', null)
+      .or('sales_point.not.is.null,pos_device.not.is.null')
+      .limit(1000)
+    if (!data) return
+    const names = new Set<string>()
+    for (const row of data) {
+      if (row.sales_point) names.add(row.sales_point)
+      else if (row.pos_device) names.add(row.pos_device)
+    }
+    setUnassigned(Array.from(names).sort((a, b) => a.localeCompare(b, 'nb')))
+  }, [festival?.id])
+
+  useEffect(() => {
+    fetchUnassigned()
+  }, [fetchUnassigned])
+
+  const openForm = (outlet?: Outlet) => {
+    setEditingId(outlet?.id ?? null)
+    setForm(
+      outlet
+        ? {
+            name: outlet.name,
+            sales_points: outlet.sales_points.join('\n'),
+            sort_order: outlet.sort_order,
+          }
+        : { ...EMPTY_FORM, sort_order: (outlets[outlets.length - 1]?.sort_order ?? 0) + 10 },
+    )
+    setError(null)
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!festival) return
+    setSaving(true)
+
+    const row = {
+      name: form.name.trim(),
+      sales_points: form.sales_points
+        .split('\n')
+        .map((name) => name.trim())
+        .filter(Boolean),
+      sort_order: form.sort_order,
+    }
+    const { error: saveError } = editingId
+      ? await supabase.from('outlets').update(row).eq('id', editingId)
+      : await supabase.from('outlets').insert({ ...row, festival_id: festival.id })
+
+    setSaving(false)
+    if (saveError) {
+      setError(saveError.message)
+      return
+    }
+    setShowForm(false)
+    setEditingId(null)
+    await refetch()
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm(t('settings.deleteOutletConfirm'))) return
+    await supabase.from('outlets').delete().eq('id', id)
+    await refetch()
+    await fetchUnassigned()
+  }
+
+  // Re-assigns sales already stored; new sales are assigned during sync and import
+  const handleApply = async () => {
+    if (!festival) return
+    setApplying(true)
+    setAppliedCount(null)
+    const { data } = await supabase.rpc('apply_sale_outlets', {
+      p_festival_id: festival.id,
+    })
+    setAppliedCount(data ?? 0)
+    setApplying(false)
+    await fetchUnassigned()
+  }
+
+  if (!festival) return null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">{t('settings.outlets')}</h3>
+          <p className="mt-1 text-sm text-text-muted">{t('settings.outletsHint')}</p>
+        </div>
+        {isAdmin && (
+          <button
+            onClick={() => openForm()}
+            className="flex shrink-0 items-center gap-2 rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-dark"
+          >
+            <Plus size={14} />
+            {t('settings.addOutlet')}
+          </button>
+        )}
+      </div>
+
+      {showForm && isAdmin && (
+        <form
+          onSubmit={handleSubmit}
+          className="grid grid-cols-1 gap-3 rounded-lg border border-border bg-bg p-4 sm:grid-cols-2"
+        >
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.outletName')}</label>
+            <input
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.sortOrder')}</label>
+            <input
+              type="number"
+              required
+              value={form.sort_order}
+              onChange={(e) => setForm({ ...form, sort_order: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-xs font-medium text-text-muted">{t('settings.salesPoints')}</label>
+            <textarea
+              rows={3}
+              value={form.sales_points}
+              onChange={(e) => setForm({ ...form, sales_points: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+            <p className="mt-1 text-xs text-text-muted">{t('settings.salesPointsHint')}</p>
+          </div>
+          {error && <p className="text-sm text-danger sm:col-span-2">{error}</p>}
+          <div className="flex items-end gap-2 sm:col-span-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+            >
+              <Save size={14} />
+              {saving ? t('common.loading') : t('common.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-text-body hover:bg-surface-hover"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t('settings.outletName')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.salesPoints')}</th>
+              {isAdmin && <th className="pb-3 font-medium">{t('settings.actions')}</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light">
+            {outlets.map((outlet) => (
+              <tr key={outlet.id}>
+                <td className="py-3 pr-4 text-text-heading">{outlet.name}</td>
+                <td className="py-3 pr-4 text-text-muted">{outlet.sales_points.join(', ') || '—'}</td>
+                {isAdmin && (
+                  <td className="py-3">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => openForm(outlet)}
+                        className="text-text-muted hover:text-primary"
+                        title={t('common.edit')}
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(outlet.id)}
+                        className="text-text-muted hover:text-danger"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                )}
+              </tr>
+            ))}
+            {outlets.length === 0 && (
+              <tr>
+                <td colSpan={isAdmin ? 3 : 2} className="py-6 text-center text-text-muted">
+                  {t('settings.noOutlets')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {unassigned.length > 0 && (
+        <div className="rounded-lg border border-warning bg-warning-light p-4 text-sm">
+          <p className="font-medium text-text-heading">{t('settings.unassignedSalesPoints')}</p>
+          <p className="mt-1 font-mono text-text-body">{unassigned.join(', ')}</p>
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="flex flex-wrap items-center gap-3 rounded-lg border border-border bg-bg p-4">
+          <button
+            onClick={handleApply}
+            disabled={applying}
+            className="flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-2 text-sm font-medium text-text-body hover:bg-surface-hover disabled:opacity-50"
+          >
+            <RefreshCw size={14} className={applying ? 'animate-spin' : ''} />
+            {t('settings.applyOutlets')}
+          </button>
+          <span className="text-sm text-text-muted">
+            {appliedCount === null
+              ? t('settings.applyOutletsHint')
+              : t('settings.outletsApplied', { count: appliedCount })}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
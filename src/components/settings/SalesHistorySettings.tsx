@@ -0,0 +1,280 @@
+import { useState, useMemo, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Archive, Upload, Trash2 } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { useSalesHistory } from '@/hooks/useSalesHistory'
+import { parseDate, parseNumber, readImportFile } from '@/lib/sales-import'
+import { daysBetween } from '@/lib/sales-utils'
+import { zonedDate } from '@/lib/timezone'
+
+const inputClass =
+  'mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary'
+
+const DATE_HEADERS = ['dato', 'date', 'dag', 'day']
+const TICKET_HEADERS = ['billetter', 'tickets', 'antall', 'quantity', 'solgt', 'sold']
+const TYPE_HEADERS = ['billettype', 'billett', 'ticket_type', 'ticket type', 'type']
+const REVENUE_HEADERS = ['omsetning', 'revenue', 'beløp', 'belop', 'sum', 'amount']
+
+interface HistoryDay {
+  days_before: number
+  ticket_type: string
+  tickets: number
+  revenue: number | null
+}
+
+/**
+ * Ticket counts per day (and ticket type, when the file has one) from a
+ * CSV/XLSX with a date and a tickets column, keyed by days before that
+ * year's start date. A revenue column is optional.
+ */
+async function readHistoryFile(file: File, startDate: string, timeZone: string) {
+  const { headers, rows } = await readImportFile(file)
+  const normalized = headers.map((h) => h.toLowerCase())
+  const column = (hints: string[]) => normalized.findIndex((h) => hints.includes(h))
+  const dateCol = Math.max(0, column(DATE_HEADERS))
+  const ticketCol = column(TICKET_HEADERS)
+  const qtyCol = ticketCol === -1 ? (dateCol === 0 ? 1 : 0) : ticketCol
+  const typeCol = column(TYPE_HEADERS)
+  const revenueCol = column(REVENUE_HEADERS)
+
+  const days = new Map<string, HistoryDay>()
+  let skipped = 0
+  for (const row of rows) {
+    const soldAt = parseDate(row[dateCol] ?? '', timeZone)
+    const tickets = parseNumber(row[qtyCol] ?? '')
+    if (!soldAt || tickets === null) {
+      skipped++
+      continue
+    }
+    const daysBefore = daysBetween(zonedDate(soldAt, timeZone), startDate)
+    const ticketType = typeCol === -1 ? '' : (row[typeCol] ?? '').trim()
+    const revenue = revenueCol === -1 ? null : parseNumber(row[revenueCol] ?? '')
+
+    const key = `${daysBefore}|${ticketType}`
+    const day = days.get(key) ?? { days_before: daysBefore, ticket_type: ticketType, tickets: 0, revenue: null }
+    day.tickets += Math.round(tickets)
+    if (revenue !== null) day.revenue = (day.revenue ?? 0) + revenue
+    days.set(key, day)
+  }
+  return { days: Array.from(days.values()), skipped }
+}
+
+export default function SalesHistorySettings() {
+  const { t } = useTranslation()
+  const { festival, edition, editions, profile } = useAuthContext()
+  const { history, refetch } = useSalesHistory()
+  // Only editions with a start date can be lined up on days before start
+  const archivable = editions.filter((e) => e.start_date)
+  const [archiveYear, setArchiveYear] = useState(() => edition?.year ?? new Date().getFullYear())
+  const [importYear, setImportYear] = useState(new Date().getFullYear() - 1)
+  const [importStartDate, setImportStartDate] = useState('')
+  const [importFile, setImportFile] = useState<File | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const years = useMemo(() => {
+    const map = new Map<number, { year: number; days: Set<number>; tickets: number }>()
+    for (const row of history) {
+      const entry = map.get(row.edition_year) ?? { year: row.edition_year, days: new Set(), tickets: 0 }
+      entry.days.add(row.days_before)
+      entry.tickets += row.tickets
+      map.set(row.edition_year, entry)
+    }
+    return Array.from(map.values(), (y) => ({ ...y, days: y.days.size })).sort((a, b) => b.year - a.year)
+  }, [history])
+
+  const confirmReplace = (year: number) =>
+    !years.some((y) => y.year === year) || confirm(t('settings.replaceHistoryConfirm', { year }))
+
+  const handleArchive = async () => {
+    if (!festival || !confirmReplace(archiveYear)) return
+    setBusy(true)
+    setMessage(null)
+    const { data, error } = await supabase.rpc('archive_sales_history', {
+      p_festival_id: festival.id,
+      p_edition_year: archiveYear,
+    })
+    setMessage(
+      error
+        ? { type: 'error', text: error.message }
+        : { type: 'success', text: t('settings.historySaved', { days: data ?? 0, year: archiveYear }) },
+    )
+    setBusy(false)
+    await refetch()
+  }
+
+  const handleImport = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!festival || !importFile || !confirmReplace(importYear)) return
+    setBusy(true)
+    setMessage(null)
+
+    try {
+      const { days, skipped } = await readHistoryFile(importFile, importStartDate, festival.timezone)
+      if (days.length === 0) throw new Error(t('settings.historyFileEmpty'))
+
+      const { error: deleteError } = await supabase
+        .from('sales_history')
+        .delete()
+        .eq('festival_id', festival.id)
+        .eq('edition_year', importYear)
+      if (deleteError) throw deleteError
+
+      const { error } = await supabase.from('sales_history').insert(
+        days.map((day) => ({ ...day, festival_id: festival.id, edition_year: importYear })),
+      )
+      if (error) throw error
+
+      setMessage({
+        type: 'success',
+        text: t('settings.historyImported', {
+          days: new Set(days.map((d) => d.days_before)).size,
+          year: importYear,
+          skipped,
+        }),
+      })
+      setImportFile(null)
+    } catch (err) {
+      setMessage({ type: 'error', text: (err as Error).message })
+    }
+    setBusy(false)
+    await refetch()
+  }
+
+  const handleDelete = async (year: number) => {
+    if (!festival || !confirm(t('settings.deleteHistoryConfirm', { year }))) return
+    await supabase.from('sales_history').delete().eq('festival_id', festival.id).eq('edition_year', year)
+    await refetch()
+  }
+
+  if (!festival || profile?.role !== 'admin') return null
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">{t('settings.salesHistory')}</h3>
+        <p className="mt-1 text-sm text-text-muted">{t('settings.salesHistoryHint')}</p>
+      </div>
+
+      {message && (
+        <p
+          className={`rounded-lg p-3 text-sm ${
+            message.type === 'success' ? 'bg-success-light text-success' : 'bg-danger-light text-danger'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div className="space-y-3 rounded-lg border border-border bg-bg p-4">
+          <h4 className="text-sm font-semibold text-text-heading">{t('settings.archiveCurrentSales')}</h4>
+          <p className="text-xs text-text-muted">{t('settings.archiveCurrentSalesHint')}</p>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.editionYear')}</label>
+            <select
+              value={archiveYear}
+              onChange={(e) => setArchiveYear(Number(e.target.value))}
+              className={inputClass}
+            >
+              {archivable.map((e) => (
+                <option key={e.id} value={e.year}>
+                  {e.name ?? e.year}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={handleArchive}
+            disabled={busy || !archivable.some((e) => e.year === archiveYear)}
+            className="flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-2 text-sm font-medium text-text-body hover:bg-surface-hover disabled:opacity-50"
+          >
+            <Archive size={14} />
+            {t('settings.archive')}
+          </button>
+        </div>
+
+        <form onSubmit={handleImport} className="space-y-3 rounded-lg border border-border bg-bg p-4">
+          <h4 className="text-sm font-semibold text-text-heading">{t('settings.importHistory')}</h4>
+          <p className="text-xs text-text-muted">{t('settings.importHistoryHint')}</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-text-muted">{t('settings.editionYear')}</label>
+              <input
+                type="number"
+                required
+                value={importYear}
+                onChange={(e) => setImportYear(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-text-muted">{t('settings.startDate')}</label>
+              <input
+                type="date"
+                required
+                value={importStartDate}
+                onChange={(e) => setImportStartDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <input
+            type="file"
+            required
+            accept=".csv,.xlsx"
+            onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+            className="block w-full text-sm text-text-body"
+          />
+          <button
+            type="submit"
+            disabled={busy || !importFile}
+            className="flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-2 text-sm font-medium text-text-body hover:bg-surface-hover disabled:opacity-50"
+          >
+            <Upload size={14} />
+            {t('settings.import')}
+          </button>
+        </form>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t('settings.editionYear')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('settings.historyDays')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.tickets')}</th>
+              <th className="pb-3 font-medium">{t('settings.actions')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light">
+            {years.map((y) => (
+              <tr key={y.year}>
+                <td className="py-3 pr-4 text-text-heading">{y.year}</td>
+                <td className="py-3 pr-4 text-right text-text-body">{y.days}</td>
+                <td className="py-3 pr-4 text-right text-text-body">{y.tickets.toLocaleString('nb-NO')}</td>
+                <td className="py-3">
+                  <button
+                    onClick={() => handleDelete(y.year)}
+                    className="text-text-muted hover:text-danger"
+                    title={t('common.delete')}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {years.length === 0 && (
+              <tr>
+                <td colSpan={4} className="py-6 text-center text-text-muted">
+                  {t('settings.noSalesHistory')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,290 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { RefreshCw, Save, CheckCircle2, XCircle, History, AlertTriangle } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { useRealtimeTable } from '@/hooks/useRealtimeTable'
+import { startOfZonedDay } from '@/lib/timezone'
+import type { SyncDiff, TicketCoSyncLog } from '@/types/database'
+
+type SyncLogRow = TicketCoSyncLog & {
+  integration: { label: string | null; provider: string } | null
+  event: { label: string | null; external_event_id: string } | null
+}
+
+function formatDiff(diff: SyncDiff) {
+  return `+${diff.inserted} ~${diff.updated} −${diff.deleted}`
+}
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return '—'
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`
+}
+
+export default function SyncStatusPanel() {
+  const { t } = useTranslation()
+  const { festival, profile, refreshFestival } = useAuthContext()
+  const [logs, setLogs] = useState<SyncLogRow[]>([])
+  const [syncing, setSyncing] = useState(false)
+  const [syncError, setSyncError] = useState<string | null>(null)
+  const [staleMinutes, setStaleMinutes] = useState(60)
+  const [savingThreshold, setSavingThreshold] = useState(false)
+  const [resyncFrom, setResyncFrom] = useState('')
+  const [resyncTo, setResyncTo] = useState('')
+  const [resyncDiff, setResyncDiff] = useState<SyncDiff | null>(null)
+
+  const fetchLogs = useCallback(async () => {
+    if (!festival) return
+    const { data } = await supabase
+      .from('ticketco_sync_logs')
+      .select('*, integration:festival_integrations(label, provider), event:integration_events(label, external_event_id)')
+      .eq('festival_id', festival.id)
+      .order('synced_at', { ascending: false })
+      .limit(25)
+    if (data) setLogs(data)
+  }, [festival?.id])
+
+  useEffect(() => {
+    fetchLogs()
+  }, [fetchLogs])
+
+  useEffect(() => {
+    if (festival) setStaleMinutes(festival.sync_stale_after_minutes)
+  }, [festival])
+
+  useRealtimeTable('ticketco_sync_logs', festival?.id, fetchLogs)
+
+  const handleSyncNow = async () => {
+    if (!festival) return
+    setSyncing(true)
+    setSyncError(null)
+    const { error } = await supabase.functions.invoke('ticketco-sync', {
+      body: { festival_id: festival.id },
+    })
+    if (error) setSyncError(error.message)
+    setSyncing(false)
+    await fetchLogs()
+  }
+
+  // Without dates this is a full resync; with dates only orders placed in
+  // that window (to-date inclusive) are re-fetched
+  const handleResync = async () => {
+    if (!festival) return
+    const isRange = Boolean(resyncFrom && resyncTo)
+    if (!confirm(t(isRange ? 'settings.resyncRangeConfirm' : 'settings.resyncFullConfirm'))) return
+    setSyncing(true)
+    setSyncError(null)
+    setResyncDiff(null)
+
+    const body: Record<string, string> = { festival_id: festival.id, mode: 'full' }
+    if (isRange) {
+      // Whole festival-local days: from the start of the first to the start of the day after the last
+      const timeZone = festival.timezone
+      const dayAfter = new Date(Date.parse(`${resyncTo}T00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      body.mode = 'range'
+      body.from = startOfZonedDay(resyncFrom, timeZone).toISOString()
+      body.to = startOfZonedDay(dayAfter, timeZone).toISOString()
+    }
+
+    const { data, error } = await supabase.functions.invoke('ticketco-sync', { body })
+    if (error) {
+      setSyncError(error.message)
+    } else {
+      // Sum the diff over all integrations of the festival
+      const diffs: SyncDiff[] = (data?.results ?? [])
+        .map((r: { diff?: SyncDiff }) => r.diff)
+        .filter(Boolean)
+      setResyncDiff(
+        diffs.reduce(
+          (sum, d) => ({
+            inserted: sum.inserted + d.inserted,
+            updated: sum.updated + d.updated,
+            deleted: sum.deleted + d.deleted,
+            unchanged: sum.unchanged + d.unchanged,
+          }),
+          { inserted: 0, updated: 0, deleted: 0, unchanged: 0 },
+        ),
+      )
+    }
+    setSyncing(false)
+    await fetchLogs()
+  }
+
+  const handleSaveThreshold = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!festival) return
+    setSavingThreshold(true)
+    await supabase
+      .from('festivals')
+      .update({ sync_stale_after_minutes: staleMinutes })
+      .eq('id', festival.id)
+    await refreshFestival()
+    setSavingThreshold(false)
+  }
+
+  if (!festival || profile?.role !== 'admin') return null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">{t('settings.syncStatus')}</h3>
+        <button
+          onClick={handleSyncNow}
+          disabled={syncing}
+          className="flex items-center gap-2 rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+        >
+          <RefreshCw size={14} className={syncing ? 'animate-spin' : ''} />
+          {syncing ? t('settings.syncing') : t('settings.syncNow')}
+        </button>
+      </div>
+
+      {syncError && (
+        <p className="rounded-lg bg-danger-light p-3 text-sm text-danger">{syncError}</p>
+      )}
+
+      <form onSubmit={handleSaveThreshold} className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-text-muted">
+            {t('settings.staleThreshold')}
+          </label>
+          <input
+            type="number"
+            min={1}
+            required
+            value={staleMinutes}
+            onChange={(e) => setStaleMinutes(Number(e.target.value))}
+            className="mt-1 block w-32 rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={savingThreshold || staleMinutes === festival.sync_stale_after_minutes}
+          className="flex items-center gap-2 rounded-lg border border-border px-3 py-2 text-sm font-medium text-text-body hover:bg-surface-hover disabled:opacity-50"
+        >
+          <Save size={14} />
+          {t('common.save')}
+        </button>
+      </form>
+
+      <div className="space-y-3 rounded-lg border border-border bg-bg p-4">
+        <div>
+          <h4 className="text-sm font-semibold text-text-heading">{t('settings.resync')}</h4>
+          <p className="mt-1 text-xs text-text-muted">{t('settings.resyncHint')}</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs font-medium text-text-muted">
+              {t('reports.dateFrom')}
+            </label>
+            <input
+              type="date"
+              value={resyncFrom}
+              onChange={(e) => setResyncFrom(e.target.value)}
+              className="mt-1 block rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">
+              {t('reports.dateTo')}
+            </label>
+            <input
+              type="date"
+              value={resyncTo}
+              min={resyncFrom || undefined}
+              onChange={(e) => setResyncTo(e.target.value)}
+              className="mt-1 block rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+          </div>
+          <button
+            onClick={handleResync}
+            disabled={syncing || Boolean(resyncFrom) !== Boolean(resyncTo)}
+            className="flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-2 text-sm font-medium text-text-body hover:bg-surface-hover disabled:opacity-50"
+          >
+            <History size={14} />
+            {resyncFrom && resyncTo ? t('settings.resyncRange') : t('settings.resyncFull')}
+          </button>
+        </div>
+        {resyncDiff && (
+          <p className="text-sm text-success">{t('settings.resyncDone', { ...resyncDiff })}</p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t('settings.syncedAt')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.integrationLabel')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.syncResult')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('settings.recordsSynced')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('settings.duration')}</th>
+              <th className="pb-3 text-right font-medium">{t('settings.pagesFetched')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light">
+            {logs.map((log) => (
+              <tr key={log.id} className="align-top">
+                <td className="py-3 pr-4 whitespace-nowrap text-text-body">
+                  {new Date(log.synced_at).toLocaleString('nb-NO')}
+                </td>
+                <td className="py-3 pr-4 text-text-body">
+                  {log.integration?.label || log.integration?.provider || log.provider}
+                  {log.event && (
+                    <span className="text-text-muted">
+                      {' · '}
+                      {log.event.label || log.event.external_event_id}
+                    </span>
+                  )}
+                  {log.mode !== 'incremental' && (
+                    <span className="ml-2 rounded bg-surface-hover px-1.5 py-0.5 text-xs text-text-muted">
+                      {t(`settings.syncMode.${log.mode}`)}
+                    </span>
+                  )}
+                </td>
+                <td className="py-3 pr-4">
+                  {log.status === 'success' ? (
+                    <span className="flex items-center gap-1 text-success">
+                      <CheckCircle2 size={14} />
+                      {t('settings.syncSuccess')}
+                    </span>
+                  ) : (
+                    <div>
+                      {log.status === 'partial' ? (
+                        <span className="flex items-center gap-1 text-warning">
+                          <AlertTriangle size={14} />
+                          {t('settings.syncPartial', { page: log.resume_page })}
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-danger">
+                          <XCircle size={14} />
+                          {t('settings.syncFailed')}
+                        </span>
+                      )}
+                      {log.error_message && (
+                        <p className="mt-1 break-all font-mono text-xs text-text-muted">
+                          {log.error_message}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </td>
+                <td className="py-3 pr-4 text-right whitespace-nowrap text-text-body">
+                  {log.diff ? formatDiff(log.diff) : (log.records_synced ?? '—')}
+                </td>
+                <td className="py-3 pr-4 text-right text-text-body">{formatDuration(log.duration_ms)}</td>
+                <td className="py-3 text-right text-text-body">{log.pages_fetched ?? '—'}</td>
+              </tr>
+            ))}
+            {logs.length === 0 && (
+              <tr>
+                <td colSpan={6} className="py-6 text-center text-text-muted">
+                  {t('settings.noSyncRuns')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
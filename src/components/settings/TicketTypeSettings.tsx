@@ -0,0 +1,321 @@
+import { useState, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Plus, Save, Pencil, Trash2 } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { useTicketTypes } from '@/hooks/useTicketTypes'
+import type { TicketType } from '@/types/database'
+
+const VAT_RATES = [0.25, 0.15, 0.12, 0]
+
+const EMPTY_FORM = {
+  name: '',
+  quota: '',
+  price_inc_vat: '',
+  vat_rate: 0.12,
+  sale_start: '',
+  sale_end: '',
+  external_titles: '',
+  warn_at: 90,
+  sort_order: 10,
+}
+
+const inputClass =
+  'mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary'
+
+/** timestamptz → value for a datetime-local input, in the browser's time zone */
+function toLocalInput(value: string | null) {
+  if (!value) return ''
+  const d = new Date(value)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`
+}
+
+function formatWindow(type: TicketType) {
+  const fmt = (value: string) =>
+    new Date(value).toLocaleString('nb-NO', { dateStyle: 'short', timeStyle: 'short' })
+  if (!type.sale_start && !type.sale_end) return '—'
+  return `${type.sale_start ? fmt(type.sale_start) : ''} – ${type.sale_end ? fmt(type.sale_end) : ''}`
+}
+
+export default function TicketTypeSettings() {
+  const { t } = useTranslation()
+  const { festival, edition, profile } = useAuthContext()
+  const { ticketTypes, refetch } = useTicketTypes()
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isAdmin = profile?.role === 'admin'
+
+  const openForm = (type?: TicketType) => {
+    setEditingId(type?.id ?? null)
+    setForm(
+      type
+        ? {
+            name: type.name,
+            quota: type.quota?.toString() ?? '',
+            price_inc_vat: type.price_inc_vat?.toString() ?? '',
+            vat_rate: type.vat_rate,
+            sale_start: toLocalInput(type.sale_start),
+            sale_end: toLocalInput(type.sale_end),
+            external_titles: type.external_titles.join('\n'),
+            warn_at: Math.round(type.warn_at * 100),
+            sort_order: type.sort_order,
+          }
+        : { ...EMPTY_FORM, sort_order: (ticketTypes[ticketTypes.length - 1]?.sort_order ?? 0) + 10 },
+    )
+    setError(null)
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!festival || !edition) return
+    setSaving(true)
+
+    const row = {
+      name: form.name.trim(),
+      quota: form.quota ? Number(form.quota) : null,
+      price_inc_vat: form.price_inc_vat ? Number(form.price_inc_vat) : null,
+      vat_rate: form.vat_rate,
+      sale_start: form.sale_start ? new Date(form.sale_start).toISOString() : null,
+      sale_end: form.sale_end ? new Date(form.sale_end).toISOString() : null,
+      external_titles: form.external_titles
+        .split('\n')
+        .map((title) => title.trim())
+        .filter(Boolean),
+      warn_at: form.warn_at / 100,
+      sort_order: form.sort_order,
+    }
+    const { error: saveError } = editingId
+      ? await supabase.from('ticket_types').update(row).eq('id', editingId)
+      : await supabase
+          .from('ticket_types')
+          .insert({ ...row, festival_id: festival.id, edition_id: edition.id })
+
+    setSaving(false)
+    if (saveError) {
+      setError(saveError.message)
+      return
+    }
+    setShowForm(false)
+    setEditingId(null)
+    await refetch()
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm(t('settings.deleteTicketTypeConfirm'))) return
+    await supabase.from('ticket_types').delete().eq('id', id)
+    await refetch()
+  }
+
+  if (!festival || !edition) return null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">{t('settings.ticketTypes')}</h3>
+          <p className="mt-1 text-sm text-text-muted">
+            {t('settings.ticketTypesHint', { edition: edition.name ?? edition.year })}
+          </p>
+        </div>
+        {isAdmin && (
+          <button
+            onClick={() => openForm()}
+            className="flex shrink-0 items-center gap-2 rounded-lg bg-primary px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-dark"
+          >
+            <Plus size={14} />
+            {t('settings.addTicketType')}
+          </button>
+        )}
+      </div>
+
+      {showForm && isAdmin && (
+        <form
+          onSubmit={handleSubmit}
+          className="grid grid-cols-1 gap-3 rounded-lg border border-border bg-bg p-4 sm:grid-cols-2"
+        >
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.ticketTypeName')}</label>
+            <input
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('sales.quotaLabel')}</label>
+            <input
+              type="number"
+              min={0}
+              value={form.quota}
+              onChange={(e) => setForm({ ...form, quota: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.priceIncVat')}</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={form.price_inc_vat}
+              onChange={(e) => setForm({ ...form, price_inc_vat: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.vatRate')}</label>
+            <select
+              value={form.vat_rate}
+              onChange={(e) => setForm({ ...form, vat_rate: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {VAT_RATES.map((rate) => (
+                <option key={rate} value={rate}>
+                  {rate * 100} %
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.saleStart')}</label>
+            <input
+              type="datetime-local"
+              value={form.sale_start}
+              onChange={(e) => setForm({ ...form, sale_start: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.saleEnd')}</label>
+            <input
+              type="datetime-local"
+              value={form.sale_end}
+              onChange={(e) => setForm({ ...form, sale_end: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.warnAt')}</label>
+            <input
+              type="number"
+              required
+              min={1}
+              max={100}
+              value={form.warn_at}
+              onChange={(e) => setForm({ ...form, warn_at: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-text-muted">{t('settings.sortOrder')}</label>
+            <input
+              type="number"
+              required
+              value={form.sort_order}
+              onChange={(e) => setForm({ ...form, sort_order: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-xs font-medium text-text-muted">{t('settings.externalTitles')}</label>
+            <textarea
+              rows={3}
+              value={form.external_titles}
+              onChange={(e) => setForm({ ...form, external_titles: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+            <p className="mt-1 text-xs text-text-muted">{t('settings.externalTitlesHint')}</p>
+          </div>
+          {error && <p className="text-sm text-danger sm:col-span-2">{error}</p>}
+          <div className="flex items-end gap-2 sm:col-span-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+            >
+              <Save size={14} />
+              {saving ? t('common.loading') : t('common.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-text-body hover:bg-surface-hover"
+            >
+              {t('common.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-border text-text-muted">
+              <th className="pb-3 pr-4 font-medium">{t('settings.ticketTypeName')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('sales.quotaLabel')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('settings.priceIncVat')}</th>
+              <th className="pb-3 pr-4 font-medium">{t('settings.saleWindow')}</th>
+              <th className="pb-3 pr-4 text-right font-medium">{t('settings.warnAt')}</th>
+              {isAdmin && <th className="pb-3 font-medium">{t('settings.actions')}</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-light">
+            {ticketTypes.map((type) => (
+              <tr key={type.id}>
+                <td className="py-3 pr-4 text-text-heading">
+                  {type.name}
+                  {type.external_titles.length > 0 && (
+                    <p className="text-xs text-text-muted">{type.external_titles.join(', ')}</p>
+                  )}
+                </td>
+                <td className="py-3 pr-4 text-right text-text-body">
+                  {type.quota?.toLocaleString('nb-NO') ?? '—'}
+                </td>
+                <td className="py-3 pr-4 text-right text-text-body">
+                  {type.price_inc_vat?.toLocaleString('nb-NO') ?? '—'}
+                </td>
+                <td className="py-3 pr-4 text-text-muted">{formatWindow(type)}</td>
+                <td className="py-3 pr-4 text-right text-text-muted">{Math.round(type.warn_at * 100)} %</td>
+                {isAdmin && (
+                  <td className="py-3">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => openForm(type)}
+                        className="text-text-muted hover:text-primary"
+                        title={t('common.edit')}
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(type.id)}
+                        className="text-text-muted hover:text-danger"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </td>
+                )}
+              </tr>
+            ))}
+            {ticketTypes.length === 0 && (
+              <tr>
+                <td colSpan={isAdmin ? 6 : 5} className="py-6 text-center text-text-muted">
+                  {t('settings.noTicketTypes')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -1,17 +1,25 @@
 import { createContext, useContext, useEffect, useState, type ReactNode } from 'react'
 import type { Session } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
-import type { UserProfile, Festival } from '@/types/database'
+import type { UserProfile, Festival, FestivalEdition } from '@/types/database'
+
+const EDITION_STORAGE_KEY = 'festivalportalen.edition'
 
 interface AuthContextValue {
   session: Session | null
   profile: UserProfile | null
   festival: Festival | null
+  /** All editions of the festival, newest first */
+  editions: FestivalEdition[]
+  /** Edition being viewed; defaults to the festival's current edition */
+  edition: FestivalEdition | null
+  setEditionId: (id: string) => void
   loading: boolean
   isPasswordRecovery: boolean
   setIsPasswordRecovery: (v: boolean) => void
   refreshProfile: () => Promise<void>
   refreshFestival: () => Promise<void>
+  refreshEditions: () => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined)
@@ -20,6 +28,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [session, setSession] = useState<Session | null>(null)
   const [profile, setProfile] = useState<UserProfile | null>(null)
   const [festival, setFestival] = useState<Festival | null>(null)
+  const [editions, setEditions] = useState<FestivalEdition[]>([])
+  const [selectedEditionId, setSelectedEditionId] = useState<string | null>(
+    () => localStorage.getItem(EDITION_STORAGE_KEY),
+  )
   const [loading, setLoading] = useState(true)
   const [isPasswordRecovery, setIsPasswordRecovery] = useState(false)
 
@@ -37,13 +49,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }
 
+  const fetchEditions = async (festivalId: string) => {
+    const { data } = await supabase
+      .from('festival_editions')
+      .select('*')
+      .eq('festival_id', festivalId)
+      .order('year', { ascending: false })
+    if (data) setEditions(data)
+  }
+
   const fetchFestival = async (festivalId: string) => {
     try {
-      const { data } = await supabase
-        .from('festivals')
-        .select('*')
-        .eq('id', festivalId)
-        .single()
+      const [{ data }] = await Promise.all([
+        supabase
+          .from('festivals')
+          .select('*')
+          .eq('id', festivalId)
+          .single(),
+        fetchEditions(festivalId),
+      ])
       setFestival(data)
     } catch {
       // Festival not found — ok during initial setup
@@ -65,6 +89,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }
 
+  const refreshEditions = async () => {
+    if (profile?.festival_id) {
+      await fetchEditions(profile.festival_id)
+    }
+  }
+
+  // The viewed edition survives reloads; a stale id falls back to the current edition
+  const setEditionId = (id: string) => {
+    localStorage.setItem(EDITION_STORAGE_KEY, id)
+    setSelectedEditionId(id)
+  }
+
+  const edition =
+    editions.find((e) => e.id === selectedEditionId) ??
+    editions.find((e) => e.id === festival?.current_edition_id) ??
+    editions[0] ??
+    null
+
   useEffect(() => {
     supabase.auth
       .getSession()
@@ -106,6 +148,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       } else {
         setProfile(null)
         setFestival(null)
+        setEditions([])
       }
     })
 
@@ -118,11 +161,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         session,
         profile,
         festival,
+        editions,
+        edition,
+        setEditionId,
         loading,
         isPasswordRecovery,
         setIsPasswordRecovery,
         refreshProfile,
         refreshFestival,
+        refreshEditions,
       }}
     >
       {children}
@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useState, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { indexCategories } from '@/lib/accounts'
+import type { AccountCategory } from '@/types/database'
+
+export function useAccountCategories() {
+  const { festival } = useAuthContext()
+  const [categories, setCategories] = useState<AccountCategory[]>([])
+
+  const fetchCategories = useCallback(async () => {
+    if (!festival) return
+    const { data } = await supabase
+      .from('account_categories')
+      .select('*')
+      .eq('festival_id', festival.id)
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true })
+    if (data) setCategories(data)
+  }, [festival?.id])
+
+  useEffect(() => {
+    fetchCategories()
+  }, [fetchCategories])
+
+  const index = useMemo(() => indexCategories(categories), [categories])
+
+  return { categories, index, refetch: fetchCategories }
+}
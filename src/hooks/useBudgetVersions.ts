@@ -0,0 +1,28 @@
+import { useEffect, useState, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import type { BudgetVersion } from '@/types/database'
+
+export function useBudgetVersions() {
+  const { festival, edition } = useAuthContext()
+  const [versions, setVersions] = useState<BudgetVersion[]>([])
+
+  const fetchVersions = useCallback(async () => {
+    if (!festival || !edition) return
+    const { data } = await supabase
+      .from('budget_versions')
+      .select('*')
+      .eq('festival_id', festival.id)
+      .eq('edition_id', edition.id)
+      .order('created_at', { ascending: true })
+    if (data) setVersions(data)
+  }, [festival?.id, edition?.id])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  const primary = versions.find((v) => v.is_primary) ?? null
+
+  return { versions, primary, refetch: fetchVersions }
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import type { EconomyAttachment } from '@/types/database'
+
+export function useEconomyAttachments() {
+  const { festival } = useAuthContext()
+  const [attachments, setAttachments] = useState<EconomyAttachment[]>([])
+
+  const fetchAttachments = useCallback(async () => {
+    if (!festival) return
+    const { data } = await supabase
+      .from('economy_attachments')
+      .select('*')
+      .eq('festival_id', festival.id)
+      .order('created_at', { ascending: true })
+    if (data) setAttachments(data)
+  }, [festival?.id])
+
+  useEffect(() => {
+    fetchAttachments()
+  }, [fetchAttachments])
+
+  return { attachments, refetch: fetchAttachments }
+}
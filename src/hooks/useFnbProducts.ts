@@ -0,0 +1,26 @@
+import { useEffect, useState, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import type { FnbProduct } from '@/types/database'
+
+export function useFnbProducts() {
+  const { festival } = useAuthContext()
+  const [fnbProducts, setFnbProducts] = useState<FnbProduct[]>([])
+
+  const fetchFnbProducts = useCallback(async () => {
+    if (!festival) return
+    const { data } = await supabase
+      .from('fnb_products')
+      .select('*')
+      .eq('festival_id', festival.id)
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true })
+    if (data) setFnbProducts(data)
+  }, [festival?.id])
+
+  useEffect(() => {
+    fetchFnbProducts()
+  }, [fetchFnbProducts])
+
+  return { fnbProducts, refetch: fetchFnbProducts }
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import type { IntegrationEvent } from '@/types/database'
+
+export function useIntegrationEvents() {
+  const { festival } = useAuthContext()
+  const [events, setEvents] = useState<IntegrationEvent[]>([])
+
+  const fetchEvents = useCallback(async () => {
+    if (!festival) return
+    const { data } = await supabase
+      .from('integration_events')
+      .select('*')
+      .eq('festival_id', festival.id)
+      .order('created_at', { ascending: true })
+    if (data) setEvents(data)
+  }, [festival?.id])
+
+  useEffect(() => {
+    fetchEvents()
+  }, [fetchEvents])
+
+  return { events, refetch: fetchEvents }
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { useRealtimeTable } from '@/hooks/useRealtimeTable'
+import type { AppNotification } from '@/types/database'
+
+// Older notifications stay in the table but are not shown
+const LIMIT = 30
+
+export function useNotifications() {
+  const { festival, profile } = useAuthContext()
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+
+  const fetchNotifications = useCallback(async () => {
+    if (!profile) return
+    const { data } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', profile.id)
+      .order('created_at', { ascending: false })
+      .limit(LIMIT)
+    if (data) setNotifications(data)
+  }, [profile?.id])
+
+  useEffect(() => {
+    fetchNotifications()
+  }, [fetchNotifications])
+
+  // RLS only lets a user's own notifications through
+  useRealtimeTable('notifications', festival?.id, fetchNotifications)
+
+  const markAllRead = useCallback(async () => {
+    if (!profile) return
+    await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', profile.id)
+      .is('read_at', null)
+    await fetchNotifications()
+  }, [profile?.id, fetchNotifications])
+
+  const unreadCount = notifications.filter((n) => !n.read_at).length
+
+  return { notifications, unreadCount, markAllRead, refetch: fetchNotifications }
+}
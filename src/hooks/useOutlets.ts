@@ -0,0 +1,26 @@
+import { useEffect, useState, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import type { Outlet } from '@/types/database'
+
+export function useOutlets() {
+  const { festival } = useAuthContext()
+  const [outlets, setOutlets] = useState<Outlet[]>([])
+
+  const fetchOutlets = useCallback(async () => {
+    if (!festival) return
+    const { data } = await supabase
+      .from('outlets')
+      .select('*')
+      .eq('festival_id', festival.id)
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true })
+    if (data) setOutlets(data)
+  }, [festival?.id])
+
+  useEffect(() => {
+    fetchOutlets()
+  }, [fetchOutlets])
+
+  return { outlets, refetch: fetchOutlets }
+}
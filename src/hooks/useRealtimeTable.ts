@@ -1,10 +1,11 @@
 import { useEffect } from 'react'
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
 
 export function useRealtimeTable(
   table: string,
   festivalId: string | undefined,
-  onUpdate: () => void,
+  onUpdate: (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => void,
 ) {
   useEffect(() => {
     if (!festivalId) return
@@ -19,8 +20,8 @@ export function useRealtimeTable(
           table,
           filter: `festival_id=eq.${festivalId}`,
         },
-        () => {
-          onUpdate()
+        (payload) => {
+          onUpdate(payload)
         },
       )
       .subscribe()
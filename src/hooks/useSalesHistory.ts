@@ -0,0 +1,26 @@
+import { useEffect, useState, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import type { SalesHistory } from '@/types/database'
+
+export function useSalesHistory() {
+  const { festival } = useAuthContext()
+  const [history, setHistory] = useState<SalesHistory[]>([])
+
+  const fetchHistory = useCallback(async () => {
+    if (!festival) return
+    const { data } = await supabase
+      .from('sales_history')
+      .select('*')
+      .eq('festival_id', festival.id)
+      .order('edition_year', { ascending: true })
+      .order('days_before', { ascending: false })
+    if (data) setHistory(data)
+  }, [festival?.id])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  return { history, refetch: fetchHistory }
+}
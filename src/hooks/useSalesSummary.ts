@@ -0,0 +1,143 @@
+import { useEffect, useState, useCallback, useRef } from 'react'
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { useRealtimeTable } from '@/hooks/useRealtimeTable'
+import { DEFAULT_TIMEZONE } from '@/lib/timezone'
+import type { SalesFilters } from '@/lib/sales-filters'
+import {
+  addSale,
+  EMPTY_SUMMARY,
+  summaryBuckets,
+  summaryLines,
+  type SalesSummary,
+  type SummaryBuckets,
+} from '@/lib/sales-summary'
+import type { SalesSummaryResult, TicketSale } from '@/types/database'
+
+// Realtime changes are applied in batches; a sync run that inserts more
+// rows than this reloads the summary instead. Realtime leaves the old row
+// out of updates and deletes on tables with row level security, so those
+// can't be taken out of their groups and reload the summary too.
+const FLUSH_DELAY_MS = 500
+const MAX_BATCH = 500
+
+type SaleChange = RealtimePostgresChangesPayload<Record<string, unknown>>
+
+/** The edition's counted sales matching the filters, aggregated by public.sales_summary() */
+export function useSalesSummary(filters: Partial<SalesFilters> = {}) {
+  const { festival, edition } = useAuthContext()
+  const timeZone = festival?.timezone ?? DEFAULT_TIMEZONE
+  // Callers pass a new object on every render; the summary follows its values
+  const filterKey = JSON.stringify(filters)
+  const [summary, setSummary] = useState<SalesSummary>(EMPTY_SUMMARY)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const buckets = useRef<SummaryBuckets | null>(null)
+  const ticketTypes = useRef<Set<string>>(new Set())
+  const added = useRef<Set<string>>(new Set())
+  const snapshotAt = useRef(0)
+  const fetching = useRef(false)
+  const request = useRef(0)
+  const pending = useRef<SaleChange[]>([])
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const publish = useCallback(() => {
+    if (!buckets.current) return
+    const types = Array.from(ticketTypes.current).sort((a, b) => a.localeCompare(b, 'nb'))
+    setSummary(summaryLines(buckets.current, types))
+  }, [])
+
+  // Each sale is added once, also if realtime delivers its insert again
+  const applyInserts = useCallback(
+    (changes: SaleChange[]) => {
+      if (!edition || !buckets.current) return
+      const current: Partial<SalesFilters> = JSON.parse(filterKey)
+      for (const change of changes) {
+        const sale = change.new as unknown as TicketSale
+        if (added.current.has(sale.id)) continue
+        added.current.add(sale.id)
+        addSale(buckets.current, sale, edition.id, current, timeZone)
+        if (sale.edition_id === edition.id && !sale.voided_at) ticketTypes.current.add(sale.ticket_type)
+      }
+      publish()
+    },
+    [edition?.id, filterKey, timeZone, publish],
+  )
+
+  const flushRef = useRef<() => void>(() => {})
+  const scheduleFlush = useCallback(() => {
+    timer.current ??= setTimeout(() => flushRef.current(), FLUSH_DELAY_MS)
+  }, [])
+
+  const fetchSummary = useCallback(async () => {
+    if (!festival || !edition) return
+    const id = ++request.current
+    fetching.current = true
+    const { data, error: summaryError } = await supabase.rpc('sales_summary', {
+      p_festival_id: festival.id,
+      p_edition_id: edition.id,
+      p_filters: JSON.parse(filterKey),
+    })
+    // A newer request, for other filters, replaces this one
+    if (id !== request.current) return
+    fetching.current = false
+    setLoading(false)
+    if (summaryError) {
+      setError(summaryError.message)
+      return
+    }
+    const result = data as SalesSummaryResult
+    setError(null)
+    snapshotAt.current = Date.parse(result.snapshot_at)
+    buckets.current = summaryBuckets(result, timeZone)
+    ticketTypes.current = new Set(result.ticket_types)
+    added.current = new Set()
+    publish()
+    // Changes that arrived while loading go on top if they are newer
+    if (pending.current.length > 0) scheduleFlush()
+  }, [festival?.id, edition?.id, filterKey, timeZone, publish, scheduleFlush])
+
+  useEffect(() => {
+    fetchSummary()
+  }, [fetchSummary])
+
+  const flush = useCallback(() => {
+    timer.current = null
+    // A summary on its way applies the queue when it arrives
+    if (fetching.current) return
+    // Changes committed before the snapshot are in the summary already
+    const changes = pending.current.filter((change) => Date.parse(change.commit_timestamp) > snapshotAt.current)
+    pending.current = []
+    if (changes.length === 0) return
+    if (changes.length > MAX_BATCH || changes.some((change) => change.eventType !== 'INSERT')) {
+      fetchSummary()
+      return
+    }
+    applyInserts(changes)
+  }, [fetchSummary, applyInserts])
+
+  // The subscription stays put when the filters change, so no change is missed
+  useEffect(() => {
+    flushRef.current = flush
+  }, [flush])
+
+  const queueChange = useCallback(
+    (change: SaleChange) => {
+      pending.current.push(change)
+      scheduleFlush()
+    },
+    [scheduleFlush],
+  )
+
+  useEffect(
+    () => () => {
+      if (timer.current) clearTimeout(timer.current)
+    },
+    [],
+  )
+
+  useRealtimeTable('ticket_sales', festival?.id, queueChange)
+
+  return { summary, loading, error, refetch: fetchSummary }
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import type { SalesView } from '@/types/database'
+
+export function useSalesViews() {
+  const { festival } = useAuthContext()
+  const [salesViews, setSalesViews] = useState<SalesView[]>([])
+
+  const fetchSalesViews = useCallback(async () => {
+    if (!festival) return
+    const { data } = await supabase
+      .from('sales_views')
+      .select('*')
+      .eq('festival_id', festival.id)
+      .order('name', { ascending: true })
+    if (data) setSalesViews(data)
+  }, [festival?.id])
+
+  useEffect(() => {
+    fetchSalesViews()
+  }, [fetchSalesViews])
+
+  return { salesViews, refetch: fetchSalesViews }
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import { useRealtimeTable } from '@/hooks/useRealtimeTable'
+
+/** An enabled event and the time of its last successful sync */
+interface EventSyncStatus {
+  label: string
+  lastSuccessAt: string | null
+}
+
+/**
+ * Last successful ticketing sync of each enabled event, and whether any of
+ * them is older than the festival's stale threshold. lastSuccessAt is that
+ * of the event that has gone longest without one. Festivals without enabled
+ * events are never stale.
+ */
+export function useSyncStatus() {
+  const { festival } = useAuthContext()
+  const [eventStatus, setEventStatus] = useState<EventSyncStatus[]>([])
+  const [now, setNow] = useState(() => Date.now())
+
+  const fetchStatus = useCallback(async () => {
+    if (!festival) return
+    const [intRes, eventRes] = await Promise.all([
+      supabase
+        .from('festival_integrations')
+        .select('id')
+        .eq('festival_id', festival.id)
+        .eq('enabled', true),
+      supabase
+        .from('integration_events')
+        .select('id, external_event_id, label, integration_id')
+        .eq('festival_id', festival.id)
+        .eq('enabled', true),
+    ])
+    const integrationIds = new Set((intRes.data ?? []).map((i) => i.id))
+    const enabledEvents = (eventRes.data ?? []).filter((ev) => integrationIds.has(ev.integration_id))
+
+    const status = await Promise.all(
+      enabledEvents.map(async (ev) => {
+        const { data } = await supabase
+          .from('ticketco_sync_logs')
+          .select('synced_at')
+          .eq('event_id', ev.id)
+          .eq('status', 'success')
+          .order('synced_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+        return { label: ev.label ?? ev.external_event_id, lastSuccessAt: data?.synced_at ?? null }
+      }),
+    )
+    setEventStatus(status)
+    setNow(Date.now())
+  }, [festival?.id])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  // Re-evaluate staleness while the page stays open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60_000)
+    return () => clearInterval(timer)
+  }, [])
+
+  useRealtimeTable('ticketco_sync_logs', festival?.id, fetchStatus)
+
+  const thresholdMs = (festival?.sync_stale_after_minutes ?? 60) * 60_000
+  const staleEvents = eventStatus
+    .filter((ev) => !ev.lastSuccessAt || now - new Date(ev.lastSuccessAt).getTime() > thresholdMs)
+    .map((ev) => ev.label)
+  const isStale = staleEvents.length > 0
+
+  const successTimes = eventStatus.map((ev) => ev.lastSuccessAt)
+  const lastSuccessAt = successTimes.includes(null) ? null : ([...successTimes].sort()[0] ?? null)
+
+  return { lastSuccessAt, isStale, staleEvents, refetch: fetchStatus }
+}
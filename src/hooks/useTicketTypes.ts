@@ -0,0 +1,27 @@
+import { useEffect, useState, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuthContext } from '@/contexts/AuthContext'
+import type { TicketType } from '@/types/database'
+
+export function useTicketTypes() {
+  const { festival, edition } = useAuthContext()
+  const [ticketTypes, setTicketTypes] = useState<TicketType[]>([])
+
+  const fetchTicketTypes = useCallback(async () => {
+    if (!festival || !edition) return
+    const { data } = await supabase
+      .from('ticket_types')
+      .select('*')
+      .eq('festival_id', festival.id)
+      .eq('edition_id', edition.id)
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true })
+    if (data) setTicketTypes(data)
+  }, [festival?.id, edition?.id])
+
+  useEffect(() => {
+    fetchTicketTypes()
+  }, [fetchTicketTypes])
+
+  return { ticketTypes, refetch: fetchTicketTypes }
+}
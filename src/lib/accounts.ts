@@ -0,0 +1,57 @@
+import type { AccountCategory, AccountCategoryType } from '@/types/database'
+
+/** SAF-T standard tax codes that festival income and costs use */
+export const STANDARD_TAX_CODES = ['3', '31', '33', '5', '6', '7', '1', '11', '13', '0'] as const
+
+export type CategoryIndex = Map<string, AccountCategory>
+
+const categoryKey = (type: AccountCategoryType, slug: string) => `${type}:${slug}`
+
+/** Categories by type and slug, for looking up the category of an entry */
+export function indexCategories(categories: AccountCategory[]): CategoryIndex {
+  return new Map(categories.map((c) => [categoryKey(c.type, c.slug), c]))
+}
+
+/** The category's name, or the slug of an entry whose category is gone */
+export function categoryName(index: CategoryIndex, type: AccountCategoryType, slug: string) {
+  return index.get(categoryKey(type, slug))?.name ?? slug
+}
+
+/**
+ * The standard tax code for a VAT rate: output VAT on income, deductible
+ * input VAT on costs. Income without VAT is taken as outside the VAT act,
+ * like concert tickets.
+ */
+export function standardTaxCode(type: AccountCategoryType, vatRate: number | null) {
+  const percent = Math.round((vatRate ?? 0) * 100)
+  const codes: Record<number, string> =
+    type === 'income' ? { 25: '3', 15: '31', 12: '33' } : { 25: '1', 15: '11', 12: '13' }
+  return codes[percent] ?? (type === 'income' ? '6' : '0')
+}
+
+/** Account number, category name and tax code to book an entry on */
+export function entryAccount(
+  index: CategoryIndex,
+  type: AccountCategoryType,
+  entry: { category: string; vat_rate: number | null },
+) {
+  const category = index.get(categoryKey(type, entry.category))
+  return {
+    account: category?.account_number ?? '',
+    name: category?.name ?? entry.category,
+    taxCode: category?.vat_code ?? standardTaxCode(type, entry.vat_rate),
+  }
+}
+
+/** A slug for a new category: lowercase letters, digits and underscores */
+export function categorySlug(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/æ/g, 'ae')
+    .replace(/ø/g, 'o')
+    .replace(/å/g, 'a')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
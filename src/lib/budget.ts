@@ -0,0 +1,82 @@
+import type { Expense, Income } from '@/types/database'
+import { isActualExpense } from '@/lib/expense-status'
+
+export type EntryType = 'income' | 'expense'
+
+interface Amounts {
+  budget: number
+  forecast: number
+  actual: number
+}
+
+export interface SubcategoryComparison extends Amounts {
+  name: string
+}
+
+export interface CategoryComparison extends Amounts {
+  type: EntryType
+  category: string
+  /** Only lines with a subcategory; the category totals include the rest */
+  subcategories: SubcategoryComparison[]
+}
+
+const emptyAmounts = (): Amounts => ({ budget: 0, forecast: 0, actual: 0 })
+
+/**
+ * Budget, forecast and actual ex. VAT per category and subcategory.
+ * Budget and forecast are the lines of the two given versions; actual is
+ * actual income and the expenses that count as cost. Income comes first,
+ * then expenses, each with the largest categories first.
+ */
+export function budgetComparison(
+  income: Income[],
+  expenses: Expense[],
+  budgetVersionId: string | null,
+  forecastVersionId: string | null,
+): CategoryComparison[] {
+  const rows = new Map<string, CategoryComparison>()
+
+  const add = (type: EntryType, entry: Income | Expense, column: keyof Amounts) => {
+    const key = `${type}:${entry.category}`
+    const row = rows.get(key) ?? { type, category: entry.category, ...emptyAmounts(), subcategories: [] }
+    const amount = entry.amount_ex_vat ?? 0
+    row[column] += amount
+    if (entry.subcategory) {
+      let sub = row.subcategories.find((s) => s.name === entry.subcategory)
+      if (!sub) {
+        sub = { name: entry.subcategory, ...emptyAmounts() }
+        row.subcategories.push(sub)
+      }
+      sub[column] += amount
+    }
+    rows.set(key, row)
+  }
+
+  const place = (type: EntryType, entry: Income | Expense, counted: boolean) => {
+    if (!entry.is_budget) {
+      if (counted) add(type, entry, 'actual')
+      return
+    }
+    if (entry.budget_version_id === budgetVersionId) add(type, entry, 'budget')
+    if (entry.budget_version_id === forecastVersionId) add(type, entry, 'forecast')
+  }
+
+  for (const i of income) place('income', i, true)
+  for (const e of expenses) place('expense', e, isActualExpense(e))
+
+  const size = (a: Amounts) => Math.max(a.budget, a.forecast, a.actual)
+  return Array.from(rows.values())
+    .map((row) => ({ ...row, subcategories: row.subcategories.sort((a, b) => a.name.localeCompare(b.name, 'nb')) }))
+    .sort((a, b) => (a.type === b.type ? size(b) - size(a) : a.type === 'income' ? -1 : 1))
+}
+
+/** Subcategories already in use per category, for suggestions in the forms */
+export function subcategoriesByCategory(entries: Pick<Income, 'category' | 'subcategory'>[]) {
+  const map = new Map<string, string[]>()
+  for (const { category, subcategory } of entries) {
+    if (!subcategory) continue
+    const names = map.get(category) ?? []
+    if (!names.includes(subcategory)) map.set(category, [...names, subcategory].sort((a, b) => a.localeCompare(b, 'nb')))
+  }
+  return map
+}
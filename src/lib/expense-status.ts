@@ -0,0 +1,23 @@
+import type { Expense, ExpenseStatus } from '@/types/database'
+
+// Expense approval: draft → submitted → approved/rejected → paid. The
+// database enforces who may move an expense where; these helpers decide
+// what the app shows and counts.
+
+export const EXPENSE_STATUSES: ExpenseStatus[] = ['draft', 'submitted', 'approved', 'rejected', 'paid']
+
+/** Statuses that count as actual cost */
+export const COUNTED_EXPENSE_STATUSES: ExpenseStatus[] = ['approved', 'paid']
+
+/** Statuses the submitter can still edit, attach receipts to and delete */
+export const OPEN_EXPENSE_STATUSES: ExpenseStatus[] = ['draft', 'submitted', 'rejected']
+
+/** Actual cost: not a budget line, and approved or paid */
+export function isActualExpense(expense: Pick<Expense, 'is_budget' | 'status'>) {
+  return !expense.is_budget && COUNTED_EXPENSE_STATUSES.includes(expense.status)
+}
+
+/** Whether an amount needs someone else's approval under the festival's threshold */
+export function needsApproval(amountExVat: number, threshold: number | null) {
+  return threshold !== null && amountExVat > threshold
+}
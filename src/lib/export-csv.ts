@@ -1,4 +1,24 @@
-import type { TicketSale, Income, Expense } from '@/types/database'
+import type { SaleLine, TicketSale, Income, Expense, ExpenseStatus, Outlet, SaleCategory } from '@/types/database'
+import { countedSales, splitByCategory } from '@/lib/sales-utils'
+import { zonedDate } from '@/lib/timezone'
+import { entryAccount, standardTaxCode, type CategoryIndex } from '@/lib/accounts'
+
+const CATEGORY_LABELS: Record<SaleCategory, string> = {
+  ticket: 'Billett',
+  fb: 'Mat/drikke',
+  merch: 'Merch',
+  camping: 'Camping',
+  parking: 'Parkering',
+  donation: 'Donasjon',
+}
+
+const EXPENSE_STATUS_LABELS: Record<ExpenseStatus, string> = {
+  draft: 'Utkast',
+  submitted: 'Til godkjenning',
+  approved: 'Godkjent',
+  rejected: 'Avvist',
+  paid: 'Betalt',
+}
 
 function formatNumber(n: number | null): string {
   if (n === null) return ''
@@ -19,7 +39,10 @@ export function escapeCsv(val: string): string {
 
 export function downloadCsv(csv: string, filename: string) {
   const bom = '\uFEFF' // UTF-8 BOM for Excel compatibility
-  const blob = new Blob([bom + csv], { type: 'text/csv;charset=utf-8;' })
+  downloadBlob(new Blob([bom + csv], { type: 'text/csv;charset=utf-8;' }), filename)
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
   const link = document.createElement('a')
   link.href = URL.createObjectURL(blob)
   link.download = filename
@@ -27,7 +50,7 @@ export function downloadCsv(csv: string, filename: string) {
   URL.revokeObjectURL(link.href)
 }
 
-export function exportSalesCsv(sales: TicketSale[], filename: string) {
+export function exportSalesCsv(sales: TicketSale[], filename: string, timeZone: string) {
   const header = [
     'Dato',
     'Billettype',
@@ -40,10 +63,10 @@ export function exportSalesCsv(sales: TicketSale[], filename: string) {
     'Salgskanal',
   ]
 
-  const rows = sales.map((s) => [
-    s.sold_at?.slice(0, 10) ?? '',
+  const rows = countedSales(sales).map((s) => [
+    s.sold_at ? zonedDate(s.sold_at, timeZone) : '',
     escapeCsv(s.ticket_type),
-    s.category === 'fb' ? 'Mat/drikke' : 'Billett',
+    CATEGORY_LABELS[s.category ?? 'ticket'],
     String(s.quantity),
     formatNumber(s.price_ex_vat),
     s.vat_rate !== null ? `${(s.vat_rate * 100).toFixed(0)}%` : '',
@@ -59,36 +82,46 @@ export function exportSalesCsv(sales: TicketSale[], filename: string) {
 export function exportEconomyCsv(
   income: Income[],
   expenses: Expense[],
+  categories: CategoryIndex,
   filename: string,
 ) {
   const header = [
     'Type',
+    'Konto',
     'Kategori',
+    'Underkategori',
     'Skildring',
     'Beløp eks. MVA',
     'MVA-sats',
+    'MVA-kode',
     'MVA-beløp',
     'Beløp inkl. MVA',
     'Kjelde/Leverandør',
     'Budsjett/Faktisk',
     'Dato',
+    'Status',
   ]
 
   const incomeRows = income.map((i) => {
     const exVat = i.amount_ex_vat ?? 0
     const vatRate = i.vat_rate ?? 0
     const vatAmount = i.vat_amount ?? exVat * vatRate
+    const { account, name, taxCode } = entryAccount(categories, 'income', i)
     return [
       'Inntekt',
-      escapeCsv(i.category),
+      account,
+      escapeCsv(name),
+      escapeCsv(i.subcategory ?? ''),
       escapeCsv(i.description ?? ''),
       formatNumber(exVat),
       vatRate ? `${(vatRate * 100).toFixed(0)}%` : '',
+      i.is_budget ? '' : taxCode,
       formatNumber(vatAmount),
       formatNumber(exVat + vatAmount),
       escapeCsv(i.source ?? ''),
       i.is_budget ? 'Budsjett' : 'Faktisk',
       i.date ?? '',
+      '',
     ]
   })
 
@@ -96,17 +129,22 @@ export function exportEconomyCsv(
     const exVat = e.amount_ex_vat ?? 0
     const vatRate = e.vat_rate ?? 0
     const vatAmount = e.vat_amount ?? exVat * vatRate
+    const { account, name, taxCode } = entryAccount(categories, 'expense', e)
     return [
       'Kostnad',
-      escapeCsv(e.category),
+      account,
+      escapeCsv(name),
+      escapeCsv(e.subcategory ?? ''),
       escapeCsv(e.description ?? ''),
       formatNumber(exVat),
       vatRate ? `${(vatRate * 100).toFixed(0)}%` : '',
+      e.is_budget ? '' : taxCode,
       formatNumber(vatAmount),
       formatNumber(exVat + vatAmount),
       escapeCsv(e.supplier ?? ''),
       e.is_budget ? 'Budsjett' : 'Faktisk',
       e.date ?? '',
+      e.is_budget ? '' : EXPENSE_STATUS_LABELS[e.status],
     ]
   })
 
@@ -127,9 +165,9 @@ export interface VatBucket {
   count: number
 }
 
-export function groupSalesByVat(sales: TicketSale[]): VatBucket[] {
+export function groupSalesByVat(sales: SaleLine[]): VatBucket[] {
   const map = new Map<number, VatBucket>()
-  for (const s of sales) {
+  for (const s of countedSales(sales)) {
     const rate = s.vat_rate ?? 0
     const existing = map.get(rate) ?? {
       rate,
@@ -148,8 +186,14 @@ export function groupSalesByVat(sales: TicketSale[]): VatBucket[] {
   return Array.from(map.values()).sort((a, b) => b.rate - a.rate)
 }
 
-/** Accounting export: ticket sales sorted by date, grouped for bookkeeping */
-export function exportAccountingTicketsCsv(sales: TicketSale[], filename: string) {
+/** Accounting export: ticket sales sorted by date, grouped for bookkeeping. Refunds appear as negative rows. */
+export function exportAccountingTicketsCsv(
+  sales: TicketSale[],
+  outlets: Outlet[],
+  filename: string,
+  timeZone: string,
+) {
+  const outletNames = new Map(outlets.map((o) => [o.id, o.name]))
   const header = [
     'Dato',
     'Billettype',
@@ -160,9 +204,11 @@ export function exportAccountingTicketsCsv(sales: TicketSale[], filename: string
     'MVA-beløp',
     'Sum inkl. MVA',
     'Salgskanal',
+    'Utsalgssted',
+    'Type',
   ]
 
-  const sorted = [...sales].sort(
+  const sorted = countedSales(sales).sort(
     (a, b) => (a.sold_at ?? '').localeCompare(b.sold_at ?? ''),
   )
 
@@ -171,7 +217,7 @@ export function exportAccountingTicketsCsv(sales: TicketSale[], filename: string
     const vatAmt = s.vat_amount ?? 0
     const incVat = s.price_inc_vat ?? 0
     return [
-      s.sold_at?.slice(0, 10) ?? '',
+      s.sold_at ? zonedDate(s.sold_at, timeZone) : '',
       escapeCsv(s.ticket_type),
       String(s.quantity),
       formatNumber(exVat),
@@ -180,6 +226,8 @@ export function exportAccountingTicketsCsv(sales: TicketSale[], filename: string
       formatNumber(vatAmt * s.quantity),
       formatNumber(incVat * s.quantity),
       s.sale_channel ?? '',
+      escapeCsv((s.outlet_id && outletNames.get(s.outlet_id)) ?? ''),
+      s.is_reversal ? 'Refusjon' : 'Salg',
     ]
   })
 
@@ -199,20 +247,72 @@ export function exportAccountingTicketsCsv(sales: TicketSale[], filename: string
     formatNumber(totalVat),
     formatNumber(totalIncVat),
     '',
+    '',
+    '',
   ])
 
   const csv = [header, ...rows].map((row) => row.join(',')).join('\n')
   downloadCsv(csv, filename)
 }
 
-/** Accounting export: VAT summary grouped by rate */
+/** Accounting export: sales per outlet and category, for booking each outlet's takings separately */
+export function exportAccountingOutletCsv(sales: SaleLine[], outlets: Outlet[], filename: string) {
+  const header = ['Utsalgssted', 'Kategori', 'Antall', 'Sum eks. MVA', 'MVA-beløp', 'Sum inkl. MVA']
+  const outletNames = new Map(outlets.map((o) => [o.id, o.name]))
+  const map = new Map<string, { outlet: string; category: string; qty: number; exVat: number; vat: number }>()
+
+  for (const s of countedSales(sales)) {
+    const outlet = (s.outlet_id && outletNames.get(s.outlet_id)) ?? 'Uten utsalgssted'
+    const category = CATEGORY_LABELS[s.category ?? 'ticket']
+    const key = `${outlet}|${category}`
+    const existing = map.get(key) ?? { outlet, category, qty: 0, exVat: 0, vat: 0 }
+    existing.qty += s.quantity
+    existing.exVat += (s.price_ex_vat ?? 0) * s.quantity
+    existing.vat += (s.vat_amount ?? 0) * s.quantity
+    map.set(key, existing)
+  }
+
+  const order = (name: string) => {
+    const index = outlets.findIndex((o) => o.name === name)
+    return index === -1 ? outlets.length : index
+  }
+  const groups = Array.from(map.values()).sort(
+    (a, b) => order(a.outlet) - order(b.outlet) || a.category.localeCompare(b.category, 'nb'),
+  )
+  const rows = groups.map((g) => [
+    escapeCsv(g.outlet),
+    g.category,
+    String(g.qty),
+    formatNumber(g.exVat),
+    formatNumber(g.vat),
+    formatNumber(g.exVat + g.vat),
+  ])
+
+  const totalExVat = groups.reduce((s, g) => s + g.exVat, 0)
+  const totalVat = groups.reduce((s, g) => s + g.vat, 0)
+  rows.push([])
+  rows.push([
+    'TOTALT',
+    '',
+    String(groups.reduce((s, g) => s + g.qty, 0)),
+    formatNumber(totalExVat),
+    formatNumber(totalVat),
+    formatNumber(totalExVat + totalVat),
+  ])
+
+  const csv = [header, ...rows].map((row) => row.join(',')).join('\n')
+  downloadCsv(csv, filename)
+}
+
+/** Accounting export: VAT summary grouped by standard tax code and rate */
 export function exportAccountingVatCsv(
-  sales: TicketSale[],
+  sales: SaleLine[],
   income: Income[],
   expenses: Expense[],
+  categories: CategoryIndex,
   filename: string,
 ) {
-  const header = ['Kilde', 'MVA-sats', 'Grunnlag eks. MVA', 'MVA-beløp', 'Sum inkl. MVA']
+  const header = ['Kilde', 'MVA-kode', 'MVA-sats', 'Grunnlag eks. MVA', 'MVA-beløp', 'Sum inkl. MVA']
 
   const rows: string[][] = []
 
@@ -221,6 +321,7 @@ export function exportAccountingVatCsv(
   for (const b of salesVat) {
     rows.push([
       'Billettsalg/F&B',
+      standardTaxCode('income', b.rate),
       b.label,
       formatNumber(b.exVat),
       formatNumber(b.vatAmount),
@@ -228,81 +329,104 @@ export function exportAccountingVatCsv(
     ])
   }
 
-  // Income by VAT rate (actual only)
-  const actualIncome = income.filter((i) => !i.is_budget)
-  const incVatMap = new Map<number, { exVat: number; vatAmt: number }>()
-  for (const i of actualIncome) {
-    const rate = i.vat_rate ?? 0
-    const existing = incVatMap.get(rate) ?? { exVat: 0, vatAmt: 0 }
-    existing.exVat += i.amount_ex_vat ?? 0
-    existing.vatAmt += i.vat_amount ?? (i.amount_ex_vat ?? 0) * rate
-    incVatMap.set(rate, existing)
-  }
-  for (const [rate, data] of Array.from(incVatMap.entries()).sort((a, b) => b[0] - a[0])) {
-    rows.push([
-      'Øvrig inntekt',
-      rate ? `${(rate * 100).toFixed(0)}%` : '0%',
-      formatNumber(data.exVat),
-      formatNumber(data.vatAmt),
-      formatNumber(data.exVat + data.vatAmt),
-    ])
-  }
-
-  // Expenses by VAT rate (actual only)
-  const actualExpenses = expenses.filter((e) => !e.is_budget)
-  const expVatMap = new Map<number, { exVat: number; vatAmt: number }>()
-  for (const e of actualExpenses) {
-    const rate = e.vat_rate ?? 0
-    const existing = expVatMap.get(rate) ?? { exVat: 0, vatAmt: 0 }
-    existing.exVat += e.amount_ex_vat ?? 0
-    existing.vatAmt += e.vat_amount ?? (e.amount_ex_vat ?? 0) * rate
-    expVatMap.set(rate, existing)
-  }
-  for (const [rate, data] of Array.from(expVatMap.entries()).sort((a, b) => b[0] - a[0])) {
-    rows.push([
-      'Kostnad',
-      rate ? `${(rate * 100).toFixed(0)}%` : '0%',
-      formatNumber(data.exVat),
-      formatNumber(data.vatAmt),
-      formatNumber(data.exVat + data.vatAmt),
-    ])
+  // Income and expenses by tax code and VAT rate (actual only)
+  const entryGroups: [string, 'income' | 'expense', (Income | Expense)[]][] = [
+    ['Øvrig inntekt', 'income', income.filter((i) => !i.is_budget)],
+    ['Kostnad', 'expense', expenses.filter((e) => !e.is_budget)],
+  ]
+  for (const [source, type, entries] of entryGroups) {
+    const map = new Map<string, { taxCode: string; rate: number; exVat: number; vatAmt: number }>()
+    for (const entry of entries) {
+      const rate = entry.vat_rate ?? 0
+      const { taxCode } = entryAccount(categories, type, entry)
+      const key = `${taxCode}|${rate}`
+      const existing = map.get(key) ?? { taxCode, rate, exVat: 0, vatAmt: 0 }
+      existing.exVat += entry.amount_ex_vat ?? 0
+      existing.vatAmt += entry.vat_amount ?? (entry.amount_ex_vat ?? 0) * rate
+      map.set(key, existing)
+    }
+    const groups = Array.from(map.values()).sort((a, b) => b.rate - a.rate || a.taxCode.localeCompare(b.taxCode))
+    for (const data of groups) {
+      rows.push([
+        source,
+        data.taxCode,
+        data.rate ? `${(data.rate * 100).toFixed(0)}%` : '0%',
+        formatNumber(data.exVat),
+        formatNumber(data.vatAmt),
+        formatNumber(data.exVat + data.vatAmt),
+      ])
+    }
   }
 
   const csv = [header, ...rows].map((row) => row.join(',')).join('\n')
   downloadCsv(csv, filename)
 }
 
-/** Accounting export: full summary of all income and expenses */
+/** Totals per account, in account order; entries without an account are grouped by category */
+function sumByAccount(categories: CategoryIndex, type: 'income' | 'expense', entries: (Income | Expense)[]) {
+  const map = new Map<string, { account: string; names: string[]; exVat: number; vat: number }>()
+  for (const entry of entries) {
+    const { account, name } = entryAccount(categories, type, entry)
+    const key = account || `|${name}`
+    const existing = map.get(key) ?? { account, names: [], exVat: 0, vat: 0 }
+    if (!existing.names.includes(name)) existing.names.push(name)
+    existing.exVat += entry.amount_ex_vat ?? 0
+    existing.vat += entry.vat_amount ?? (entry.amount_ex_vat ?? 0) * (entry.vat_rate ?? 0)
+    map.set(key, existing)
+  }
+  return Array.from(map.values())
+    .sort((a, b) => (a.account || '9999999').localeCompare(b.account || '9999999'))
+    .map((g) => [
+      escapeCsv([g.account, g.names.join('/')].filter(Boolean).join(' ')),
+      formatNumber(g.exVat),
+      formatNumber(g.vat),
+      formatNumber(g.exVat + g.vat),
+    ])
+}
+
+/**
+ * Accounting export: full summary of all income and expenses, with other
+ * income and costs per account. With voucherLinks (entry id → links to its
+ * attachments) the entries that have vouchers are listed after the result.
+ */
 export function exportAccountingSummaryCsv(
-  sales: TicketSale[],
+  sales: SaleLine[],
   income: Income[],
   expenses: Expense[],
+  categories: CategoryIndex,
   filename: string,
+  voucherLinks?: Map<string, string[]>,
 ) {
   const header = ['Kategori', 'Beløp eks. MVA', 'MVA-beløp', 'Beløp inkl. MVA']
   const rows: string[][] = []
 
   // Ticket sales
-  const tickets = sales.filter((s) => s.category !== 'fb')
+  const { tickets, fnb, other } = splitByCategory(countedSales(sales))
   const ticketExVat = tickets.reduce((s, r) => s + (r.price_ex_vat ?? 0) * r.quantity, 0)
   const ticketVat = tickets.reduce((s, r) => s + (r.vat_amount ?? 0) * r.quantity, 0)
   rows.push(['Billettsalg', formatNumber(ticketExVat), formatNumber(ticketVat), formatNumber(ticketExVat + ticketVat)])
 
   // F&B sales
-  const fnb = sales.filter((s) => s.category === 'fb')
   const fnbExVat = fnb.reduce((s, r) => s + (r.price_ex_vat ?? 0) * r.quantity, 0)
   const fnbVat = fnb.reduce((s, r) => s + (r.vat_amount ?? 0) * r.quantity, 0)
   rows.push(['Mat/drikke', formatNumber(fnbExVat), formatNumber(fnbVat), formatNumber(fnbExVat + fnbVat)])
 
+  // Other sales (merch, camping, parking, donations)
+  const otherSalesExVat = other.reduce((s, r) => s + (r.price_ex_vat ?? 0) * r.quantity, 0)
+  const otherSalesVat = other.reduce((s, r) => s + (r.vat_amount ?? 0) * r.quantity, 0)
+  if (other.length > 0) {
+    rows.push(['Annet salg', formatNumber(otherSalesExVat), formatNumber(otherSalesVat), formatNumber(otherSalesExVat + otherSalesVat)])
+  }
+
   // Other income (actual)
   const actualIncome = income.filter((i) => !i.is_budget)
   const otherIncExVat = actualIncome.reduce((s, i) => s + (i.amount_ex_vat ?? 0), 0)
   const otherIncVat = actualIncome.reduce((s, i) => s + (i.vat_amount ?? (i.amount_ex_vat ?? 0) * (i.vat_rate ?? 0)), 0)
-  rows.push(['Øvrig inntekt', formatNumber(otherIncExVat), formatNumber(otherIncVat), formatNumber(otherIncExVat + otherIncVat)])
+  rows.push(...sumByAccount(categories, 'income', actualIncome))
 
   rows.push([])
-  const totalIncExVat = ticketExVat + fnbExVat + otherIncExVat
-  const totalIncVat = ticketVat + fnbVat + otherIncVat
+  const totalIncExVat = ticketExVat + fnbExVat + otherSalesExVat + otherIncExVat
+  const totalIncVat = ticketVat + fnbVat + otherSalesVat + otherIncVat
   rows.push(['SUM INNTEKTER', formatNumber(totalIncExVat), formatNumber(totalIncVat), formatNumber(totalIncExVat + totalIncVat)])
   rows.push([])
 
@@ -310,11 +434,85 @@ export function exportAccountingSummaryCsv(
   const actualExpenses = expenses.filter((e) => !e.is_budget)
   const expExVat = actualExpenses.reduce((s, e) => s + (e.amount_ex_vat ?? 0), 0)
   const expVat = actualExpenses.reduce((s, e) => s + (e.vat_amount ?? (e.amount_ex_vat ?? 0) * (e.vat_rate ?? 0)), 0)
+  rows.push(...sumByAccount(categories, 'expense', actualExpenses))
   rows.push(['SUM KOSTNADER', formatNumber(expExVat), formatNumber(expVat), formatNumber(expExVat + expVat)])
 
   rows.push([])
   rows.push(['RESULTAT', formatNumber(totalIncExVat - expExVat), formatNumber(totalIncVat - expVat), formatNumber((totalIncExVat + totalIncVat) - (expExVat + expVat))])
 
+  // Vouchers
+  if (voucherLinks && voucherLinks.size > 0) {
+    rows.push([])
+    rows.push(['BILAG', 'Dato', 'Skildring', 'Sum inkl. MVA', 'Vedlegg'])
+    const entries = [
+      ...actualIncome.map((i) => ({ type: 'Inntekt', kind: 'income' as const, entry: i })),
+      ...actualExpenses.map((e) => ({ type: 'Kostnad', kind: 'expense' as const, entry: e })),
+    ]
+    for (const { type, kind, entry } of entries) {
+      const links = voucherLinks.get(entry.id)
+      if (!links) continue
+      const exVat = entry.amount_ex_vat ?? 0
+      rows.push([
+        type,
+        entry.date ?? '',
+        escapeCsv(entry.description ?? entryAccount(categories, kind, entry).name),
+        formatNumber(exVat + (entry.vat_amount ?? exVat * (entry.vat_rate ?? 0))),
+        ...links.map(escapeCsv),
+      ])
+    }
+  }
+
+  const csv = [header, ...rows].map((row) => row.join(',')).join('\n')
+  downloadCsv(csv, filename)
+}
+
+/**
+ * Accounting export: one line per actual income or cost entry with its
+ * account and standard tax code, for import into the accounting system.
+ * Amounts are signed as postings: costs are debits (positive) and income
+ * credits (negative).
+ */
+export function exportAccountingLedgerCsv(
+  income: Income[],
+  expenses: Expense[],
+  categories: CategoryIndex,
+  filename: string,
+) {
+  const header = [
+    'Dato',
+    'Konto',
+    'Kontonavn',
+    'MVA-kode',
+    'Tekst',
+    'Kjelde/Leverandør',
+    'Beløp eks. MVA',
+    'MVA-beløp',
+    'Beløp inkl. MVA',
+  ]
+
+  const entries = [
+    ...income.filter((i) => !i.is_budget).map((i) => ({ type: 'income' as const, entry: i, party: i.source })),
+    ...expenses.filter((e) => !e.is_budget).map((e) => ({ type: 'expense' as const, entry: e, party: e.supplier })),
+  ].sort((a, b) => (a.entry.date ?? '').localeCompare(b.entry.date ?? ''))
+
+  const rows = entries.map(({ type, entry, party }) => {
+    const { account, name, taxCode } = entryAccount(categories, type, entry)
+    const sign = type === 'income' ? -1 : 1
+    const exVat = entry.amount_ex_vat ?? 0
+    const vatAmount = entry.vat_amount ?? exVat * (entry.vat_rate ?? 0)
+    return [
+      entry.date ?? '',
+      account,
+      escapeCsv(name),
+      taxCode,
+      escapeCsv([entry.description, entry.subcategory].filter(Boolean).join(' – ')),
+      escapeCsv(party ?? ''),
+      formatNumber(sign * exVat),
+      formatNumber(sign * vatAmount),
+      formatNumber(sign * (exVat + vatAmount)),
+    ]
+  })
+
   const csv = [header, ...rows].map((row) => row.join(',')).join('\n')
   downloadCsv(csv, filename)
 }
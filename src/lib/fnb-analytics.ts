@@ -0,0 +1,111 @@
+import { countedSales, normalizeTitle, titleLookup } from '@/lib/sales-utils'
+import { zonedDate } from '@/lib/timezone'
+import type { FnbProduct, Outlet, SaleLine } from '@/types/database'
+
+// Bar takings broken down by product, outlet or festival day, with
+// cost of goods from the product catalogue. Lines are matched to a product
+// like ticket types are: by name or external title, ignoring case. Lines
+// with no cost price are left out of cost and margin, and counted instead.
+
+export type FnbDimension = 'product' | 'outlet' | 'day'
+
+export interface FnbRow {
+  /** Product name or sale title, outlet name ('' when none), or YYYY-MM-DD */
+  label: string
+  /** False for titles no catalogued product claims */
+  mapped: boolean
+  units: number
+  revenue: number
+  revenueExVat: number
+  /** Cost of the units with a cost price */
+  cost: number
+  /** Revenue ex. VAT minus cost, over the units with a cost price */
+  margin: number
+  marginRate: number | null
+  /** Units left out of cost and margin */
+  uncostedUnits: number
+}
+
+export interface FnbBreakdown {
+  rows: FnbRow[]
+  total: FnbRow
+}
+
+function emptyRow(label: string, mapped: boolean): FnbRow & { costedRevenueExVat: number } {
+  return {
+    label,
+    mapped,
+    units: 0,
+    revenue: 0,
+    revenueExVat: 0,
+    cost: 0,
+    margin: 0,
+    marginRate: null,
+    uncostedUnits: 0,
+    costedRevenueExVat: 0,
+  }
+}
+
+function exVat(s: SaleLine) {
+  const unit = s.price_ex_vat ?? (s.price_inc_vat ?? 0) / (1 + (s.vat_rate ?? 0))
+  return unit * s.quantity
+}
+
+export function fnbBreakdown(
+  sales: SaleLine[],
+  products: FnbProduct[],
+  outlets: Outlet[],
+  dimension: FnbDimension,
+  timeZone: string,
+): FnbBreakdown {
+  const lookup = titleLookup(products)
+  const byId = new Map(products.map((p) => [p.id, p]))
+  const outletNames = new Map(outlets.map((o) => [o.id, o.name]))
+  const groups = new Map<string, ReturnType<typeof emptyRow>>()
+  const total = emptyRow('', true)
+
+  for (const s of countedSales(sales)) {
+    const product = byId.get(lookup.get(normalizeTitle(s.ticket_type)) ?? '')
+    let key: string
+    let label: string
+    if (dimension === 'product') {
+      key = product ? product.id : `title:${normalizeTitle(s.ticket_type)}`
+      label = product ? product.name : s.ticket_type
+    } else if (dimension === 'outlet') {
+      key = s.outlet_id && outletNames.has(s.outlet_id) ? s.outlet_id : ''
+      label = outletNames.get(key) ?? ''
+    } else {
+      if (!s.sold_at) continue
+      key = label = zonedDate(s.sold_at, timeZone)
+    }
+
+    const row = groups.get(key) ?? emptyRow(label, dimension !== 'product' || !!product)
+    for (const r of [row, total]) {
+      r.units += s.quantity
+      r.revenue += (s.price_inc_vat ?? 0) * s.quantity
+      r.revenueExVat += exVat(s)
+      if (product?.cost_price != null) {
+        r.cost += product.cost_price * s.quantity
+        r.costedRevenueExVat += exVat(s)
+      } else {
+        r.uncostedUnits += s.quantity
+      }
+    }
+    groups.set(key, row)
+  }
+
+  const finish = ({ costedRevenueExVat, ...row }: ReturnType<typeof emptyRow>): FnbRow => {
+    const margin = costedRevenueExVat - row.cost
+    return {
+      ...row,
+      margin,
+      marginRate: costedRevenueExVat > 0 ? margin / costedRevenueExVat : null,
+    }
+  }
+
+  const rows = Array.from(groups.values()).map(finish)
+  if (dimension === 'day') rows.sort((a, b) => a.label.localeCompare(b.label))
+  else rows.sort((a, b) => b.revenue - a.revenue)
+
+  return { rows, total: finish(total) }
+}
@@ -0,0 +1,180 @@
+import { daysBetween } from '@/lib/sales-utils'
+import { zonedDate } from '@/lib/timezone'
+import type { SalesHistory } from '@/types/database'
+
+// Sell-out forecasting. Projects the final ticket total from two sources:
+//  - earlier editions: how much of their final total had been sold the same
+//    number of days before the festival (captures release spikes and the
+//    end-of-campaign surge)
+//  - the current trend: average daily sales over the last two weeks
+// The central estimate is the median of those projections, the band spans
+// all of them, and everything is capped at the festival's capacity.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const TREND_WINDOW_DAYS = 14
+/** z-score of an ~80 % band around the trend projection */
+const TREND_Z = 1.28
+
+export interface ForecastPoint {
+  date: string
+  /** Actual cumulative tickets, up to today */
+  actual?: number
+  /** Projected cumulative tickets, from today on */
+  projected?: number
+  /** [low, high] of the projection */
+  band?: [number, number]
+}
+
+export interface SalesForecast {
+  currentTotal: number
+  projectedTotal: number
+  low: number
+  high: number
+  /** Day the projection reaches capacity; null when it does not before the festival */
+  sellOutDate: string | null
+  soldOut: boolean
+  daysUntilFestival: number
+  /** Tickets per day over the trend window */
+  trendPerDay: number
+  /** Earlier editions the projection is based on */
+  historyYears: number
+  /** Cumulative actual and projected tickets per day, for charts */
+  curve: ForecastPoint[]
+}
+
+interface ForecastInput {
+  dailySales: { date: string; tickets: number }[]
+  festivalStartDate: string | null
+  capacity: number | null
+  history: SalesHistory[]
+  timeZone: string
+  today?: Date
+}
+
+function addDays(date: string, days: number) {
+  return new Date(Date.parse(`${date}T00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/** Cumulative share of the final total sold at least d days before start, per edition */
+function historicalCurves(history: SalesHistory[]) {
+  const byYear = new Map<number, SalesHistory[]>()
+  for (const row of history) {
+    byYear.set(row.edition_year, [...(byYear.get(row.edition_year) ?? []), row])
+  }
+  return Array.from(byYear.values())
+    .map((rows) => {
+      const total = rows.reduce((sum, r) => sum + r.tickets, 0)
+      const soldBy = (daysBefore: number) =>
+        rows.filter((r) => r.days_before >= daysBefore).reduce((sum, r) => sum + r.tickets, 0)
+      return { total, shareBy: (daysBefore: number) => (total > 0 ? soldBy(daysBefore) / total : 0) }
+    })
+    .filter((curve) => curve.total > 0)
+}
+
+/** Daily ticket counts for the trend window, release day excluded */
+function trendWindow(dailySales: { date: string; tickets: number }[], today: string) {
+  const byDate = new Map(dailySales.map((d) => [d.date, d.tickets]))
+  const firstSale = dailySales[0].date
+  const days = Math.min(TREND_WINDOW_DAYS, daysBetween(firstSale, today))
+  const values: number[] = []
+  for (let i = days - 1; i >= 0; i--) {
+    values.push(byDate.get(addDays(today, -i)) ?? 0)
+  }
+  // Release day is usually a spike; only use it when there is nothing else
+  return values.length > 0 ? values : [byDate.get(firstSale) ?? 0]
+}
+
+export function computeSalesForecast({
+  dailySales,
+  festivalStartDate,
+  capacity,
+  history,
+  timeZone,
+  today = new Date(),
+}: ForecastInput): SalesForecast | null {
+  if (dailySales.length < 2 || !festivalStartDate) return null
+
+  const todayStr = zonedDate(today, timeZone)
+  const startDate = festivalStartDate.slice(0, 10)
+  const daysUntilFestival = Math.max(0, daysBetween(todayStr, startDate))
+  const currentTotal = dailySales.reduce((sum, d) => sum + d.tickets, 0)
+  const cap = (n: number) => Math.round(capacity ? Math.min(n, capacity) : n)
+
+  // Current trend with a band from the day-to-day variation
+  const window = trendWindow(dailySales, todayStr)
+  const trendPerDay = window.reduce((sum, v) => sum + v, 0) / window.length
+  const sd = Math.sqrt(window.reduce((sum, v) => sum + (v - trendPerDay) ** 2, 0) / window.length)
+  const trendSpread = TREND_Z * sd * Math.sqrt(daysUntilFestival)
+  const trendTotal = currentTotal + trendPerDay * daysUntilFestival
+
+  // Earlier editions: scale today's total by how far along they were
+  const curves = historicalCurves(history)
+  const usable = curves.filter((c) => c.shareBy(daysUntilFestival) > 0)
+  const historyTotals = usable.map((c) => currentTotal / c.shareBy(daysUntilFestival))
+
+  const estimates = [...historyTotals, trendTotal]
+  const central = median(estimates)
+  const low = Math.max(currentTotal, Math.min(...estimates, trendTotal - trendSpread))
+  const high = Math.max(...estimates, trendTotal + trendSpread)
+
+  // Shape of the remaining sales: the editions' average curve, else linear
+  const remainingShare = (k: number) => {
+    if (daysUntilFestival === 0) return 1
+    if (usable.length === 0) return k / daysUntilFestival
+    // Sales during the festival are drawn on opening day
+    const shares = usable.map((c) => {
+      const before = c.shareBy(daysUntilFestival)
+      return (c.shareBy(daysUntilFestival - k) - before) / (c.shareBy(0) - before || 1)
+    })
+    return shares.reduce((sum, s) => sum + s, 0) / shares.length
+  }
+
+  const curve: ForecastPoint[] = []
+  let cumulative = 0
+  const byDate = new Map(dailySales.map((d) => [d.date, d.tickets]))
+  for (let date = dailySales[0].date; date <= todayStr; date = addDays(date, 1)) {
+    cumulative += byDate.get(date) ?? 0
+    curve.push({ date, actual: cumulative })
+  }
+  if (curve.length > 0) {
+    const last = curve[curve.length - 1]
+    last.projected = last.actual
+    last.band = [last.actual!, last.actual!]
+  }
+
+  let sellOutDate: string | null = null
+  const soldOut = capacity !== null && currentTotal >= capacity
+  for (let k = 1; k <= daysUntilFestival; k++) {
+    const share = remainingShare(k)
+    const projected = currentTotal + (central - currentTotal) * share
+    const date = addDays(todayStr, k)
+    if (!soldOut && !sellOutDate && capacity !== null && projected >= capacity) sellOutDate = date
+    curve.push({
+      date,
+      projected: cap(projected),
+      band: [
+        cap(currentTotal + (low - currentTotal) * share),
+        cap(currentTotal + (high - currentTotal) * share),
+      ],
+    })
+  }
+
+  return {
+    currentTotal,
+    projectedTotal: cap(central),
+    low: cap(low),
+    high: cap(high),
+    sellOutDate,
+    soldOut,
+    daysUntilFestival,
+    trendPerDay: Math.round(trendPerDay),
+    historyYears: usable.length,
+    curve,
+  }
+}
@@ -0,0 +1,105 @@
+import { countedSales } from '@/lib/sales-utils'
+import { zonedParts } from '@/lib/timezone'
+import type { SaleLine } from '@/types/database'
+
+// Sales within the day, in the festival's local time: release-day rushes
+// by hour or quarter-hour, the weekly rhythm as weekday × hour, and bar
+// sales per hour on each festival day.
+
+export type IntervalMinutes = 60 | 15
+
+export interface IntradayBucket {
+  /** HH:MM at the start of the bucket */
+  time: string
+  tickets: number
+  revenue: number
+}
+
+export interface SalesDay {
+  date: string
+  tickets: number
+}
+
+function pad(n: number) {
+  return String(n).padStart(2, '0')
+}
+
+/** Days with sales, in date order */
+export function salesDays(sales: SaleLine[], timeZone: string): SalesDay[] {
+  const map = new Map<string, number>()
+  for (const s of countedSales(sales)) {
+    if (!s.sold_at) continue
+    const { date } = zonedParts(s.sold_at, timeZone)
+    map.set(date, (map.get(date) ?? 0) + s.quantity)
+  }
+  return Array.from(map, ([date, tickets]) => ({ date, tickets })).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/** Every bucket of one local day, empty ones included so the axis is continuous */
+export function groupByInterval(
+  sales: SaleLine[],
+  date: string,
+  minutes: IntervalMinutes,
+  timeZone: string,
+): IntradayBucket[] {
+  const buckets: IntradayBucket[] = []
+  for (let m = 0; m < 24 * 60; m += minutes) {
+    buckets.push({ time: `${pad(Math.floor(m / 60))}:${pad(m % 60)}`, tickets: 0, revenue: 0 })
+  }
+  for (const s of countedSales(sales)) {
+    if (!s.sold_at) continue
+    const parts = zonedParts(s.sold_at, timeZone)
+    if (parts.date !== date) continue
+    const bucket = buckets[Math.floor((parts.hour * 60 + parts.minute) / minutes)]
+    bucket.tickets += s.quantity
+    bucket.revenue += (s.price_inc_vat ?? 0) * s.quantity
+  }
+  return buckets
+}
+
+/** Quantity sold per weekday (rows, Monday first) and hour (columns) */
+export function weekdayHourHeatmap(sales: SaleLine[], timeZone: string): number[][] {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0))
+  for (const s of countedSales(sales)) {
+    if (!s.sold_at) continue
+    const { weekday, hour } = zonedParts(s.sold_at, timeZone)
+    grid[weekday][hour] += s.quantity
+  }
+  return grid
+}
+
+/** Festival dates from start to end (inclusive) */
+export function festivalDates(startDate: string, endDate: string | null) {
+  const dates: string[] = []
+  const end = Date.parse(`${endDate ?? startDate}T00:00Z`)
+  for (let t = Date.parse(`${startDate}T00:00Z`); t <= end; t += 24 * 60 * 60 * 1000) {
+    dates.push(new Date(t).toISOString().slice(0, 10))
+  }
+  return dates
+}
+
+/**
+ * One point per hour with each festival day's quantity and revenue,
+ * keyed by date (`2026-07-10` and `2026-07-10_revenue`). Sales after
+ * midnight count towards the hour they happened on the next date.
+ */
+export function hourlyByDay(sales: SaleLine[], dates: string[], timeZone: string) {
+  const points = Array.from({ length: 24 }, (_, hour) => {
+    const point: Record<string, number | string> = { hour: `${pad(hour)}:00` }
+    for (const date of dates) {
+      point[date] = 0
+      point[`${date}_revenue`] = 0
+    }
+    return point
+  })
+  const wanted = new Set(dates)
+  for (const s of countedSales(sales)) {
+    if (!s.sold_at) continue
+    const { date, hour } = zonedParts(s.sold_at, timeZone)
+    if (!wanted.has(date)) continue
+    const point = points[hour]
+    point[date] = (point[date] as number) + s.quantity
+    point[`${date}_revenue`] = (point[`${date}_revenue`] as number) + (s.price_inc_vat ?? 0) * s.quantity
+  }
+  return points
+}
@@ -1,6 +1,7 @@
 import { jsPDF } from 'jspdf'
 import autoTable from 'jspdf-autotable'
-import type { Festival, Sponsor, SponsorDeliverable, TicketSale, Income, Expense } from '@/types/database'
+import type { Festival, FestivalEdition, Sponsor, SponsorDeliverable, SaleLine, Income, Expense } from '@/types/database'
+import { countedSales, splitByCategory } from '@/lib/sales-utils'
 
 function fmtCurrency(amount: number, currency: string): string {
   return new Intl.NumberFormat('nb-NO', {
@@ -33,7 +34,7 @@ export function generateSponsorReportPdf(
   doc.setFontSize(12)
   doc.text('Sponsorrapport', pageWidth / 2, 28, { align: 'center' })
   doc.setFontSize(9)
-  doc.text(`Generert: ${new Date().toLocaleDateString('nb-NO')}`, pageWidth / 2, 34, {
+  doc.text(`Generert: ${new Date().toLocaleDateString('nb-NO', { timeZone: festival.timezone })}`, pageWidth / 2, 34, {
     align: 'center',
   })
 
@@ -132,7 +133,8 @@ export function generateSponsorReportPdf(
 
 export function generateAnnualReportPdf(
   festival: Festival,
-  sales: TicketSale[],
+  edition: FestivalEdition,
+  sales: SaleLine[],
   income: Income[],
   expenses: Expense[],
   sponsors: Sponsor[],
@@ -145,30 +147,31 @@ export function generateAnnualReportPdf(
   doc.setFontSize(18)
   doc.text(festival.name, pageWidth / 2, 20, { align: 'center' })
   doc.setFontSize(12)
-  doc.text('Årsrapport', pageWidth / 2, 28, { align: 'center' })
-  if (festival.start_date && festival.end_date) {
+  doc.text(`Årsrapport ${edition.name ?? edition.year}`, pageWidth / 2, 28, { align: 'center' })
+  if (edition.start_date && edition.end_date) {
     doc.setFontSize(9)
     doc.text(
-      `${fmtDate(festival.start_date)} — ${fmtDate(festival.end_date)}`,
+      `${fmtDate(edition.start_date)} — ${fmtDate(edition.end_date)}`,
       pageWidth / 2,
       34,
       { align: 'center' },
     )
   }
   doc.setFontSize(9)
-  doc.text(`Generert: ${new Date().toLocaleDateString('nb-NO')}`, pageWidth / 2, 40, {
+  doc.text(`Generert: ${new Date().toLocaleDateString('nb-NO', { timeZone: festival.timezone })}`, pageWidth / 2, 40, {
     align: 'center',
   })
 
   let y = 50
 
   // --- Section 1: Ticket sales summary ---
-  const tickets = sales.filter((s) => s.category !== 'fb')
-  const fnb = sales.filter((s) => s.category === 'fb')
+  const { tickets, fnb, other } = splitByCategory(countedSales(sales))
   const ticketQty = tickets.reduce((s, r) => s + r.quantity, 0)
   const ticketRev = tickets.reduce((s, r) => s + (r.price_inc_vat ?? 0) * r.quantity, 0)
   const fnbQty = fnb.reduce((s, r) => s + r.quantity, 0)
   const fnbRev = fnb.reduce((s, r) => s + (r.price_inc_vat ?? 0) * r.quantity, 0)
+  const otherQty = other.reduce((s, r) => s + r.quantity, 0)
+  const otherRev = other.reduce((s, r) => s + (r.price_inc_vat ?? 0) * r.quantity, 0)
 
   doc.setFontSize(11)
   doc.text('Billettsalg og F&B', 14, y)
@@ -180,7 +183,12 @@ export function generateAnnualReportPdf(
     body: [
       ['Billetter', String(ticketQty), fmtCurrency(ticketRev, currency)],
       ['Mat/drikke', String(fnbQty), fmtCurrency(fnbRev, currency)],
-      ['Totalt', String(ticketQty + fnbQty), fmtCurrency(ticketRev + fnbRev, currency)],
+      ...(other.length > 0 ? [['Annet salg', String(otherQty), fmtCurrency(otherRev, currency)]] : []),
+      [
+        'Totalt',
+        String(ticketQty + fnbQty + otherQty),
+        fmtCurrency(ticketRev + fnbRev + otherRev, currency),
+      ],
     ],
     styles: { fontSize: 9 },
     headStyles: { fillColor: [59, 130, 246] },
@@ -0,0 +1,58 @@
+import { filterByEvent, filterByOutlet } from '@/lib/sales-utils'
+import { zonedDate } from '@/lib/timezone'
+import type { SaleCategory, SaleChannel, SaleLine } from '@/types/database'
+
+// Filters for the sales page. An empty string means "all"; dates are the
+// festival's local dates. Saved views store the same shape as jsonb.
+
+export interface SalesFilters {
+  dateFrom: string
+  dateTo: string
+  ticketType: string
+  channel: SaleChannel | ''
+  category: SaleCategory | ''
+  outletId: string
+  eventId: string
+}
+
+export const EMPTY_FILTERS: SalesFilters = {
+  dateFrom: '',
+  dateTo: '',
+  ticketType: '',
+  channel: '',
+  category: '',
+  outletId: '',
+  eventId: '',
+}
+
+export function isFiltered(filters: SalesFilters) {
+  return Object.values(filters).some((value) => value !== '')
+}
+
+export function applySalesFilters<T extends SaleLine>(sales: T[], filters: Partial<SalesFilters>, timeZone: string) {
+  const { dateFrom, dateTo, ticketType, channel, category, outletId = '', eventId = '' } = filters
+  return filterByOutlet(filterByEvent(sales, eventId), outletId).filter((s) => {
+    if (ticketType && s.ticket_type !== ticketType) return false
+    // Sales without a channel or category count as web tickets, as in the charts
+    if (channel && (s.sale_channel ?? 'web') !== channel) return false
+    if (category && (s.category ?? 'ticket') !== category) return false
+    if (dateFrom || dateTo) {
+      if (!s.sold_at) return false
+      const date = zonedDate(s.sold_at, timeZone)
+      if (dateFrom && date < dateFrom) return false
+      if (dateTo && date > dateTo) return false
+    }
+    return true
+  })
+}
+
+/** A saved view's filters; unknown keys are dropped so older views keep loading */
+export function parseSavedFilters(value: unknown): SalesFilters {
+  const filters = { ...EMPTY_FILTERS }
+  if (!value || typeof value !== 'object') return filters
+  for (const key of Object.keys(EMPTY_FILTERS) as (keyof SalesFilters)[]) {
+    const v = (value as Record<string, unknown>)[key]
+    if (typeof v === 'string') (filters as Record<keyof SalesFilters, string>)[key] = v
+  }
+  return filters
+}
@@ -0,0 +1,269 @@
+import { readSheet } from 'read-excel-file/browser'
+import { zonedTimeToUtc } from '@/lib/timezone'
+import type { SaleCategory, SaleChannel } from '@/types/database'
+
+// Manual import of ticket sales from CSV/XLSX (door-sale POS exports,
+// TicketCo outages). Rows are keyed by a hash of their content so importing
+// the same file twice is a no-op.
+
+export const IMPORT_FIELDS = [
+  { field: 'ticket_type', required: true },
+  { field: 'quantity', required: true },
+  { field: 'price_inc_vat', required: true },
+  { field: 'vat_rate', required: false },
+  { field: 'sold_at', required: true },
+  { field: 'sale_channel', required: false },
+  { field: 'sales_point', required: false },
+] as const
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]['field']
+
+/** Column index in the file for each field, or null when not mapped */
+export type ColumnMapping = Record<ImportField, number | null>
+
+export interface ImportSheet {
+  headers: string[]
+  rows: string[][]
+}
+
+export interface ImportedSale {
+  external_id: string
+  ticket_type: string
+  category: SaleCategory
+  quantity: number
+  price_ex_vat: number
+  vat_rate: number
+  vat_amount: number
+  price_inc_vat: number
+  sale_channel: SaleChannel
+  sales_point: string | null
+  sold_at: string
+  is_reversal: boolean
+}
+
+export interface ImportRowError {
+  /** 1-based row number in the file, header included */
+  row: number
+  field: ImportField
+  value: string
+}
+
+// Header names we recognise when suggesting a mapping (nb/nn/en)
+const HEADER_HINTS: Record<ImportField, string[]> = {
+  ticket_type: ['billettype', 'billetttype', 'ticket type', 'ticket_type', 'produkt', 'product', 'vare', 'tittel', 'title'],
+  quantity: ['antall', 'tal', 'quantity', 'qty', 'stk'],
+  price_inc_vat: ['pris inkl. mva', 'pris inkl mva', 'pris', 'price', 'price_inc_vat', 'beløp', 'amount'],
+  vat_rate: ['mva-sats', 'mva sats', 'mva', 'vat', 'vat_rate', 'vat rate'],
+  sold_at: ['dato', 'tidspunkt', 'date', 'sold_at', 'sold at', 'tid', 'time'],
+  sale_channel: ['salgskanal', 'salskanal', 'kanal', 'channel', 'sale_channel'],
+  sales_point: ['salgssted', 'salsstad', 'utsalgssted', 'kasse', 'bar', 'sales point', 'sales_point', 'outlet'],
+}
+
+// --- Reading files ---
+
+export async function readImportFile(file: File): Promise<ImportSheet> {
+  const isExcel = /\.xlsx$/i.test(file.name)
+  const table = isExcel
+    ? (await readSheet(file)).map((row) => row.map(cellToString))
+    : parseCsv(await file.text())
+
+  const nonEmpty = table.filter((row) => row.some((cell) => cell.trim() !== ''))
+  const [headers = [], ...rows] = nonEmpty
+  return { headers: headers.map((h) => h.trim()), rows }
+}
+
+// Excel stores dates without a zone, and read-excel-file returns them as UTC
+// dates holding the wall-clock time. Written out without an offset, parseDate
+// reads them as festival time like the text formats.
+function cellToString(cell: unknown): string {
+  if (cell === null || cell === undefined) return ''
+  if (cell instanceof Date) return cell.toISOString().slice(0, 19).replace('T', ' ')
+  return String(cell)
+}
+
+/** Minimal RFC 4180 parser; detects `;` (Norwegian Excel) or `,` as delimiter */
+export function parseCsv(text: string): string[][] {
+  const clean = text.replace(/^\uFEFF/, '')
+  const firstLine = clean.slice(0, clean.indexOf('\n') === -1 ? undefined : clean.indexOf('\n'))
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ','
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < clean.length; i++) {
+    const ch = clean[i]
+    if (inQuotes) {
+      if (ch === '"' && clean[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        inQuotes = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && clean[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map((h) => h.toLowerCase().trim())
+  const mapping = {} as ColumnMapping
+  for (const { field } of IMPORT_FIELDS) {
+    const idx = normalized.findIndex((h) => HEADER_HINTS[field].includes(h))
+    mapping[field] = idx === -1 ? null : idx
+  }
+  return mapping
+}
+
+// --- Parsing values ---
+
+/** Accepts `1 234,50`, `1.234,50`, `1234.50` and `kr 1 234,-` */
+export function parseNumber(raw: string): number | null {
+  // \s covers the no-break spaces Excel uses as thousands separators
+  let cleaned = raw.replace(/kr|nok|,-/gi, '').replace(/\s/g, '')
+  // The last separator is the decimal one when it is a comma (`1.234,50`) or
+  // follows a comma (`1,234.50`); the others separate thousands
+  const lastComma = cleaned.lastIndexOf(',')
+  const dots = cleaned.match(/\./g)?.length ?? 0
+  if (lastComma !== -1 && cleaned.lastIndexOf('.') > lastComma) cleaned = cleaned.replace(/,/g, '')
+  else if (lastComma !== -1 || dots > 1) cleaned = cleaned.replace(/\./g, '').replace(',', '.')
+  if (cleaned === '') return null
+  const n = Number(cleaned)
+  return Number.isFinite(n) ? n : null
+}
+
+/** `25%`, `25` and `0.25` all mean 25 % VAT */
+function parseVatRate(raw: string): number | null {
+  const n = parseNumber(raw.replace('%', ''))
+  if (n === null) return null
+  const rate = n > 1 ? n / 100 : n
+  return rate >= 0 && rate < 1 ? rate : null
+}
+
+/**
+ * ISO timestamps or Norwegian `dd.mm.yyyy [hh:mm]`. Dates and times
+ * without an offset are wall-clock times in the festival's time zone.
+ */
+export function parseDate(raw: string, timeZone: string): string | null {
+  const value = raw.trim()
+  const nb = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:[ T](\d{1,2}):(\d{2}))?/)
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/)
+  if (nb || iso) {
+    const [y, m, d, hh = '0', mm = '0'] = nb ? [nb[3], nb[2], nb[1], nb[4], nb[5]] : iso!.slice(1)
+    const date = `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`
+    if (Number.isNaN(Date.parse(`${date}T00:00Z`))) return null
+    return zonedTimeToUtc(date, Number(hh), Number(mm), timeZone).toISOString()
+  }
+  const date = new Date(value)
+  return value && !Number.isNaN(date.getTime()) ? date.toISOString() : null
+}
+
+function parseChannel(raw: string): SaleChannel {
+  return /^(web|nett|online|internett?)$/i.test(raw.trim()) ? 'web' : 'pos'
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Validates and converts mapped rows. Rows with errors are left out of
+ * `sales`; every failing cell is reported in `errors`.
+ */
+export async function buildImport(
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  category: SaleCategory,
+  defaultVatRate: number,
+  timeZone: string,
+): Promise<{ sales: ImportedSale[]; errors: ImportRowError[] }> {
+  const sales: ImportedSale[] = []
+  const errors: ImportRowError[] = []
+  // Identical rows (two beers at the same minute) are legitimate separate
+  // sales, so the key includes how many times the same content was seen.
+  const seen = new Map<string, number>()
+
+  for (const [i, row] of sheet.rows.entries()) {
+    const rowNumber = i + 2
+    const cell = (field: ImportField) => {
+      const idx = mapping[field]
+      return idx === null ? '' : (row[idx] ?? '').trim()
+    }
+    const fail = (field: ImportField) => errors.push({ row: rowNumber, field, value: cell(field) })
+    const errorCount = errors.length
+
+    const ticketType = cell('ticket_type')
+    if (!ticketType) fail('ticket_type')
+
+    const quantity = parseNumber(cell('quantity'))
+    if (quantity === null || !Number.isInteger(quantity) || quantity === 0) fail('quantity')
+
+    const priceIncVat = parseNumber(cell('price_inc_vat'))
+    if (priceIncVat === null) fail('price_inc_vat')
+
+    const vatRate = mapping.vat_rate === null || cell('vat_rate') === ''
+      ? defaultVatRate
+      : parseVatRate(cell('vat_rate'))
+    if (vatRate === null) fail('vat_rate')
+
+    const soldAt = parseDate(cell('sold_at'), timeZone)
+    if (!soldAt) fail('sold_at')
+
+    if (errors.length > errorCount) continue
+
+    const channel = mapping.sale_channel === null ? 'pos' : parseChannel(cell('sale_channel'))
+    // Negative quantity or price = refund, stored like TicketCo reversals
+    const isReversal = quantity! < 0 || priceIncVat! < 0
+    const price = Math.abs(priceIncVat!)
+    const priceExVat = price / (1 + vatRate!)
+
+    const salesPoint = cell('sales_point') || null
+    // The sales point only joins the key when present, so files imported
+    // before it was a field keep their hashes
+    const content = [ticketType, quantity, priceIncVat, vatRate, soldAt, channel, category]
+      .concat(salesPoint ? [salesPoint] : [])
+      .join('|')
+    const occurrence = (seen.get(content) ?? 0) + 1
+    seen.set(content, occurrence)
+
+    sales.push({
+      external_id: await sha256(`${content}#${occurrence}`),
+      ticket_type: ticketType,
+      category,
+      quantity: isReversal ? -Math.abs(quantity!) : quantity!,
+      price_ex_vat: Math.round(priceExVat * 100) / 100,
+      vat_rate: vatRate!,
+      vat_amount: Math.round((price - priceExVat) * 100) / 100,
+      price_inc_vat: price,
+      sale_channel: channel,
+      sales_point: salesPoint,
+      sold_at: soldAt!,
+      is_reversal: isReversal,
+    })
+  }
+
+  return { sales, errors }
+}
@@ -0,0 +1,98 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { NO_OUTLET } from '@/lib/sales-utils'
+import { startOfZonedDay, zonedTimeToUtc } from '@/lib/timezone'
+import type { SalesFilters } from '@/lib/sales-filters'
+import type { TicketSale } from '@/types/database'
+
+// Individual ticket_sales rows, for the views that list lines (drill-down,
+// recent activity, line-level CSV exports). Charts and totals come from
+// useSalesSummary(); these queries apply the same filters in the database.
+
+/** Categories as splitByCategory() groups them */
+export type SaleGroup = 'tickets' | 'fnb' | 'other' | 'all'
+
+const PAGE_SIZE = 1000
+
+/**
+ * Counted sales of an edition matching the filters. Like
+ * applySalesFilters(), lines without a channel or category count as web
+ * tickets and dates are the festival's local dates.
+ */
+function filteredSaleRows(
+  festivalId: string,
+  editionId: string,
+  filters: Partial<SalesFilters>,
+  group: SaleGroup,
+  timeZone: string,
+  withCount = false,
+) {
+  const { dateFrom, dateTo, ticketType, channel, category, outletId, eventId } = filters
+  let query = supabase
+    .from('ticket_sales')
+    .select('*', withCount ? { count: 'exact' } : undefined)
+    .eq('festival_id', festivalId)
+    .eq('edition_id', editionId)
+    .is('voided_at', null)
+
+  // Conditions that have to match null as well are or-groups, combined in one and()
+  const groups: string[] = []
+  if (group === 'tickets' || category === 'ticket') groups.push('or(category.eq.ticket,category.is.null)')
+  if (group === 'fnb') query = query.eq('category', 'fb')
+  if (group === 'other') query = query.not('category', 'in', '(ticket,fb)')
+  if (category && category !== 'ticket') query = query.eq('category', category)
+  if (channel === 'web') groups.push('or(sale_channel.eq.web,sale_channel.is.null)')
+  if (channel === 'pos') query = query.eq('sale_channel', 'pos')
+  if (groups.length > 0) query = query.or(`and(${groups.join(',')})`)
+
+  if (ticketType) query = query.eq('ticket_type', ticketType)
+  if (eventId) query = query.eq('event_id', eventId)
+  if (outletId) query = outletId === NO_OUTLET ? query.is('outlet_id', null) : query.eq('outlet_id', outletId)
+  if (dateFrom) query = query.gte('sold_at', startOfZonedDay(dateFrom, timeZone).toISOString())
+  if (dateTo) query = query.lt('sold_at', zonedTimeToUtc(dateTo, 24, 0, timeZone).toISOString())
+
+  return query
+}
+
+/**
+ * The matching rows newest first, to page through with range(). With
+ * withCount the response carries the total number of matching rows.
+ */
+export function saleRowsQuery(
+  festivalId: string,
+  editionId: string,
+  filters: Partial<SalesFilters>,
+  group: SaleGroup,
+  timeZone: string,
+  withCount = false,
+) {
+  return filteredSaleRows(festivalId, editionId, filters, group, timeZone, withCount)
+    .order('sold_at', { ascending: false, nullsFirst: false })
+    .order('id')
+}
+
+/**
+ * Every matching row, oldest first. Pages follow the row id, so rows that
+ * come in meanwhile cannot push rows onto the next page twice or past it.
+ * A failed page fails the whole load, so exports never get part of the rows.
+ */
+export async function fetchSaleRows(
+  festivalId: string,
+  editionId: string,
+  filters: Partial<SalesFilters>,
+  group: SaleGroup,
+  timeZone: string,
+): Promise<{ data: TicketSale[] | null; error: PostgrestError | null }> {
+  const rows: TicketSale[] = []
+  for (let lastId: string | null = null; ; ) {
+    let query = filteredSaleRows(festivalId, editionId, filters, group, timeZone)
+    if (lastId) query = query.gt('id', lastId)
+    const { data, error } = await query.order('id').limit(PAGE_SIZE)
+    if (error) return { data: null, error }
+    rows.push(...data)
+    if (data.length < PAGE_SIZE) break
+    lastId = data[data.length - 1].id
+  }
+  const time = (row: TicketSale) => row.sold_at ?? ''
+  return { data: rows.sort((a, b) => time(a).localeCompare(time(b))), error: null }
+}
@@ -0,0 +1,172 @@
+import { applySalesFilters, type SalesFilters } from '@/lib/sales-filters'
+import { startOfZonedDay, zonedDate } from '@/lib/timezone'
+import type {
+  SaleLine,
+  SalesSummaryDimension,
+  SalesSummaryResult,
+  SalesSummaryRow,
+  TicketSale,
+} from '@/types/database'
+
+// Client side of public.sales_summary(). Each dimension's groups are kept
+// in a map so new sales from realtime can be added one line at a time, and
+// are handed to the sales aggregations as SaleLines: a group reads as one
+// line with the group's quantity, its average unit prices and only the
+// fields the dimension groups by.
+
+const QUARTER_HOUR_MS = 15 * 60 * 1000
+
+export const SUMMARY_DIMENSIONS: SalesSummaryDimension[] = [
+  'by_time',
+  'by_date_type',
+  'by_channel',
+  'by_vat',
+  'by_outlet',
+]
+
+export type SummaryBuckets = Record<SalesSummaryDimension, Map<string, SalesSummaryRow>>
+
+/** The summary as sale lines per dimension, and the edition's ticket types */
+export type SalesSummary = Record<SalesSummaryDimension, SaleLine[]> & { ticketTypes: string[] }
+
+export const EMPTY_SUMMARY: SalesSummary = {
+  by_time: [],
+  by_date_type: [],
+  by_channel: [],
+  by_vat: [],
+  by_outlet: [],
+  ticketTypes: [],
+}
+
+type GroupLine = Pick<SalesSummaryRow, 'sold_at' | 'ticket_type' | 'sale_channel' | 'outlet_id' | 'vat_rate'> &
+  Pick<SaleLine, 'category' | 'is_reversal'>
+
+/** Start of the quarter hour, as date_bin() in the migration */
+function quarterHour(soldAt: string | null) {
+  if (!soldAt) return null
+  return new Date(Math.floor(Date.parse(soldAt) / QUARTER_HOUR_MS) * QUARTER_HOUR_MS).toISOString()
+}
+
+/** A line reduced to the fields the dimension groups by, in the summary's format */
+function groupOf(dimension: SalesSummaryDimension, line: GroupLine, timeZone: string): SalesSummaryRow {
+  const group: SalesSummaryRow = {
+    category: line.category,
+    is_reversal: line.is_reversal,
+    quantity: 0,
+    total_ex_vat: null,
+    total_vat: null,
+    total_inc_vat: null,
+  }
+  const soldAt = line.sold_at ?? null
+  if (dimension === 'by_time') group.sold_at = quarterHour(soldAt)
+  if (dimension === 'by_date_type') {
+    group.sold_at = soldAt && startOfZonedDay(zonedDate(soldAt, timeZone), timeZone).toISOString()
+    group.ticket_type = line.ticket_type
+  }
+  if (dimension === 'by_channel') group.sale_channel = line.sale_channel ?? null
+  if (dimension === 'by_vat') group.vat_rate = line.vat_rate ?? null
+  if (dimension === 'by_outlet') {
+    group.outlet_id = line.outlet_id ?? null
+    group.ticket_type = line.ticket_type
+  }
+  return group
+}
+
+function groupKey(group: SalesSummaryRow) {
+  return [
+    group.sold_at ?? '',
+    group.ticket_type ?? '',
+    group.sale_channel ?? '',
+    group.outlet_id ?? '',
+    group.vat_rate ?? '',
+    group.category ?? '',
+    group.is_reversal,
+  ].join('|')
+}
+
+function totals(row: SalesSummaryRow) {
+  const { quantity, total_ex_vat, total_vat, total_inc_vat } = row
+  return { quantity, total_ex_vat, total_vat, total_inc_vat }
+}
+
+export function summaryBuckets(result: SalesSummaryResult, timeZone: string): SummaryBuckets {
+  const buckets = {} as SummaryBuckets
+  for (const dimension of SUMMARY_DIMENSIONS) {
+    // Regrouped so timestamps have the format realtime lines get, and match alike
+    buckets[dimension] = new Map(
+      result[dimension].map((row) => {
+        const group = { ...groupOf(dimension, row, timeZone), ...totals(row) }
+        return [groupKey(group), group]
+      }),
+    )
+  }
+  return buckets
+}
+
+/** A sale line added to a dimension's group */
+function addLine(
+  buckets: Map<string, SalesSummaryRow>,
+  dimension: SalesSummaryDimension,
+  sale: TicketSale,
+  timeZone: string,
+) {
+  const fresh = groupOf(dimension, sale, timeZone)
+  const key = groupKey(fresh)
+  const bucket = buckets.get(key) ?? fresh
+  const add = (total: number | null, unit: number | null) =>
+    unit === null ? total : (total ?? 0) + unit * sale.quantity
+  bucket.quantity += sale.quantity
+  bucket.total_ex_vat = add(bucket.total_ex_vat, sale.price_ex_vat)
+  bucket.total_vat = add(bucket.total_vat, sale.vat_amount)
+  bucket.total_inc_vat = add(bucket.total_inc_vat, sale.price_inc_vat)
+  if (bucket.quantity === 0) buckets.delete(key)
+  else buckets.set(key, bucket)
+}
+
+/**
+ * Adds an inserted ticket_sales row to the buckets. Rows of other editions,
+ * voided rows and rows outside the filters are not counted. The outlet
+ * groups leave the outlet filter out, like the database does.
+ */
+export function addSale(
+  buckets: SummaryBuckets,
+  sale: TicketSale,
+  editionId: string,
+  filters: Partial<SalesFilters>,
+  timeZone: string,
+) {
+  if (sale.edition_id !== editionId || sale.voided_at) return
+  for (const dimension of SUMMARY_DIMENSIONS) {
+    const dimensionFilters = dimension === 'by_outlet' ? { ...filters, outletId: '' } : filters
+    if (applySalesFilters([sale], dimensionFilters, timeZone).length === 0) continue
+    addLine(buckets[dimension], dimension, sale, timeZone)
+  }
+}
+
+/** The buckets as sale lines, oldest first */
+export function summaryLines(buckets: SummaryBuckets, ticketTypes: string[]): SalesSummary {
+  const summary = { ticketTypes } as SalesSummary
+  for (const dimension of SUMMARY_DIMENSIONS) {
+    summary[dimension] = Array.from(buckets[dimension].values())
+      .map((row) => {
+        const unit = (total: number | null) => (total === null ? null : total / row.quantity)
+        return {
+          event_id: null,
+          ticket_type: row.ticket_type ?? '',
+          category: row.category,
+          quantity: row.quantity,
+          price_ex_vat: unit(row.total_ex_vat),
+          vat_rate: row.vat_rate ?? null,
+          vat_amount: unit(row.total_vat),
+          price_inc_vat: unit(row.total_inc_vat),
+          sale_channel: row.sale_channel ?? null,
+          outlet_id: row.outlet_id ?? null,
+          sold_at: row.sold_at ?? null,
+          is_reversal: row.is_reversal,
+          voided_at: null,
+        }
+      })
+      .sort((a, b) => (a.sold_at ?? '').localeCompare(b.sold_at ?? ''))
+  }
+  return summary
+}
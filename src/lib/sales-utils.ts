@@ -1,10 +1,38 @@
-import type { TicketSale } from '@/types/database'
+import { todayIn, zonedDate } from '@/lib/timezone'
+import type { Outlet, SaleCategory, SaleLine } from '@/types/database'
 
-export function groupByDate(sales: TicketSale[]) {
+/** Sales that count towards revenue: voided orders are dropped, reversal rows stay and net out */
+export function countedSales<T extends SaleLine>(sales: T[]) {
+  return sales.filter((s) => !s.voided_at)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Whole days from a to b, both YYYY-MM-DD */
+export function daysBetween(a: string, b: string) {
+  return Math.round((Date.parse(`${b}T00:00Z`) - Date.parse(`${a}T00:00Z`)) / DAY_MS)
+}
+
+/** Sales of one integration event; an empty id keeps every sale, imports included */
+export function filterByEvent<T extends SaleLine>(sales: T[], eventId: string) {
+  return eventId ? sales.filter((s) => s.event_id === eventId) : sales
+}
+
+/** Outlet filter value for sales that belong to no outlet (web sales, unknown tills) */
+export const NO_OUTLET = 'none'
+
+/** Sales of one outlet; an empty id keeps every sale */
+export function filterByOutlet<T extends SaleLine>(sales: T[], outletId: string) {
+  if (!outletId) return sales
+  return sales.filter((s) => (outletId === NO_OUTLET ? s.outlet_id === null : s.outlet_id === outletId))
+}
+
+/** Daily totals by the festival's local date */
+export function groupByDate(sales: SaleLine[], timeZone: string) {
   const map = new Map<string, { date: string; tickets: number; revenue: number }>()
-  for (const s of sales) {
+  for (const s of countedSales(sales)) {
     if (!s.sold_at) continue
-    const date = s.sold_at.slice(0, 10)
+    const date = zonedDate(s.sold_at, timeZone)
     const existing = map.get(date) ?? { date, tickets: 0, revenue: 0 }
     existing.tickets += s.quantity
     existing.revenue += (s.price_inc_vat ?? 0) * s.quantity
@@ -13,9 +41,9 @@ export function groupByDate(sales: TicketSale[]) {
   return Array.from(map.values()).sort((a, b) => a.date.localeCompare(b.date))
 }
 
-export function groupByType(sales: TicketSale[]) {
+export function groupByType(sales: SaleLine[]) {
   const map = new Map<string, { type: string; tickets: number; revenue: number }>()
-  for (const s of sales) {
+  for (const s of countedSales(sales)) {
     const type = s.ticket_type
     const existing = map.get(type) ?? { type, tickets: 0, revenue: 0 }
     existing.tickets += s.quantity
@@ -25,9 +53,9 @@ export function groupByType(sales: TicketSale[]) {
   return Array.from(map.values()).sort((a, b) => b.tickets - a.tickets)
 }
 
-export function groupByChannel(sales: TicketSale[]) {
+export function groupByChannel(sales: SaleLine[]) {
   const map = new Map<string, { channel: string; tickets: number; revenue: number }>()
-  for (const s of sales) {
+  for (const s of countedSales(sales)) {
     const channel = s.sale_channel ?? 'web'
     const existing = map.get(channel) ?? { channel, tickets: 0, revenue: 0 }
     existing.tickets += s.quantity
@@ -37,50 +65,104 @@ export function groupByChannel(sales: TicketSale[]) {
   return Array.from(map.values())
 }
 
-export function computeForecast(
-  dailySales: { date: string; tickets: number }[],
-  festivalStartDate: string | null,
-) {
-  if (dailySales.length < 2 || !festivalStartDate) return null
+/**
+ * Provider title → catalogue entry id, matched on the entry's name or one
+ * of its external_titles, ignoring case. The first entry in order wins.
+ */
+export function titleLookup(entries: { id: string; name: string; external_titles: string[] }[]) {
+  const lookup = new Map<string, string>()
+  for (const entry of entries) {
+    for (const title of [entry.name, ...entry.external_titles]) {
+      const key = normalizeTitle(title)
+      if (key && !lookup.has(key)) lookup.set(key, entry.id)
+    }
+  }
+  return lookup
+}
+
+export function normalizeTitle(title: string) {
+  return title.trim().toLowerCase()
+}
 
-  const totalDays = dailySales.length
-  const totalTickets = dailySales.reduce((sum, d) => sum + d.tickets, 0)
-  const avgPerDay = totalTickets / totalDays
+/** Sales point or device name → outlet id, matched like titleLookup() */
+export function outletLookup(outlets: Outlet[]) {
+  return titleLookup(outlets.map((o) => ({ id: o.id, name: o.name, external_titles: o.sales_points })))
+}
 
-  const today = new Date()
-  const festivalDate = new Date(festivalStartDate)
-  const daysUntilFestival = Math.max(
-    0,
-    Math.ceil((festivalDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)),
+/**
+ * Outlet id for a sale line: its sales point is tried before its device.
+ * Mirrors public.apply_sale_outlets(), for rows that do not come through sync.
+ */
+export function resolveOutlet(
+  lookup: Map<string, string>,
+  salesPoint: string | null,
+  posDevice: string | null,
+) {
+  return (
+    (salesPoint && lookup.get(normalizeTitle(salesPoint))) ||
+    (posDevice && lookup.get(normalizeTitle(posDevice))) ||
+    null
   )
+}
 
-  return {
-    currentTotal: totalTickets,
-    avgPerDay: Math.round(avgPerDay),
-    projectedTotal: Math.round(totalTickets + avgPerDay * daysUntilFestival),
-    daysUntilFestival,
+export interface OutletTotals {
+  /** Null for sales without an outlet */
+  outletId: string | null
+  name: string | null
+  quantity: number
+  revenue: number
+  /** Revenue split like splitByCategory() */
+  byCategory: Record<'tickets' | 'fnb' | 'other', number>
+}
+
+/** Units and revenue per outlet in sort order, sales without an outlet last */
+export function groupByOutlet(sales: SaleLine[], outlets: Outlet[]) {
+  const names = new Map(outlets.map((o) => [o.id, o.name]))
+  const map = new Map<string, OutletTotals>()
+  for (const s of countedSales(sales)) {
+    const outletId = s.outlet_id !== null && names.has(s.outlet_id) ? s.outlet_id : null
+    const key = outletId ?? ''
+    const existing = map.get(key) ?? {
+      outletId,
+      name: outletId ? names.get(outletId)! : null,
+      quantity: 0,
+      revenue: 0,
+      byCategory: { tickets: 0, fnb: 0, other: 0 },
+    }
+    const revenue = (s.price_inc_vat ?? 0) * s.quantity
+    const group = s.category === 'fb' ? 'fnb' : s.category === 'ticket' || s.category === null ? 'tickets' : 'other'
+    existing.quantity += s.quantity
+    existing.revenue += revenue
+    existing.byCategory[group] += revenue
+    map.set(key, existing)
   }
+  const position = (row: OutletTotals) => (row.outletId ? outlets.findIndex((o) => o.id === row.outletId) : outlets.length)
+  return Array.from(map.values()).sort((a, b) => position(a) - position(b))
 }
 
-export function splitByCategory(sales: TicketSale[]) {
+export const SALE_CATEGORIES: SaleCategory[] = ['ticket', 'fb', 'merch', 'camping', 'parking', 'donation']
+
+/** Tickets (uncategorised rows count as tickets), F&B, and everything else */
+export function splitByCategory<T extends SaleLine>(sales: T[]) {
   return {
-    tickets: sales.filter((s) => s.category !== 'fb'),
+    tickets: sales.filter((s) => s.category === 'ticket' || s.category === null),
     fnb: sales.filter((s) => s.category === 'fb'),
+    other: sales.filter((s) => s.category !== null && s.category !== 'ticket' && s.category !== 'fb'),
   }
 }
 
-export function totalStats(sales: TicketSale[]) {
+export function totalStats(sales: SaleLine[], timeZone: string) {
   let totalTickets = 0
   let totalRevenue = 0
   let totalVat = 0
-  const today = new Date().toISOString().slice(0, 10)
+  const today = todayIn(timeZone)
   let todayTickets = 0
 
-  for (const s of sales) {
+  for (const s of countedSales(sales)) {
     totalTickets += s.quantity
     totalRevenue += (s.price_inc_vat ?? 0) * s.quantity
     totalVat += (s.vat_amount ?? 0) * s.quantity
-    if (s.sold_at?.startsWith(today)) {
+    if (s.sold_at && zonedDate(s.sold_at, timeZone) === today) {
       todayTickets += s.quantity
     }
   }
@@ -0,0 +1,98 @@
+import { countedSales, normalizeTitle, titleLookup } from '@/lib/sales-utils'
+import type { SaleLine, TicketType } from '@/types/database'
+
+// Sold against quota per catalogued ticket type. Sales carry the
+// provider's title in ticket_type; a type claims the sales whose title
+// equals its name or one of its external_titles, ignoring case.
+
+export type QuotaStatus = 'ok' | 'warning' | 'soldOut' | 'oversold'
+
+export type SaleWindowStatus = 'upcoming' | 'onSale' | 'ended'
+
+export interface TicketTypeInventory {
+  ticketType: TicketType
+  sold: number
+  revenue: number
+  /** Null when the type has no quota */
+  remaining: number | null
+  sellThrough: number | null
+  status: QuotaStatus
+  window: SaleWindowStatus
+}
+
+export interface TicketInventory {
+  types: TicketTypeInventory[]
+  /** Titles sold that no catalogued type claims */
+  unmapped: { title: string; sold: number }[]
+  sold: number
+  /** Sum of quotas, or null if any type has none */
+  quotaTotal: number | null
+  capacity: number | null
+  capacityRemaining: number | null
+  capacitySellThrough: number | null
+}
+
+export function quotaStatus(sold: number, quota: number | null, warnAt: number): QuotaStatus {
+  if (quota === null) return 'ok'
+  if (sold > quota) return 'oversold'
+  if (sold === quota) return 'soldOut'
+  return quota > 0 && sold / quota >= warnAt ? 'warning' : 'ok'
+}
+
+export function saleWindowStatus(type: TicketType, now = new Date()): SaleWindowStatus {
+  if (type.sale_start && new Date(type.sale_start) > now) return 'upcoming'
+  if (type.sale_end && new Date(type.sale_end) < now) return 'ended'
+  return 'onSale'
+}
+
+/** Ticket sales (category 'ticket') per catalogued type, with capacity totals */
+export function computeTicketInventory(
+  types: TicketType[],
+  tickets: SaleLine[],
+  capacity: number | null,
+  now = new Date(),
+): TicketInventory {
+  const lookup = titleLookup(types)
+  const byType = new Map<string, { sold: number; revenue: number }>()
+  const unmapped = new Map<string, number>()
+  let sold = 0
+
+  for (const s of countedSales(tickets)) {
+    sold += s.quantity
+    const typeId = lookup.get(normalizeTitle(s.ticket_type))
+    if (!typeId) {
+      unmapped.set(s.ticket_type, (unmapped.get(s.ticket_type) ?? 0) + s.quantity)
+      continue
+    }
+    const entry = byType.get(typeId) ?? { sold: 0, revenue: 0 }
+    entry.sold += s.quantity
+    entry.revenue += (s.price_inc_vat ?? 0) * s.quantity
+    byType.set(typeId, entry)
+  }
+
+  const rows = types.map((ticketType) => {
+    const { sold: typeSold, revenue } = byType.get(ticketType.id) ?? { sold: 0, revenue: 0 }
+    const quota = ticketType.quota
+    return {
+      ticketType,
+      sold: typeSold,
+      revenue,
+      remaining: quota === null ? null : quota - typeSold,
+      sellThrough: quota ? typeSold / quota : null,
+      status: quotaStatus(typeSold, quota, ticketType.warn_at),
+      window: saleWindowStatus(ticketType, now),
+    }
+  })
+
+  return {
+    types: rows,
+    unmapped: Array.from(unmapped, ([title, n]) => ({ title, sold: n })).sort((a, b) => b.sold - a.sold),
+    sold,
+    quotaTotal: types.length > 0 && types.every((t) => t.quota !== null)
+      ? types.reduce((sum, t) => sum + (t.quota ?? 0), 0)
+      : null,
+    capacity,
+    capacityRemaining: capacity === null ? null : capacity - sold,
+    capacitySellThrough: capacity ? sold / capacity : null,
+  }
+}
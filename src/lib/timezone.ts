@@ -0,0 +1,85 @@
+// Wall-clock time in the festival's time zone. Sales are stored as UTC
+// timestamps; bucketing them by the browser's zone (or by slicing the
+// ISO string) moves late-night sales to the wrong day and hour.
+
+export const DEFAULT_TIMEZONE = 'Europe/Oslo'
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+export interface ZonedParts {
+  /** YYYY-MM-DD */
+  date: string
+  hour: number
+  minute: number
+  /** 0 = Monday … 6 = Sunday */
+  weekday: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatter(timeZone: string) {
+  let f = formatters.get(timeZone)
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    })
+    formatters.set(timeZone, f)
+  }
+  return f
+}
+
+export function zonedParts(value: string | Date, timeZone: string): ZonedParts {
+  const d = typeof value === 'string' ? new Date(value) : value
+  const parts: Record<string, string> = {}
+  for (const { type, value: v } of formatter(timeZone).formatToParts(d)) parts[type] = v
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  }
+}
+
+/** YYYY-MM-DD in the given time zone */
+export function zonedDate(value: string | Date, timeZone: string) {
+  return zonedParts(value, timeZone).date
+}
+
+/** Today's date in the given time zone */
+export function todayIn(timeZone: string) {
+  return zonedDate(new Date(), timeZone)
+}
+
+/** UTC instant of a wall-clock time (date YYYY-MM-DD) in the given time zone */
+export function zonedTimeToUtc(date: string, hour: number, minute: number, timeZone: string) {
+  const wall = Date.parse(`${date}T00:00Z`) + (hour * 60 + minute) * 60 * 1000
+  // Offset of the zone at an instant: its wall clock read as UTC, minus the instant
+  const offset = (instant: number) => {
+    const p = zonedParts(new Date(instant), timeZone)
+    return Date.parse(`${p.date}T00:00Z`) + (p.hour * 60 + p.minute) * 60 * 1000 - instant
+  }
+  // Twice, so a wall time just after a DST change picks up the new offset
+  const first = wall - offset(wall)
+  return new Date(wall - offset(first))
+}
+
+/** UTC instant at which the date begins in the given time zone */
+export function startOfZonedDay(date: string, timeZone: string) {
+  return zonedTimeToUtc(date, 0, 0, timeZone)
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,109 @@
+import JSZip from 'jszip'
+import { supabase } from '@/lib/supabase'
+import { downloadBlob, escapeCsv } from '@/lib/export-csv'
+import type { EconomyAttachment, Expense, Income } from '@/types/database'
+
+// Receipts and invoices on income and expense entries. Files live in the
+// private vouchers bucket and are opened through signed URLs.
+
+export const VOUCHER_BUCKET = 'vouchers'
+export const VOUCHER_TYPES = ['application/pdf', 'image/jpeg', 'image/png']
+export const MAX_VOUCHER_BYTES = 10 * 1024 * 1024
+
+export type VoucherTable = 'income' | 'expenses'
+
+/** Letters, digits, dot, dash and underscore only, as storage object names allow */
+function safeFileName(name: string) {
+  return name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w.-]+/g, '_')
+}
+
+/** Object name for a new upload; the first folder is the festival, as the storage policies expect */
+export function voucherPath(festivalId: string, table: VoucherTable, entryId: string, fileName: string) {
+  return `${festivalId}/${table}/${entryId}/${crypto.randomUUID()}-${safeFileName(fileName)}`
+}
+
+/** Attachments per income or expense id */
+export function attachmentsByEntry(attachments: EconomyAttachment[]) {
+  const map = new Map<string, EconomyAttachment[]>()
+  for (const a of attachments) {
+    const entryId = a.income_id ?? a.expense_id!
+    map.set(entryId, [...(map.get(entryId) ?? []), a])
+  }
+  return map
+}
+
+/** Signed URL per attachment id */
+export async function signedVoucherUrls(attachments: EconomyAttachment[], expiresIn: number) {
+  const urls = new Map<string, string>()
+  if (attachments.length === 0) return urls
+  const { data } = await supabase.storage
+    .from(VOUCHER_BUCKET)
+    .createSignedUrls(
+      attachments.map((a) => a.storage_path),
+      expiresIn,
+    )
+  const byPath = new Map((data ?? []).map((d) => [d.path, d.signedUrl]))
+  for (const a of attachments) {
+    const url = byPath.get(a.storage_path)
+    if (url) urls.set(a.id, url)
+  }
+  return urls
+}
+
+/**
+ * ZIP of the vouchers on the given entries, one folder for income and one
+ * for expenses, with bilag.csv listing which file belongs to which entry.
+ * Returns the number of files in the bundle; nothing is downloaded when 0.
+ */
+export async function downloadVoucherZip(
+  income: Income[],
+  expenses: Expense[],
+  attachments: EconomyAttachment[],
+  filename: string,
+) {
+  const byEntry = attachmentsByEntry(attachments)
+  const zip = new JSZip()
+  const index = [['Type', 'Dato', 'Kategori', 'Skildring', 'Kjelde/leverandør', 'Sum inkl. MVA', 'Fil']]
+  const used = new Set<string>()
+  let count = 0
+
+  const entries = [
+    ...income.map((i) => ({ folder: 'Inntekter', type: 'Inntekt', entry: i, party: i.source })),
+    ...expenses.map((e) => ({ folder: 'Kostnader', type: 'Kostnad', entry: e, party: e.supplier })),
+  ]
+  for (const { folder, type, entry, party } of entries) {
+    for (const attachment of byEntry.get(entry.id) ?? []) {
+      const { data } = await supabase.storage.from(VOUCHER_BUCKET).download(attachment.storage_path)
+      if (!data) continue
+      // Dated names sort the folder by date; a counter keeps equal names apart
+      const base = safeFileName(`${entry.date ?? 'udatert'}_${party ?? entry.description ?? entry.category}`)
+      let name = `${folder}/${base}_${safeFileName(attachment.file_name)}`
+      for (let n = 2; used.has(name); n++) name = `${folder}/${base}_${n}_${safeFileName(attachment.file_name)}`
+      used.add(name)
+      zip.file(name, data)
+
+      const exVat = entry.amount_ex_vat ?? 0
+      index.push([
+        type,
+        entry.date ?? '',
+        escapeCsv(entry.category),
+        escapeCsv(entry.description ?? ''),
+        escapeCsv(party ?? ''),
+        (exVat + (entry.vat_amount ?? exVat * (entry.vat_rate ?? 0))).toFixed(2),
+        escapeCsv(name),
+      ])
+      count++
+    }
+  }
+
+  if (count === 0) return 0
+  zip.file('bilag.csv', '\uFEFF' + index.map((row) => row.join(',')).join('\n'))
+  downloadBlob(await zip.generateAsync({ type: 'blob' }), filename)
+  return count
+}
+
+/** Removes the files of attachments from storage; their rows go with the entry or separately */
+export async function removeVouchers(attachments: EconomyAttachment[]) {
+  if (attachments.length === 0) return
+  await supabase.storage.from(VOUCHER_BUCKET).remove(attachments.map((a) => a.storage_path))
+}
@@ -0,0 +1,149 @@
+import { countedSales, daysBetween } from '@/lib/sales-utils'
+import { zonedDate } from '@/lib/timezone'
+import type { SalesHistory, SaleLine } from '@/types/database'
+
+// Year-over-year comparison. Editions are lined up on days before their
+// festival start, so "60 days out" this year is compared with 60 days out
+// last year regardless of weekday or calendar date.
+
+export type ComparisonMetric = 'tickets' | 'revenue'
+
+export interface EditionDay {
+  days_before: number
+  ticket_type: string
+  tickets: number
+  revenue: number | null
+}
+
+export interface Edition {
+  year: number
+  current: boolean
+  days: EditionDay[]
+}
+
+/** Today's ticket sales in the same shape as sales_history */
+export function salesToEditionDays(tickets: SaleLine[], startDate: string, timeZone: string): EditionDay[] {
+  const map = new Map<string, EditionDay>()
+  for (const s of countedSales(tickets)) {
+    if (!s.sold_at) continue
+    const daysBefore = daysBetween(zonedDate(s.sold_at, timeZone), startDate)
+    const key = `${daysBefore}|${s.ticket_type}`
+    const day = map.get(key) ?? { days_before: daysBefore, ticket_type: s.ticket_type, tickets: 0, revenue: 0 }
+    day.tickets += s.quantity
+    day.revenue = (day.revenue ?? 0) + (s.price_inc_vat ?? 0) * s.quantity
+    map.set(key, day)
+  }
+  return Array.from(map.values())
+}
+
+/** The current edition followed by earlier ones, newest first */
+export function buildEditions(
+  currentYear: number,
+  currentDays: EditionDay[],
+  history: SalesHistory[],
+): Edition[] {
+  const byYear = new Map<number, EditionDay[]>()
+  for (const row of history) {
+    if (row.edition_year >= currentYear) continue
+    byYear.set(row.edition_year, [...(byYear.get(row.edition_year) ?? []), row])
+  }
+  const earlier = Array.from(byYear, ([year, days]) => ({ year, current: false, days }))
+    .sort((a, b) => b.year - a.year)
+  return [{ year: currentYear, current: true, days: currentDays }, ...earlier]
+}
+
+/** Cumulative value sold at least `daysBefore` days before start */
+export function soldBy(
+  edition: Edition,
+  metric: ComparisonMetric,
+  daysBefore: number,
+  ticketType?: string,
+) {
+  return edition.days
+    .filter((d) => d.days_before >= daysBefore && (ticketType === undefined || d.ticket_type === ticketType))
+    .reduce((sum, d) => sum + (metric === 'tickets' ? d.tickets : (d.revenue ?? 0)), 0)
+}
+
+/** Whether an edition has revenue at all (imports of daily ticket counts may not) */
+export function hasRevenue(edition: Edition) {
+  return edition.days.some((d) => d.revenue !== null)
+}
+
+/**
+ * One point per day before start with each edition's cumulative value,
+ * keyed by year. The current edition stops at today.
+ */
+export function comparisonSeries(editions: Edition[], metric: ComparisonMetric, todayDaysBefore: number) {
+  const all = editions.flatMap((e) => e.days.map((d) => d.days_before))
+  if (all.length === 0) return []
+  const first = Math.max(...all)
+  const last = Math.min(...all, 0)
+
+  const points: Record<string, number>[] = []
+  for (let d = first; d >= last; d--) {
+    const point: Record<string, number> = { days_before: d }
+    for (const edition of editions) {
+      if (edition.current && d < todayDaysBefore) continue
+      if (metric === 'revenue' && !hasRevenue(edition)) continue
+      point[String(edition.year)] = soldBy(edition, metric, d)
+    }
+    points.push(point)
+  }
+  return points
+}
+
+/** Relative change, or null when there is nothing to compare against */
+export function percentChange(current: number, previous: number) {
+  return previous > 0 ? (current - previous) / previous : null
+}
+
+/** `+12 %` / `−5 %` */
+export function formatChange(change: number) {
+  return `${change >= 0 ? '+' : '−'}${Math.abs(Math.round(change * 100))} %`
+}
+
+export interface YearOverYear {
+  previousYear: number
+  current: number
+  previous: number
+  change: number | null
+}
+
+/** Current edition against the most recent earlier one, at the same days before start */
+export function compareWithPreviousYear(
+  editions: Edition[],
+  metric: ComparisonMetric,
+  daysBefore: number,
+): YearOverYear | null {
+  const [current, previous] = editions
+  if (!current?.current || !previous) return null
+  if (metric === 'revenue' && !hasRevenue(previous)) return null
+  const a = soldBy(current, metric, daysBefore)
+  const b = soldBy(previous, metric, daysBefore)
+  return { previousYear: previous.year, current: a, previous: b, change: percentChange(a, b) }
+}
+
+export interface TicketTypeComparison {
+  ticketType: string
+  current: number
+  previous: number
+  change: number | null
+}
+
+/** Per-ticket-type totals at the same point, matched on ticket type name */
+export function ticketTypeComparison(
+  current: Edition,
+  previous: Edition,
+  metric: ComparisonMetric,
+  daysBefore: number,
+): TicketTypeComparison[] {
+  const types = new Set([...current.days, ...previous.days].map((d) => d.ticket_type))
+  return Array.from(types)
+    .map((ticketType) => {
+      const a = soldBy(current, metric, daysBefore, ticketType)
+      const b = soldBy(previous, metric, daysBefore, ticketType)
+      return { ticketType, current: a, previous: b, change: percentChange(a, b) }
+    })
+    .filter((row) => row.current !== 0 || row.previous !== 0)
+    .sort((a, b) => b.current - a.current || b.previous - a.previous)
+}
@@ -14,11 +14,35 @@ import {
   ResponsiveContainer,
 } from 'recharts'
 import { useAuthContext } from '@/contexts/AuthContext'
-import { useTicketSales } from '@/hooks/useTicketSales'
-import { splitByCategory, totalStats, groupByDate } from '@/lib/sales-utils'
+import { useSalesSummary } from '@/hooks/useSalesSummary'
+import {
+  splitByCategory,
+  totalStats,
+  groupByDate,
+  groupByOutlet,
+  daysBetween,
+} from '@/lib/sales-utils'
+import {
+  buildEditions,
+  compareWithPreviousYear,
+  formatChange,
+  salesToEditionDays,
+} from '@/lib/year-comparison'
+import { DEFAULT_TIMEZONE, todayIn } from '@/lib/timezone'
+import { useSalesHistory } from '@/hooks/useSalesHistory'
+import { useOutlets } from '@/hooks/useOutlets'
+import { useBudgetVersions } from '@/hooks/useBudgetVersions'
+import { useAccountCategories } from '@/hooks/useAccountCategories'
 import { supabase } from '@/lib/supabase'
-import type { Income, Expense, Sponsor } from '@/types/database'
+import { saleRowsQuery } from '@/lib/sales-rows'
+import { isActualExpense } from '@/lib/expense-status'
+import { categoryName } from '@/lib/accounts'
+import type { Income, Expense, Sponsor, TicketSale } from '@/types/database'
 import { useRealtimeTable } from '@/hooks/useRealtimeTable'
+import StaleSyncBanner from '@/components/sales/StaleSyncBanner'
+import EventFilter from '@/components/sales/EventFilter'
+import OutletFilter from '@/components/sales/OutletFilter'
+import OutletBreakdown from '@/components/sales/OutletBreakdown'
 
 function StatCard({
   label,
@@ -60,27 +84,36 @@ function formatCurrency(amount: number, currency: string) {
 
 export default function DashboardPage() {
   const { t } = useTranslation()
-  const { festival } = useAuthContext()
-  const { sales, loading: salesLoading } = useTicketSales()
+  const { festival, edition } = useAuthContext()
   const currency = festival?.currency ?? 'NOK'
+  const timeZone = festival?.timezone ?? DEFAULT_TIMEZONE
 
   const [income, setIncome] = useState<Income[]>([])
   const [expenses, setExpenses] = useState<Expense[]>([])
   const [sponsors, setSponsors] = useState<Sponsor[]>([])
   const [dataLoading, setDataLoading] = useState(true)
+  const [eventId, setEventId] = useState('')
+  const [outletId, setOutletId] = useState('')
+  const { summary, loading: salesLoading, error: salesError } = useSalesSummary({ eventId, outletId })
+  const { outlets } = useOutlets()
+  const { primary: primaryBudget } = useBudgetVersions()
+  const { index: categoryIndex } = useAccountCategories()
+  // The summary's outlet groups leave the outlet filter out
+  const byOutlet = useMemo(() => groupByOutlet(summary.by_outlet, outlets), [summary, outlets])
+  const outletNames = useMemo(() => new Map(outlets.map((o) => [o.id, o.name])), [outlets])
 
   const fetchEconomyData = useCallback(async () => {
-    if (!festival) return
+    if (!festival || !edition) return
     const [incRes, expRes, sponRes] = await Promise.all([
-      supabase.from('income').select('*').eq('festival_id', festival.id),
-      supabase.from('expenses').select('*').eq('festival_id', festival.id),
-      supabase.from('sponsors').select('*').eq('festival_id', festival.id),
+      supabase.from('income').select('*').eq('festival_id', festival.id).eq('edition_id', edition.id),
+      supabase.from('expenses').select('*').eq('festival_id', festival.id).eq('edition_id', edition.id),
+      supabase.from('sponsors').select('*').eq('festival_id', festival.id).eq('edition_id', edition.id),
     ])
     if (incRes.data) setIncome(incRes.data)
     if (expRes.data) setExpenses(expRes.data)
     if (sponRes.data) setSponsors(sponRes.data)
     setDataLoading(false)
-  }, [festival?.id])
+  }, [festival?.id, edition?.id])
 
   useEffect(() => {
     fetchEconomyData()
@@ -90,9 +123,19 @@ export default function DashboardPage() {
   useRealtimeTable('expenses', festival?.id, fetchEconomyData)
   useRealtimeTable('sponsors', festival?.id, fetchEconomyData)
 
-  const { tickets } = useMemo(() => splitByCategory(sales), [sales])
-  const ticketStats = useMemo(() => totalStats(tickets), [tickets])
-  const dailySales = useMemo(() => groupByDate(tickets), [tickets])
+  const { tickets } = useMemo(() => splitByCategory(summary.by_time), [summary])
+  const ticketStats = useMemo(() => totalStats(tickets, timeZone), [tickets, timeZone])
+  const dailySales = useMemo(() => groupByDate(tickets, timeZone), [tickets, timeZone])
+
+  // Ahead of or behind the previous edition at the same number of days before start
+  const { history } = useSalesHistory()
+  const yearOverYear = useMemo(() => {
+    const startDate = edition?.start_date
+    if (!edition || !startDate || eventId || outletId) return null
+    const typeTickets = splitByCategory(summary.by_date_type).tickets
+    const editions = buildEditions(edition.year, salesToEditionDays(typeTickets, startDate, timeZone), history)
+    return compareWithPreviousYear(editions, 'tickets', daysBetween(todayIn(timeZone), startDate))
+  }, [edition, eventId, outletId, summary, history, timeZone])
 
   // Sparkline: last 14 days
   const sparklineData = useMemo(() => {
@@ -106,7 +149,7 @@ export default function DashboardPage() {
     [income],
   )
   const actualExpenses = useMemo(
-    () => expenses.filter((e) => !e.is_budget).reduce((sum, e) => sum + (e.amount_ex_vat ?? 0), 0),
+    () => expenses.filter(isActualExpense).reduce((sum, e) => sum + (e.amount_ex_vat ?? 0), 0),
     [expenses],
   )
   const sponsorTotal = useMemo(
@@ -118,16 +161,20 @@ export default function DashboardPage() {
   const result = totalIncome - actualExpenses
   const resultTrend = result > 0 ? 'up' as const : result < 0 ? 'down' as const : null
 
-  // Budget vs actual chart data
+  // Budget vs actual chart data; the budget is the primary version
   const budgetVsActual = useMemo(() => {
     const incomeCategories = new Map<string, { category: string; budget: number; actual: number }>()
     const expenseCategories = new Map<string, { category: string; budget: number; actual: number }>()
 
     for (const i of income) {
       const cat = i.category
-      const existing = incomeCategories.get(cat) ?? { category: cat, budget: 0, actual: 0 }
+      const existing = incomeCategories.get(cat) ?? {
+        category: categoryName(categoryIndex, 'income', cat),
+        budget: 0,
+        actual: 0,
+      }
       if (i.is_budget) {
-        existing.budget += i.amount_ex_vat ?? 0
+        if (i.budget_version_id === primaryBudget?.id) existing.budget += i.amount_ex_vat ?? 0
       } else {
         existing.actual += i.amount_ex_vat ?? 0
       }
@@ -136,10 +183,14 @@ export default function DashboardPage() {
 
     for (const e of expenses) {
       const cat = e.category
-      const existing = expenseCategories.get(cat) ?? { category: cat, budget: 0, actual: 0 }
+      const existing = expenseCategories.get(cat) ?? {
+        category: categoryName(categoryIndex, 'expense', cat),
+        budget: 0,
+        actual: 0,
+      }
       if (e.is_budget) {
-        existing.budget += e.amount_ex_vat ?? 0
-      } else {
+        if (e.budget_version_id === primaryBudget?.id) existing.budget += e.amount_ex_vat ?? 0
+      } else if (isActualExpense(e)) {
         existing.actual += e.amount_ex_vat ?? 0
       }
       expenseCategories.set(cat, existing)
@@ -149,16 +200,19 @@ export default function DashboardPage() {
       ...Array.from(incomeCategories.values()),
       ...Array.from(expenseCategories.values()),
     ]
-  }, [income, expenses])
+  }, [income, expenses, primaryBudget?.id, categoryIndex])
 
-  // Recent activity: last ticket sales
-  const recentSales = useMemo(
-    () =>
-      [...sales]
-        .sort((a, b) => (b.sold_at ?? '').localeCompare(a.sold_at ?? ''))
-        .slice(0, 8),
-    [sales],
-  )
+  // Recent activity: last ticket sales, reloaded whenever the summary changes
+  const [recentSales, setRecentSales] = useState<TicketSale[]>([])
+  const fetchRecentSales = useCallback(async () => {
+    if (!festival || !edition) return
+    const { data } = await saleRowsQuery(festival.id, edition.id, { eventId, outletId }, 'all', timeZone).range(0, 7)
+    if (data) setRecentSales(data)
+  }, [festival?.id, edition?.id, eventId, outletId, timeZone])
+
+  useEffect(() => {
+    fetchRecentSales()
+  }, [fetchRecentSales, summary])
 
   const loading = salesLoading || dataLoading
 
@@ -172,7 +226,17 @@ export default function DashboardPage() {
 
   return (
     <div className="space-y-8">
-      <h1 className="text-2xl font-bold">{t('dashboard.title')}</h1>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold">{t('dashboard.title')}</h1>
+        <div className="flex gap-2">
+          <EventFilter value={eventId} onChange={setEventId} />
+          <OutletFilter value={outletId} onChange={setOutletId} />
+        </div>
+      </div>
+
+      <StaleSyncBanner />
+
+      {salesError && <p className="text-sm text-danger">{salesError}</p>}
 
       {/* Stat cards */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
@@ -180,7 +244,15 @@ export default function DashboardPage() {
           icon={Ticket}
           label={t('dashboard.ticketsSold')}
           value={ticketStats.totalTickets.toLocaleString('nb-NO')}
-          sub={`${ticketStats.todayTickets} ${t('dashboard.today').toLowerCase()}`}
+          sub={
+            yearOverYear?.change != null
+              ? `${ticketStats.todayTickets} ${t('dashboard.today').toLowerCase()} · ${t(
+                  yearOverYear.change >= 0 ? 'sales.aheadOf' : 'sales.behind',
+                  { change: formatChange(yearOverYear.change), year: yearOverYear.previousYear },
+                )}`
+              : `${ticketStats.todayTickets} ${t('dashboard.today').toLowerCase()}`
+          }
+          trend={yearOverYear?.change != null ? (yearOverYear.change >= 0 ? 'up' : 'down') : null}
         />
         <StatCard
           icon={TrendingUp}
@@ -300,6 +372,7 @@ export default function DashboardPage() {
                     <p className="text-xs text-text-muted">
                       {sale.quantity} × {formatCurrency(sale.price_inc_vat ?? 0, currency)}
                       {sale.sale_channel && ` · ${sale.sale_channel}`}
+                      {sale.outlet_id && outletNames.has(sale.outlet_id) && ` · ${outletNames.get(sale.outlet_id)}`}
                     </p>
                   </div>
                   <span className="text-xs text-text-muted">
@@ -309,6 +382,7 @@ export default function DashboardPage() {
                           month: 'short',
                           hour: '2-digit',
                           minute: '2-digit',
+                          timeZone,
                         }).format(new Date(sale.sold_at))
                       : ''}
                   </span>
@@ -323,6 +397,8 @@ export default function DashboardPage() {
           )}
         </div>
       </div>
+
+      {outlets.length > 0 && byOutlet.length > 0 && <OutletBreakdown rows={byOutlet} currency={currency} />}
     </div>
   )
 }
@@ -1,10 +1,15 @@
-import { useMemo, useEffect, useState, useCallback, type FormEvent } from 'react'
+import { Fragment, useId, useMemo, useEffect, useState, useCallback, type FormEvent } from 'react'
 import { useTranslation } from 'react-i18next'
 import {
   TrendingUp,
   Wallet,
   Download,
   Plus,
+  Pencil,
+  History,
+  Paperclip,
+  ClipboardCheck,
+  Banknote,
   Trash2,
   MinusCircle,
 } from 'lucide-react'
@@ -21,27 +26,21 @@ import {
 import { useAuthContext } from '@/contexts/AuthContext'
 import { supabase } from '@/lib/supabase'
 import { useRealtimeTable } from '@/hooks/useRealtimeTable'
+import { useEconomyAttachments } from '@/hooks/useEconomyAttachments'
+import { useBudgetVersions } from '@/hooks/useBudgetVersions'
+import { useAccountCategories } from '@/hooks/useAccountCategories'
 import { exportEconomyCsv } from '@/lib/export-csv'
-import type { Income, Expense } from '@/types/database'
-
-const INCOME_CATEGORIES = [
-  'billetter',
-  'sponsor',
-  'tilskudd',
-  'bar_mat',
-  'merch',
-  'annet',
-] as const
-
-const EXPENSE_CATEGORIES = [
-  'artist',
-  'produksjon',
-  'markedsforing',
-  'leie',
-  'forsikring',
-  'admin',
-  'annet',
-] as const
+import { DEFAULT_TIMEZONE, todayIn } from '@/lib/timezone'
+import { attachmentsByEntry, removeVouchers } from '@/lib/vouchers'
+import { subcategoriesByCategory } from '@/lib/budget'
+import { categoryName } from '@/lib/accounts'
+import { EXPENSE_STATUSES, OPEN_EXPENSE_STATUSES, isActualExpense, needsApproval } from '@/lib/expense-status'
+import AttachmentList from '@/components/economy/AttachmentList'
+import BudgetComparison from '@/components/economy/BudgetComparison'
+import BudgetVersionBar from '@/components/economy/BudgetVersionBar'
+import EntryHistory from '@/components/economy/EntryHistory'
+import ExpenseReview from '@/components/economy/ExpenseReview'
+import type { AccountCategory, BudgetVersion, Income, Expense, ExpenseStatus } from '@/types/database'
 
 const VAT_RATES = [
   { value: 0.25, label: '25%' },
@@ -59,6 +58,14 @@ function formatCurrency(amount: number, currency: string) {
   }).format(amount)
 }
 
+const STATUS_STYLES: Record<ExpenseStatus, string> = {
+  draft: 'bg-gray-100 text-text-muted',
+  submitted: 'bg-warning-light text-warning',
+  approved: 'bg-primary-light text-primary',
+  rejected: 'bg-danger-light text-danger',
+  paid: 'bg-success-light text-success',
+}
+
 function StatCard({
   label,
   value,
@@ -90,34 +97,53 @@ function StatCard({
 
 export default function EconomyPage() {
   const { t } = useTranslation()
-  const { festival, profile } = useAuthContext()
+  const { festival, edition, profile } = useAuthContext()
   const currency = festival?.currency ?? 'NOK'
   const isAdmin = profile?.role === 'admin'
+  const isCrew = profile?.role === 'crew'
+  const canReview = isAdmin || profile?.role === 'board'
+  const threshold = festival?.expense_approval_threshold ?? null
+  const timeZone = festival?.timezone ?? DEFAULT_TIMEZONE
 
   const [income, setIncome] = useState<Income[]>([])
   const [expenses, setExpenses] = useState<Expense[]>([])
   const [loading, setLoading] = useState(true)
   const [showIncomeForm, setShowIncomeForm] = useState(false)
   const [showExpenseForm, setShowExpenseForm] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [history, setHistory] = useState<{ table: 'income' | 'expenses'; id: string; title: string } | null>(null)
+  const [attachmentsOpen, setAttachmentsOpen] = useState<string | null>(null)
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+  const [statusFilter, setStatusFilter] = useState<ExpenseStatus | ''>('')
+  const { attachments, refetch: refetchAttachments } = useEconomyAttachments()
+  const byEntry = useMemo(() => attachmentsByEntry(attachments), [attachments])
+  const { versions, primary, refetch: refetchVersions } = useBudgetVersions()
+  const [versionId, setVersionId] = useState<string | null>(null)
+  const selectedVersion = versions.find((v) => v.id === versionId) ?? primary ?? versions[0] ?? null
+  const { categories, index: categoryIndex } = useAccountCategories()
+  const incomeCategories = useMemo(() => categories.filter((c) => c.type === 'income'), [categories])
+  const expenseCategories = useMemo(() => categories.filter((c) => c.type === 'expense'), [categories])
 
   const fetchData = useCallback(async () => {
-    if (!festival) return
+    if (!festival || !edition) return
     const [incRes, expRes] = await Promise.all([
       supabase
         .from('income')
         .select('*')
         .eq('festival_id', festival.id)
+        .eq('edition_id', edition.id)
         .order('date', { ascending: false }),
       supabase
         .from('expenses')
         .select('*')
         .eq('festival_id', festival.id)
+        .eq('edition_id', edition.id)
         .order('date', { ascending: false }),
     ])
     if (incRes.data) setIncome(incRes.data)
     if (expRes.data) setExpenses(expRes.data)
     setLoading(false)
-  }, [festival?.id])
+  }, [festival?.id, edition?.id])
 
   useEffect(() => {
     fetchData()
@@ -126,13 +152,25 @@ export default function EconomyPage() {
   useRealtimeTable('income', festival?.id, fetchData)
   useRealtimeTable('expenses', festival?.id, fetchData)
 
+  // Actual entries and the budget lines of the selected version
+  const shownIncome = useMemo(
+    () => income.filter((i) => !i.is_budget || i.budget_version_id === selectedVersion?.id),
+    [income, selectedVersion?.id],
+  )
+  const shownExpenses = useMemo(
+    () => expenses.filter((e) => !e.is_budget || e.budget_version_id === selectedVersion?.id),
+    [expenses, selectedVersion?.id],
+  )
+  const incomeSubcategories = useMemo(() => subcategoriesByCategory(income), [income])
+  const expenseSubcategories = useMemo(() => subcategoriesByCategory(expenses), [expenses])
+
   // Aggregates
   const actualIncome = useMemo(
     () => income.filter((i) => !i.is_budget),
     [income],
   )
   const actualExpenses = useMemo(
-    () => expenses.filter((e) => !e.is_budget),
+    () => expenses.filter(isActualExpense),
     [expenses],
   )
   const totalActualIncome = useMemo(
@@ -158,10 +196,10 @@ export default function EconomyPage() {
       { category: string; budget: number; actual: number }
     >()
 
-    for (const i of income) {
+    for (const i of shownIncome) {
       const cat = i.category
       const existing = categories.get(`inc-${cat}`) ?? {
-        category: t(`economy.incomeCategories.${cat}`, cat),
+        category: categoryName(categoryIndex, 'income', cat),
         budget: 0,
         actual: 0,
       }
@@ -170,20 +208,20 @@ export default function EconomyPage() {
       categories.set(`inc-${cat}`, existing)
     }
 
-    for (const e of expenses) {
+    for (const e of shownExpenses) {
       const cat = e.category
       const existing = categories.get(`exp-${cat}`) ?? {
-        category: t(`economy.expenseCategories.${cat}`, cat),
+        category: categoryName(categoryIndex, 'expense', cat),
         budget: 0,
         actual: 0,
       }
       if (e.is_budget) existing.budget += e.amount_ex_vat ?? 0
-      else existing.actual += e.amount_ex_vat ?? 0
+      else if (isActualExpense(e)) existing.actual += e.amount_ex_vat ?? 0
       categories.set(`exp-${cat}`, existing)
     }
 
     return Array.from(categories.values())
-  }, [income, expenses, t])
+  }, [shownIncome, shownExpenses, categoryIndex])
 
   // VAT summary
   const vatSummary = useMemo(() => {
@@ -218,14 +256,44 @@ export default function EconomyPage() {
 
   const handleDeleteIncome = async (id: string) => {
     if (!confirm(t('economy.deleteConfirm'))) return
-    await supabase.from('income').delete().eq('id', id)
+    const { data, error } = await supabase.from('income').delete().eq('id', id).select('id')
+    if (error || data.length === 0) {
+      alert(error?.message ?? t('economy.deleteRefused'))
+      return
+    }
+    // The attachment rows cascade with the entry; the files must be removed here
+    await removeVouchers(byEntry.get(id) ?? [])
+    await Promise.all([fetchData(), refetchAttachments()])
+  }
+
+  // Lines of a locked budget version can no longer be changed
+  const isLocked = (entry: Income | Expense) => entry.is_budget && !!selectedVersion?.locked_at
+
+  const pendingCount = expenses.filter((e) => e.status === 'submitted' && !e.is_budget).length
+  const visibleExpenses = statusFilter
+    ? expenses.filter((e) => !e.is_budget && e.status === statusFilter)
+    : shownExpenses
+
+  // Crew members may change their own expenses until they are approved
+  const canEditExpense = (e: Expense) =>
+    (isAdmin && !isLocked(e)) || (isCrew && e.submitted_by === profile?.id && OPEN_EXPENSE_STATUSES.includes(e.status))
+
+  const handleMarkPaid = async (e: Expense) => {
+    if (!confirm(t('economy.markPaidConfirm'))) return
+    const { error } = await supabase.from('expenses').update({ status: 'paid' }).eq('id', e.id)
+    if (error) alert(error.message)
     await fetchData()
   }
 
   const handleDeleteExpense = async (id: string) => {
     if (!confirm(t('economy.deleteConfirm'))) return
-    await supabase.from('expenses').delete().eq('id', id)
-    await fetchData()
+    const { data, error } = await supabase.from('expenses').delete().eq('id', id).select('id')
+    if (error || data.length === 0) {
+      alert(error?.message ?? t('economy.deleteRefused'))
+      return
+    }
+    await removeVouchers(byEntry.get(id) ?? [])
+    await Promise.all([fetchData(), refetchAttachments()])
   }
 
   if (loading) {
@@ -236,7 +304,7 @@ export default function EconomyPage() {
     )
   }
 
-  const hasData = income.length > 0 || expenses.length > 0
+  const hasData = income.length > 0 || expenses.length > 0 || showIncomeForm || showExpenseForm
 
   return (
     <div className="space-y-8">
@@ -247,9 +315,10 @@ export default function EconomyPage() {
           <button
             onClick={() =>
               exportEconomyCsv(
-                income,
-                expenses,
-                `okonomi-${new Date().toISOString().slice(0, 10)}.csv`,
+                shownIncome,
+                shownExpenses,
+                categoryIndex,
+                `okonomi-${todayIn(timeZone)}.csv`,
               )
             }
             className="flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body hover:bg-surface-hover"
@@ -287,6 +356,15 @@ export default function EconomyPage() {
               </button>
             </div>
           )}
+          {isCrew && (
+            <button
+              onClick={() => setShowExpenseForm(true)}
+              className="mx-auto mt-6 flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark"
+            >
+              <Plus size={16} />
+              {t('economy.submitExpense')}
+            </button>
+          )}
         </div>
       ) : (
         <>
@@ -312,6 +390,21 @@ export default function EconomyPage() {
             />
           </div>
 
+          {/* Budget versions */}
+          <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
+            <BudgetVersionBar
+              versions={versions}
+              selected={selectedVersion}
+              onSelect={setVersionId}
+              isAdmin={isAdmin}
+              onChanged={(selectId) => {
+                if (selectId) setVersionId(selectId)
+                refetchVersions()
+                fetchData()
+              }}
+            />
+          </div>
+
           {/* Budget vs actual chart */}
           {budgetVsActual.length > 0 && (
             <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
@@ -354,6 +447,15 @@ export default function EconomyPage() {
             </div>
           )}
 
+          {/* Budget vs forecast vs actual */}
+          <BudgetComparison
+            income={income}
+            expenses={expenses}
+            versions={versions}
+            categories={categoryIndex}
+            currency={currency}
+          />
+
           {/* VAT summary */}
           {vatSummary.length > 0 && (
             <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
@@ -415,6 +517,10 @@ export default function EconomyPage() {
             {showIncomeForm && isAdmin && (
               <IncomeForm
                 festivalId={festival!.id}
+                editionId={edition!.id}
+                budgetVersion={selectedVersion}
+                categories={incomeCategories}
+                subcategories={incomeSubcategories}
                 onSaved={() => {
                   setShowIncomeForm(false)
                   fetchData()
@@ -423,7 +529,7 @@ export default function EconomyPage() {
               />
             )}
 
-            {income.length > 0 && (
+            {shownIncome.length > 0 && (
               <div className="mt-4 overflow-x-auto">
                 <table className="w-full text-left text-sm">
                   <thead>
@@ -441,50 +547,120 @@ export default function EconomyPage() {
                       <th className="pb-3 pr-4 font-medium">{t('economy.vat')}</th>
                       <th className="pb-3 pr-4 font-medium">{t('economy.source')}</th>
                       <th className="pb-3 font-medium">{t('economy.budget')}/{t('economy.actual')}</th>
-                      {isAdmin && <th className="pb-3" />}
+                      <th className="pb-3" />
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-border-light">
-                    {income.map((i) => (
-                      <tr key={i.id}>
-                        <td className="py-3 pr-4 text-text-body">{i.date ?? '—'}</td>
-                        <td className="py-3 pr-4 text-text-body">
-                          {t(`economy.incomeCategories.${i.category}`, i.category)}
-                        </td>
-                        <td className="py-3 pr-4 text-text-body">
-                          {i.description ?? '—'}
-                        </td>
-                        <td className="py-3 pr-4 text-right text-text-body">
-                          {formatCurrency(i.amount_ex_vat ?? 0, currency)}
-                        </td>
-                        <td className="py-3 pr-4 text-text-body">
-                          {i.vat_rate ? `${(i.vat_rate * 100).toFixed(0)}%` : '—'}
-                        </td>
-                        <td className="py-3 pr-4 text-text-body">{i.source ?? '—'}</td>
-                        <td className="py-3 pr-4">
-                          <span
-                            className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${
-                              i.is_budget
-                                ? 'bg-gray-100 text-text-muted'
-                                : 'bg-primary-light text-primary'
-                            }`}
-                          >
-                            {i.is_budget ? t('economy.budget') : t('economy.actual')}
-                          </span>
-                        </td>
-                        {isAdmin && (
-                          <td className="py-3">
-                            <button
-                              onClick={() => handleDeleteIncome(i.id)}
-                              className="text-text-muted hover:text-danger"
-                              title={t('common.delete')}
-                            >
-                              <Trash2 size={14} />
-                            </button>
+                    {shownIncome.map((i) =>
+                      editingId === i.id ? (
+                        <tr key={i.id}>
+                          <td colSpan={8}>
+                            <IncomeForm
+                              festivalId={festival!.id}
+                              editionId={edition!.id}
+                              budgetVersion={selectedVersion}
+                              categories={incomeCategories}
+                              subcategories={incomeSubcategories}
+                              entry={i}
+                              onSaved={() => {
+                                setEditingId(null)
+                                fetchData()
+                              }}
+                              onCancel={() => setEditingId(null)}
+                            />
                           </td>
-                        )}
-                      </tr>
-                    ))}
+                        </tr>
+                      ) : (
+                        <Fragment key={i.id}>
+                          <tr>
+                            <td className="py-3 pr-4 text-text-body">{i.date ?? '—'}</td>
+                            <td className="py-3 pr-4 text-text-body">
+                              {categoryName(categoryIndex, 'income', i.category)}
+                              {i.subcategory && <p className="mt-0.5 text-xs text-text-muted">{i.subcategory}</p>}
+                            </td>
+                            <td className="py-3 pr-4 text-text-body">
+                              {i.description ?? '—'}
+                            </td>
+                            <td className="py-3 pr-4 text-right text-text-body">
+                              {formatCurrency(i.amount_ex_vat ?? 0, currency)}
+                            </td>
+                            <td className="py-3 pr-4 text-text-body">
+                              {i.vat_rate ? `${(i.vat_rate * 100).toFixed(0)}%` : '—'}
+                            </td>
+                            <td className="py-3 pr-4 text-text-body">{i.source ?? '—'}</td>
+                            <td className="py-3 pr-4">
+                              <span
+                                className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${
+                                  i.is_budget
+                                    ? 'bg-gray-100 text-text-muted'
+                                    : 'bg-primary-light text-primary'
+                                }`}
+                              >
+                                {i.is_budget ? t('economy.budget') : t('economy.actual')}
+                              </span>
+                            </td>
+                            <td className="py-3">
+                              <div className="flex items-center gap-2">
+                                {isAdmin && !isLocked(i) && (
+                                  <button
+                                    onClick={() => setEditingId(i.id)}
+                                    className="text-text-muted hover:text-primary"
+                                    title={t('common.edit')}
+                                  >
+                                    <Pencil size={14} />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => setAttachmentsOpen(attachmentsOpen === i.id ? null : i.id)}
+                                  className="flex items-center gap-0.5 text-text-muted hover:text-primary"
+                                  title={t('economy.attachments')}
+                                >
+                                  <Paperclip size={14} />
+                                  {byEntry.get(i.id)?.length ? (
+                                    <span className="text-xs">{byEntry.get(i.id)!.length}</span>
+                                  ) : null}
+                                </button>
+                                <button
+                                  onClick={() =>
+                                    setHistory({
+                                      table: 'income',
+                                      id: i.id,
+                                      title: i.description ?? categoryName(categoryIndex, 'income', i.category),
+                                    })
+                                  }
+                                  className="text-text-muted hover:text-primary"
+                                  title={t('economy.history')}
+                                >
+                                  <History size={14} />
+                                </button>
+                                {isAdmin && !isLocked(i) && (
+                                  <button
+                                    onClick={() => handleDeleteIncome(i.id)}
+                                    className="text-text-muted hover:text-danger"
+                                    title={t('common.delete')}
+                                  >
+                                    <Trash2 size={14} />
+                                  </button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                          {attachmentsOpen === i.id && (
+                            <tr>
+                              <td colSpan={8} className="pb-3">
+                                <AttachmentList
+                                  table="income"
+                                  entryId={i.id}
+                                  attachments={byEntry.get(i.id) ?? []}
+                                  canEdit={isAdmin && !isLocked(i)}
+                                  onChanged={refetchAttachments}
+                                />
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      ),
+                    )}
                   </tbody>
                 </table>
               </div>
@@ -495,20 +671,49 @@ export default function EconomyPage() {
           <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-semibold">{t('economy.expenses')}</h2>
-              {isAdmin && (
-                <button
-                  onClick={() => setShowExpenseForm(!showExpenseForm)}
-                  className="flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-1.5 text-sm font-medium text-text-body hover:bg-surface-hover"
+              <div className="flex items-center gap-2">
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as ExpenseStatus | '')}
+                  className="rounded-lg border border-border bg-surface px-3 py-1.5 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
                 >
-                  <Plus size={14} />
-                  {t('economy.addExpense')}
-                </button>
-              )}
+                  <option value="">{t('economy.allStatuses')}</option>
+                  {EXPENSE_STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      {t(`economy.statuses.${status}`)}
+                    </option>
+                  ))}
+                </select>
+                {(isAdmin || isCrew) && (
+                  <button
+                    onClick={() => setShowExpenseForm(!showExpenseForm)}
+                    className="flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-1.5 text-sm font-medium text-text-body hover:bg-surface-hover"
+                  >
+                    <Plus size={14} />
+                    {isAdmin ? t('economy.addExpense') : t('economy.submitExpense')}
+                  </button>
+                )}
+              </div>
             </div>
 
-            {showExpenseForm && isAdmin && (
+            {canReview && pendingCount > 0 && statusFilter !== 'submitted' && (
+              <div className="mt-4 flex flex-wrap items-center justify-between gap-3 rounded-lg bg-warning-light px-4 py-3 text-sm text-warning">
+                <span>{t('economy.pendingApproval', { count: pendingCount })}</span>
+                <button onClick={() => setStatusFilter('submitted')} className="font-medium underline">
+                  {t('economy.showPending')}
+                </button>
+              </div>
+            )}
+
+            {showExpenseForm && (isAdmin || isCrew) && (
               <ExpenseForm
                 festivalId={festival!.id}
+                editionId={edition!.id}
+                threshold={threshold}
+                submitOnly={isCrew}
+                budgetVersion={selectedVersion}
+                categories={expenseCategories}
+                subcategories={expenseSubcategories}
                 onSaved={() => {
                   setShowExpenseForm(false)
                   fetchData()
@@ -517,7 +722,7 @@ export default function EconomyPage() {
               />
             )}
 
-            {expenses.length > 0 && (
+            {visibleExpenses.length > 0 && (
               <div className="mt-4 overflow-x-auto">
                 <table className="w-full text-left text-sm">
                   <thead>
@@ -536,53 +741,161 @@ export default function EconomyPage() {
                       <th className="pb-3 pr-4 font-medium">
                         {t('economy.supplier')}
                       </th>
-                      <th className="pb-3 font-medium">{t('economy.budget')}/{t('economy.actual')}</th>
-                      {isAdmin && <th className="pb-3" />}
+                      <th className="pb-3 font-medium">{t('economy.status')}</th>
+                      <th className="pb-3" />
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-border-light">
-                    {expenses.map((e) => (
-                      <tr key={e.id}>
-                        <td className="py-3 pr-4 text-text-body">{e.date ?? '—'}</td>
-                        <td className="py-3 pr-4 text-text-body">
-                          {t(`economy.expenseCategories.${e.category}`, e.category)}
-                        </td>
-                        <td className="py-3 pr-4 text-text-body">
-                          {e.description ?? '—'}
-                        </td>
-                        <td className="py-3 pr-4 text-right text-text-body">
-                          {formatCurrency(e.amount_ex_vat ?? 0, currency)}
-                        </td>
-                        <td className="py-3 pr-4 text-text-body">
-                          {e.vat_rate ? `${(e.vat_rate * 100).toFixed(0)}%` : '—'}
-                        </td>
-                        <td className="py-3 pr-4 text-text-body">
-                          {e.supplier ?? '—'}
-                        </td>
-                        <td className="py-3 pr-4">
-                          <span
-                            className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${
-                              e.is_budget
-                                ? 'bg-gray-100 text-text-muted'
-                                : 'bg-primary-light text-primary'
-                            }`}
-                          >
-                            {e.is_budget ? t('economy.budget') : t('economy.actual')}
-                          </span>
-                        </td>
-                        {isAdmin && (
-                          <td className="py-3">
-                            <button
-                              onClick={() => handleDeleteExpense(e.id)}
-                              className="text-text-muted hover:text-danger"
-                              title={t('common.delete')}
-                            >
-                              <Trash2 size={14} />
-                            </button>
+                    {visibleExpenses.map((e) =>
+                      editingId === e.id ? (
+                        <tr key={e.id}>
+                          <td colSpan={8}>
+                            <ExpenseForm
+                              festivalId={festival!.id}
+                              editionId={edition!.id}
+                              threshold={threshold}
+                              submitOnly={!isAdmin}
+                              budgetVersion={selectedVersion}
+                              categories={expenseCategories}
+                              subcategories={expenseSubcategories}
+                              entry={e}
+                              onSaved={() => {
+                                setEditingId(null)
+                                fetchData()
+                              }}
+                              onCancel={() => setEditingId(null)}
+                            />
                           </td>
-                        )}
-                      </tr>
-                    ))}
+                        </tr>
+                      ) : (
+                        <Fragment key={e.id}>
+                          <tr>
+                            <td className="py-3 pr-4 text-text-body">{e.date ?? '—'}</td>
+                            <td className="py-3 pr-4 text-text-body">
+                              {categoryName(categoryIndex, 'expense', e.category)}
+                              {e.subcategory && <p className="mt-0.5 text-xs text-text-muted">{e.subcategory}</p>}
+                            </td>
+                            <td className="py-3 pr-4 text-text-body">
+                              {e.description ?? '—'}
+                              {e.decision_comment && (
+                                <p className="mt-0.5 text-xs text-text-muted">{e.decision_comment}</p>
+                              )}
+                            </td>
+                            <td className="py-3 pr-4 text-right text-text-body">
+                              {formatCurrency(e.amount_ex_vat ?? 0, currency)}
+                            </td>
+                            <td className="py-3 pr-4 text-text-body">
+                              {e.vat_rate ? `${(e.vat_rate * 100).toFixed(0)}%` : '—'}
+                            </td>
+                            <td className="py-3 pr-4 text-text-body">
+                              {e.supplier ?? '—'}
+                            </td>
+                            <td className="py-3 pr-4">
+                              <span
+                                className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${
+                                  e.is_budget ? 'bg-gray-100 text-text-muted' : STATUS_STYLES[e.status]
+                                }`}
+                              >
+                                {e.is_budget ? t('economy.budget') : t(`economy.statuses.${e.status}`)}
+                              </span>
+                            </td>
+                            <td className="py-3">
+                              <div className="flex items-center gap-2">
+                                {canEditExpense(e) && (
+                                  <button
+                                    onClick={() => setEditingId(e.id)}
+                                    className="text-text-muted hover:text-primary"
+                                    title={t('common.edit')}
+                                  >
+                                    <Pencil size={14} />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => setAttachmentsOpen(attachmentsOpen === e.id ? null : e.id)}
+                                  className="flex items-center gap-0.5 text-text-muted hover:text-primary"
+                                  title={t('economy.attachments')}
+                                >
+                                  <Paperclip size={14} />
+                                  {byEntry.get(e.id)?.length ? (
+                                    <span className="text-xs">{byEntry.get(e.id)!.length}</span>
+                                  ) : null}
+                                </button>
+                                <button
+                                  onClick={() =>
+                                    setHistory({
+                                      table: 'expenses',
+                                      id: e.id,
+                                      title: e.description ?? categoryName(categoryIndex, 'expense', e.category),
+                                    })
+                                  }
+                                  className="text-text-muted hover:text-primary"
+                                  title={t('economy.history')}
+                                >
+                                  <History size={14} />
+                                </button>
+                                {canReview && e.status === 'submitted' && !e.is_budget && (
+                                  <button
+                                    onClick={() => setReviewingId(reviewingId === e.id ? null : e.id)}
+                                    className="text-text-muted hover:text-primary"
+                                    title={t('economy.review')}
+                                  >
+                                    <ClipboardCheck size={14} />
+                                  </button>
+                                )}
+                                {isAdmin && e.status === 'approved' && !e.is_budget && (
+                                  <button
+                                    onClick={() => handleMarkPaid(e)}
+                                    className="text-text-muted hover:text-success"
+                                    title={t('economy.markPaid')}
+                                  >
+                                    <Banknote size={14} />
+                                  </button>
+                                )}
+                                {canEditExpense(e) && (
+                                  <button
+                                    onClick={() => handleDeleteExpense(e.id)}
+                                    className="text-text-muted hover:text-danger"
+                                    title={t('common.delete')}
+                                  >
+                                    <Trash2 size={14} />
+                                  </button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                          {reviewingId === e.id && (
+                            <tr>
+                              <td colSpan={8} className="pb-3">
+                                <ExpenseReview
+                                  expense={e}
+                                  canApprove={
+                                    e.submitted_by !== profile?.id || !needsApproval(e.amount_ex_vat ?? 0, threshold)
+                                  }
+                                  onDone={() => {
+                                    setReviewingId(null)
+                                    fetchData()
+                                  }}
+                                  onCancel={() => setReviewingId(null)}
+                                />
+                              </td>
+                            </tr>
+                          )}
+                          {attachmentsOpen === e.id && (
+                            <tr>
+                              <td colSpan={8} className="pb-3">
+                                <AttachmentList
+                                  table="expenses"
+                                  entryId={e.id}
+                                  attachments={byEntry.get(e.id) ?? []}
+                                  canEdit={canEditExpense(e)}
+                                  onChanged={refetchAttachments}
+                                />
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      ),
+                    )}
                   </tbody>
                 </table>
               </div>
@@ -590,6 +903,19 @@ export default function EconomyPage() {
           </div>
         </>
       )}
+
+      {history && (
+        <EntryHistory
+          key={history.id}
+          table={history.table}
+          recordId={history.id}
+          title={history.title}
+          categories={categoryIndex}
+          currency={currency}
+          timeZone={timeZone}
+          onClose={() => setHistory(null)}
+        />
+      )}
     </div>
   )
 }
@@ -598,15 +924,32 @@ export default function EconomyPage() {
 
 function IncomeForm({
   festivalId,
+  editionId,
+  budgetVersion,
+  categories,
+  subcategories,
+  entry,
   onSaved,
   onCancel,
 }: {
   festivalId: string
+  editionId: string
+  /** Budget lines are added to this version */
+  budgetVersion: BudgetVersion | null
+  /** The festival's categories of this type */
+  categories: AccountCategory[]
+  /** Subcategories in use, suggested per category */
+  subcategories: Map<string, string[]>
+  /** Edits this entry in place of adding a new one */
+  entry?: Income
   onSaved: () => void
   onCancel: () => void
 }) {
   const { t } = useTranslation()
   const [saving, setSaving] = useState(false)
+  const [category, setCategory] = useState(entry?.category ?? '')
+  const selectedCategory = category || categories.find((c) => !c.archived)?.slug || ''
+  const subcategoryList = useId()
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
@@ -618,17 +961,21 @@ function IncomeForm({
     const vatRate = parseFloat(data.get('vat_rate') as string) || 0
     const vatAmount = amountExVat * vatRate
 
-    await supabase.from('income').insert({
-      festival_id: festivalId,
+    const isBudget = data.get('is_budget') === 'true'
+    const values = {
       category: data.get('category') as string,
+      subcategory: (data.get('subcategory') as string).trim() || null,
       description: (data.get('description') as string) || null,
       amount_ex_vat: amountExVat,
       vat_rate: vatRate,
       vat_amount: vatAmount,
       source: (data.get('source') as string) || null,
-      is_budget: data.get('is_budget') === 'true',
+      is_budget: isBudget,
+      budget_version_id: isBudget ? (entry?.budget_version_id ?? budgetVersion?.id ?? null) : null,
       date: (data.get('date') as string) || null,
-    })
+    }
+    if (entry) await supabase.from('income').update(values).eq('id', entry.id)
+    else await supabase.from('income').insert({ festival_id: festivalId, edition_id: editionId, ...values })
 
     setSaving(false)
     onSaved()
@@ -646,15 +993,39 @@ function IncomeForm({
         <select
           name="category"
           required
+          value={selectedCategory}
+          onChange={(e) => setCategory(e.target.value)}
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
         >
-          {INCOME_CATEGORIES.map((cat) => (
-            <option key={cat} value={cat}>
-              {t(`economy.incomeCategories.${cat}`)}
-            </option>
-          ))}
+          {categories
+            .filter((c) => !c.archived || c.slug === entry?.category)
+            .map((c) => (
+              <option key={c.slug} value={c.slug}>
+                {c.name}
+              </option>
+            ))}
+          {entry && !categories.some((c) => c.slug === entry.category) && (
+            <option value={entry.category}>{entry.category}</option>
+          )}
         </select>
       </div>
+      <div>
+        <label className="block text-xs font-medium text-text-muted">
+          {t('economy.subcategory')}
+        </label>
+        <input
+          name="subcategory"
+          type="text"
+          list={subcategoryList}
+          defaultValue={entry?.subcategory ?? ''}
+          className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+        />
+        <datalist id={subcategoryList}>
+          {(subcategories.get(selectedCategory) ?? []).map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </div>
       <div>
         <label className="block text-xs font-medium text-text-muted">
           {t('economy.description')}
@@ -662,6 +1033,7 @@ function IncomeForm({
         <input
           name="description"
           type="text"
+          defaultValue={entry?.description ?? ''}
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
         />
       </div>
@@ -672,6 +1044,7 @@ function IncomeForm({
         <input
           name="amount_ex_vat"
           type="number"
+          defaultValue={entry?.amount_ex_vat ?? ''}
           step="0.01"
           required
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
@@ -683,6 +1056,7 @@ function IncomeForm({
         </label>
         <select
           name="vat_rate"
+          defaultValue={entry?.vat_rate ?? VAT_RATES[0].value}
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
         >
           {VAT_RATES.map((r) => (
@@ -690,6 +1064,9 @@ function IncomeForm({
               {r.label}
             </option>
           ))}
+          {entry?.vat_rate != null && !VAT_RATES.some((r) => r.value === entry.vat_rate) && (
+            <option value={entry.vat_rate}>{(entry.vat_rate * 100).toFixed(0)}%</option>
+          )}
         </select>
       </div>
       <div>
@@ -699,6 +1076,7 @@ function IncomeForm({
         <input
           name="source"
           type="text"
+          defaultValue={entry?.source ?? ''}
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
         />
       </div>
@@ -709,6 +1087,7 @@ function IncomeForm({
         <input
           name="date"
           type="date"
+          defaultValue={entry?.date ?? ''}
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
         />
       </div>
@@ -718,10 +1097,14 @@ function IncomeForm({
         </label>
         <select
           name="is_budget"
+          defaultValue={String(entry?.is_budget ?? false)}
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
         >
           <option value="false">{t('economy.actual')}</option>
-          <option value="true">{t('economy.budget')}</option>
+          <option value="true" disabled={!!budgetVersion?.locked_at && !entry?.is_budget}>
+            {t('economy.budget')}
+            {budgetVersion && !entry?.is_budget ? ` (${budgetVersion.name})` : ''}
+          </option>
         </select>
       </div>
       <div className="flex items-end gap-2">
@@ -748,15 +1131,39 @@ function IncomeForm({
 
 function ExpenseForm({
   festivalId,
+  editionId,
+  threshold,
+  submitOnly = false,
+  budgetVersion,
+  categories,
+  subcategories,
+  entry,
   onSaved,
   onCancel,
 }: {
   festivalId: string
+  editionId: string
+  /** The festival's approval threshold, ex. VAT */
+  threshold: number | null
+  /** Saves as a draft or submits for approval instead of entering cost; for crew members */
+  submitOnly?: boolean
+  /** Budget lines are added to this version */
+  budgetVersion: BudgetVersion | null
+  /** The festival's categories of this type */
+  categories: AccountCategory[]
+  /** Subcategories in use, suggested per category */
+  subcategories: Map<string, string[]>
+  /** Edits this entry in place of adding a new one */
+  entry?: Expense
   onSaved: () => void
   onCancel: () => void
 }) {
   const { t } = useTranslation()
   const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [category, setCategory] = useState(entry?.category ?? '')
+  const selectedCategory = category || categories.find((c) => !c.archived)?.slug || ''
+  const subcategoryList = useId()
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
@@ -767,20 +1174,37 @@ function ExpenseForm({
     const amountExVat = parseFloat(data.get('amount_ex_vat') as string) || 0
     const vatRate = parseFloat(data.get('vat_rate') as string) || 0
     const vatAmount = amountExVat * vatRate
+    const isBudget = !submitOnly && data.get('is_budget') === 'true'
 
-    await supabase.from('expenses').insert({
-      festival_id: festivalId,
+    // Crew members pick draft or submit; new cost above the threshold waits for someone else's approval
+    const submitter = (e.nativeEvent as SubmitEvent).submitter as HTMLButtonElement | null
+    let status: ExpenseStatus | undefined
+    if (submitOnly) status = submitter?.value === 'draft' ? 'draft' : 'submitted'
+    else if ((!entry || entry.is_budget) && !isBudget)
+      status = needsApproval(amountExVat, threshold) ? 'submitted' : 'approved'
+
+    const values = {
       category: data.get('category') as string,
+      subcategory: (data.get('subcategory') as string).trim() || null,
       description: (data.get('description') as string) || null,
       amount_ex_vat: amountExVat,
       vat_rate: vatRate,
       vat_amount: vatAmount,
       supplier: (data.get('supplier') as string) || null,
-      is_budget: data.get('is_budget') === 'true',
+      is_budget: isBudget,
+      budget_version_id: isBudget ? (entry?.budget_version_id ?? budgetVersion?.id ?? null) : null,
       date: (data.get('date') as string) || null,
-    })
+      ...(status && { status }),
+    }
+    const { error: saveError } = entry
+      ? await supabase.from('expenses').update(values).eq('id', entry.id)
+      : await supabase.from('expenses').insert({ festival_id: festivalId, edition_id: editionId, ...values })
 
     setSaving(false)
+    if (saveError) {
+      setError(saveError.message)
+      return
+    }
     onSaved()
   }
 
@@ -796,15 +1220,39 @@ function ExpenseForm({
         <select
           name="category"
           required
+          value={selectedCategory}
+          onChange={(e) => setCategory(e.target.value)}
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
         >
-          {EXPENSE_CATEGORIES.map((cat) => (
-            <option key={cat} value={cat}>
-              {t(`economy.expenseCategories.${cat}`)}
-            </option>
-          ))}
+          {categories
+            .filter((c) => !c.archived || c.slug === entry?.category)
+            .map((c) => (
+              <option key={c.slug} value={c.slug}>
+                {c.name}
+              </option>
+            ))}
+          {entry && !categories.some((c) => c.slug === entry.category) && (
+            <option value={entry.category}>{entry.category}</option>
+          )}
         </select>
       </div>
+      <div>
+        <label className="block text-xs font-medium text-text-muted">
+          {t('economy.subcategory')}
+        </label>
+        <input
+          name="subcategory"
+          type="text"
+          list={subcategoryList}
+          defaultValue={entry?.subcategory ?? ''}
+          className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+        />
+        <datalist id={subcategoryList}>
+          {(subcategories.get(selectedCategory) ?? []).map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </div>
       <div>
         <label className="block text-xs font-medium text-text-muted">
           {t('economy.description')}
@@ -812,6 +1260,7 @@ function ExpenseForm({
         <input
           name="description"
           type="text"
+          defaultValue={entry?.description ?? ''}
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
         />
       </div>
@@ -822,6 +1271,7 @@ function ExpenseForm({
         <input
           name="amount_ex_vat"
           type="number"
+          defaultValue={entry?.amount_ex_vat ?? ''}
           step="0.01"
           required
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
@@ -833,6 +1283,7 @@ function ExpenseForm({
         </label>
         <select
           name="vat_rate"
+          defaultValue={entry?.vat_rate ?? VAT_RATES[0].value}
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
         >
           {VAT_RATES.map((r) => (
@@ -840,6 +1291,9 @@ function ExpenseForm({
               {r.label}
             </option>
           ))}
+          {entry?.vat_rate != null && !VAT_RATES.some((r) => r.value === entry.vat_rate) && (
+            <option value={entry.vat_rate}>{(entry.vat_rate * 100).toFixed(0)}%</option>
+          )}
         </select>
       </div>
       <div>
@@ -849,6 +1303,7 @@ function ExpenseForm({
         <input
           name="supplier"
           type="text"
+          defaultValue={entry?.supplier ?? ''}
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
         />
       </div>
@@ -859,29 +1314,57 @@ function ExpenseForm({
         <input
           name="date"
           type="date"
+          defaultValue={entry?.date ?? ''}
           className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
         />
       </div>
-      <div>
-        <label className="block text-xs font-medium text-text-muted">
-          {t('economy.budget')}/{t('economy.actual')}
-        </label>
-        <select
-          name="is_budget"
-          className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
-        >
-          <option value="false">{t('economy.actual')}</option>
-          <option value="true">{t('economy.budget')}</option>
-        </select>
-      </div>
+      {!submitOnly && (
+        <div>
+          <label className="block text-xs font-medium text-text-muted">
+            {t('economy.budget')}/{t('economy.actual')}
+          </label>
+          <select
+            name="is_budget"
+            defaultValue={String(entry?.is_budget ?? false)}
+            className="mt-1 block w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+          >
+            <option value="false">{t('economy.actual')}</option>
+            <option value="true" disabled={!!budgetVersion?.locked_at && !entry?.is_budget}>
+              {t('economy.budget')}
+              {budgetVersion && !entry?.is_budget ? ` (${budgetVersion.name})` : ''}
+            </option>
+          </select>
+        </div>
+      )}
       <div className="flex items-end gap-2">
-        <button
-          type="submit"
-          disabled={saving}
-          className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
-        >
-          {saving ? t('common.loading') : t('common.save')}
-        </button>
+        {submitOnly ? (
+          <>
+            <button
+              type="submit"
+              value="submitted"
+              disabled={saving}
+              className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+            >
+              {saving ? t('common.loading') : t('economy.submitForApproval')}
+            </button>
+            <button
+              type="submit"
+              value="draft"
+              disabled={saving}
+              className="rounded-lg border border-border px-4 py-2 text-sm font-medium text-text-body hover:bg-surface-hover disabled:opacity-50"
+            >
+              {t('economy.saveDraft')}
+            </button>
+          </>
+        ) : (
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-dark disabled:opacity-50"
+          >
+            {saving ? t('common.loading') : t('common.save')}
+          </button>
+        )}
         <button
           type="button"
           onClick={onCancel}
@@ -890,6 +1373,7 @@ function ExpenseForm({
           {t('common.cancel')}
         </button>
       </div>
+      {error && <p className="text-sm text-danger sm:col-span-2 lg:col-span-4">{error}</p>}
     </form>
   )
 }
@@ -5,79 +5,101 @@ import { useAuthContext } from '@/contexts/AuthContext'
 import { supabase } from '@/lib/supabase'
 import {
   exportAccountingTicketsCsv,
+  exportAccountingOutletCsv,
   exportAccountingVatCsv,
   exportAccountingSummaryCsv,
+  exportAccountingLedgerCsv,
   exportEconomyCsv,
   groupSalesByVat,
 } from '@/lib/export-csv'
 import { generateSponsorReportPdf, generateAnnualReportPdf } from '@/lib/report-pdf'
-import type { Festival, TicketSale, Income, Expense, Sponsor, SponsorDeliverable } from '@/types/database'
+import { countedSales, filterByOutlet, splitByCategory } from '@/lib/sales-utils'
+import { fetchSaleRows, type SaleGroup } from '@/lib/sales-rows'
+import { DEFAULT_TIMEZONE } from '@/lib/timezone'
+import { downloadVoucherZip, signedVoucherUrls } from '@/lib/vouchers'
+import { COUNTED_EXPENSE_STATUSES } from '@/lib/expense-status'
+import type { CategoryIndex } from '@/lib/accounts'
+import { useOutlets } from '@/hooks/useOutlets'
+import { useSalesSummary } from '@/hooks/useSalesSummary'
+import { useEconomyAttachments } from '@/hooks/useEconomyAttachments'
+import { useAccountCategories } from '@/hooks/useAccountCategories'
+import EventFilter from '@/components/sales/EventFilter'
+import OutletFilter from '@/components/sales/OutletFilter'
+import type { Festival, FestivalEdition, Outlet, SaleLine, Income, Expense, Sponsor, SponsorDeliverable } from '@/types/database'
 
 type Tab = 'accounting' | 'sponsor' | 'annual'
 
+// Voucher links in the summary CSV stay valid for 30 days
+const VOUCHER_LINK_TTL_SECONDS = 30 * 24 * 60 * 60
+
 export default function ReportsPage() {
   const { t } = useTranslation()
-  const { festival } = useAuthContext()
+  const { festival, edition } = useAuthContext()
   const currency = festival?.currency ?? 'NOK'
+  const timeZone = festival?.timezone ?? DEFAULT_TIMEZONE
 
   const [tab, setTab] = useState<Tab>('accounting')
-  const [sales, setSales] = useState<TicketSale[]>([])
   const [income, setIncome] = useState<Income[]>([])
   const [expenses, setExpenses] = useState<Expense[]>([])
   const [sponsors, setSponsors] = useState<Sponsor[]>([])
   const [deliverables, setDeliverables] = useState<SponsorDeliverable[]>([])
-  const [loading, setLoading] = useState(true)
+  const [dataLoading, setDataLoading] = useState(true)
   const [dateFrom, setDateFrom] = useState('')
   const [dateTo, setDateTo] = useState('')
+  const [eventId, setEventId] = useState('')
+  const [outletId, setOutletId] = useState('')
+  // The annual report covers the whole edition; the filters belong to the accounting tab
+  const { summary, loading: salesLoading, error: salesError } = useSalesSummary(
+    tab === 'annual' ? {} : { dateFrom, dateTo, eventId, outletId },
+  )
+  const { outlets } = useOutlets()
+  const { attachments } = useEconomyAttachments()
+  const { index: categories } = useAccountCategories()
 
   const fetchData = useCallback(async () => {
-    if (!festival) return
-    const [salesRes, incRes, expRes, sponRes, delRes] = await Promise.all([
-      supabase
-        .from('ticket_sales')
-        .select('*')
-        .eq('festival_id', festival.id)
-        .order('sold_at', { ascending: true }),
+    if (!festival || !edition) return
+    const [incRes, expRes, sponRes, delRes] = await Promise.all([
       supabase
         .from('income')
         .select('*')
         .eq('festival_id', festival.id)
+        .eq('edition_id', edition.id)
         .eq('is_budget', false),
       supabase
         .from('expenses')
         .select('*')
         .eq('festival_id', festival.id)
-        .eq('is_budget', false),
+        .eq('edition_id', edition.id)
+        .eq('is_budget', false)
+        .in('status', COUNTED_EXPENSE_STATUSES),
       supabase
         .from('sponsors')
         .select('*')
         .eq('festival_id', festival.id)
+        .eq('edition_id', edition.id)
         .order('created_at', { ascending: true }),
       supabase
         .from('sponsor_deliverables')
         .select('*')
         .eq('festival_id', festival.id),
     ])
-    if (salesRes.data) setSales(salesRes.data)
     if (incRes.data) setIncome(incRes.data)
     if (expRes.data) setExpenses(expRes.data)
     if (sponRes.data) setSponsors(sponRes.data)
     if (delRes.data) setDeliverables(delRes.data)
-    setLoading(false)
-  }, [festival?.id])
+    setDataLoading(false)
+  }, [festival?.id, edition?.id])
 
   useEffect(() => {
     fetchData()
   }, [fetchData])
 
-  // Filter data by date range
-  const filteredSales = useMemo(() => {
-    let result = sales
-    if (dateFrom) result = result.filter((s) => (s.sold_at ?? '') >= dateFrom)
-    if (dateTo) result = result.filter((s) => (s.sold_at ?? '') <= dateTo + 'T23:59:59')
-    return result
-  }, [sales, dateFrom, dateTo])
+  // Sales are filtered in the database; the VAT groups carry every total the reports use
+  const filteredSales = summary.by_vat
+  // The outlet groups leave the outlet filter out
+  const outletSales = useMemo(() => filterByOutlet(summary.by_outlet, outletId), [summary, outletId])
 
+  // Filter data by date range
   const filteredIncome = useMemo(() => {
     let result = income
     if (dateFrom) result = result.filter((i) => (i.date ?? '') >= dateFrom)
@@ -92,16 +114,43 @@ export default function ReportsPage() {
     return result
   }, [expenses, dateFrom, dateTo])
 
-  const tickets = useMemo(
-    () => filteredSales.filter((s) => s.category !== 'fb'),
-    [filteredSales],
-  )
-  const fnb = useMemo(
-    () => filteredSales.filter((s) => s.category === 'fb'),
-    [filteredSales],
-  )
+  const { tickets, fnb, other } = useMemo(() => splitByCategory(filteredSales), [filteredSales])
   const vatBuckets = useMemo(() => groupSalesByVat(filteredSales), [filteredSales])
 
+  // Line-level exports load the rows behind the summary
+  const exportLines = async (group: SaleGroup, filename: string) => {
+    if (!festival || !edition) return
+    const { data, error } = await fetchSaleRows(festival.id, edition.id, { dateFrom, dateTo, eventId, outletId }, group, timeZone)
+    if (error) {
+      alert(error.message)
+      return
+    }
+    exportAccountingTicketsCsv(data ?? [], outlets, filename, timeZone)
+  }
+
+  // Vouchers of the entries in the period
+  const periodAttachments = useMemo(() => {
+    const ids = new Set([...filteredIncome, ...filteredExpenses].map((e) => e.id))
+    return attachments.filter((a) => ids.has(a.income_id ?? a.expense_id!))
+  }, [attachments, filteredIncome, filteredExpenses])
+
+  // The summary lists each entry's vouchers as signed links
+  const exportSummary = async (filename: string) => {
+    const urls = await signedVoucherUrls(periodAttachments, VOUCHER_LINK_TTL_SECONDS)
+    const links = new Map<string, string[]>()
+    for (const a of periodAttachments) {
+      const url = urls.get(a.id)
+      const entryId = a.income_id ?? a.expense_id!
+      if (url) links.set(entryId, [...(links.get(entryId) ?? []), url])
+    }
+    exportAccountingSummaryCsv(filteredSales, filteredIncome, filteredExpenses, categories, filename, links)
+  }
+
+  const exportVouchers = async (filename: string) => {
+    const count = await downloadVoucherZip(filteredIncome, filteredExpenses, periodAttachments, filename)
+    if (count === 0) alert(t('reports.noVouchers'))
+  }
+
   const fmt = (n: number) =>
     new Intl.NumberFormat('nb-NO', {
       style: 'currency',
@@ -133,7 +182,7 @@ export default function ReportsPage() {
     { key: 'annual', label: t('reports.annualReport') },
   ]
 
-  if (loading) {
+  if (salesLoading || dataLoading) {
     return (
       <div className="flex items-center justify-center py-20">
         <div className="h-8 w-8 animate-spin rounded-full border-2 border-border border-t-primary" />
@@ -145,6 +194,8 @@ export default function ReportsPage() {
     <div className="space-y-8">
       <h1 className="text-2xl font-bold">{t('reports.title')}</h1>
 
+      {salesError && <p className="text-sm text-danger">{salesError}</p>}
+
       {/* Tabs */}
       <div className="flex gap-1 rounded-lg bg-surface-alt p-1">
         {tabs.map((tb) => (
@@ -170,16 +221,28 @@ export default function ReportsPage() {
           dateTo={dateTo}
           setDateFrom={setDateFrom}
           setDateTo={setDateTo}
+          eventId={eventId}
+          setEventId={setEventId}
+          outletId={outletId}
+          setOutletId={setOutletId}
+          outlets={outlets}
+          categories={categories}
           filteredSales={filteredSales}
+          outletSales={outletSales}
           filteredIncome={filteredIncome}
           filteredExpenses={filteredExpenses}
           tickets={tickets}
           fnb={fnb}
+          other={other}
           vatBuckets={vatBuckets}
           totalTicketInc={totalTicketInc}
           totalFnbInc={totalFnbInc}
           totalIncomeAmt={totalIncomeAmt}
           totalExpensesAmt={totalExpensesAmt}
+          exportLines={exportLines}
+          exportSummary={exportSummary}
+          exportVouchers={exportVouchers}
+          voucherCount={periodAttachments.length}
         />
       )}
 
@@ -197,7 +260,8 @@ export default function ReportsPage() {
         <AnnualReportTab
           t={t}
           festival={festival!}
-          sales={sales}
+          edition={edition!}
+          sales={summary.by_date_type}
           income={income}
           expenses={expenses}
           sponsors={sponsors}
@@ -217,16 +281,28 @@ function AccountingExportTab({
   dateTo,
   setDateFrom,
   setDateTo,
+  eventId,
+  setEventId,
+  outletId,
+  setOutletId,
+  outlets,
+  categories,
   filteredSales,
+  outletSales,
   filteredIncome,
   filteredExpenses,
   tickets,
   fnb,
+  other,
   vatBuckets,
   totalTicketInc,
   totalFnbInc,
   totalIncomeAmt,
   totalExpensesAmt,
+  exportLines,
+  exportSummary,
+  exportVouchers,
+  voucherCount,
 }: {
   t: (key: string) => string
   fmt: (n: number) => string
@@ -234,16 +310,29 @@ function AccountingExportTab({
   dateTo: string
   setDateFrom: (v: string) => void
   setDateTo: (v: string) => void
-  filteredSales: TicketSale[]
+  eventId: string
+  setEventId: (v: string) => void
+  outletId: string
+  setOutletId: (v: string) => void
+  outlets: Outlet[]
+  categories: CategoryIndex
+  filteredSales: SaleLine[]
+  /** Sales per outlet, for the outlet export */
+  outletSales: SaleLine[]
   filteredIncome: Income[]
   filteredExpenses: Expense[]
-  tickets: TicketSale[]
-  fnb: TicketSale[]
+  tickets: SaleLine[]
+  fnb: SaleLine[]
+  other: SaleLine[]
   vatBuckets: { rate: number; label: string; exVat: number; vatAmount: number; incVat: number; count: number }[]
   totalTicketInc: number
   totalFnbInc: number
   totalIncomeAmt: number
   totalExpensesAmt: number
+  exportLines: (group: SaleGroup, filename: string) => void
+  exportSummary: (filename: string) => void
+  exportVouchers: (filename: string) => void
+  voucherCount: number
 }) {
   const slug = dateFrom && dateTo ? `${dateFrom}_${dateTo}` : 'total'
 
@@ -287,6 +376,8 @@ function AccountingExportTab({
             {t('reports.allTime')}
           </button>
         )}
+        <EventFilter value={eventId} onChange={setEventId} />
+        <OutletFilter value={outletId} onChange={setOutletId} />
       </div>
 
       {/* Summary cards */}
@@ -371,23 +462,32 @@ function AccountingExportTab({
         <ExportButton
           label={t('reports.exportTicketSales')}
           disabled={filteredSales.length === 0}
-          onClick={() =>
-            exportAccountingTicketsCsv(
-              filteredSales.filter((s) => s.category !== 'fb'),
-              `regnskap-billettsalg-${slug}.csv`,
-            )
-          }
+          onClick={() => exportLines('tickets', `regnskap-billettsalg-${slug}.csv`)}
         />
         <ExportButton
           label={t('reports.exportFnb')}
           disabled={fnb.length === 0}
-          onClick={() =>
-            exportAccountingTicketsCsv(
-              fnb,
-              `regnskap-mat-drikke-${slug}.csv`,
-            )
-          }
+          onClick={() => exportLines('fnb', `regnskap-mat-drikke-${slug}.csv`)}
         />
+        {other.length > 0 && (
+          <ExportButton
+            label={t('reports.exportOtherSales')}
+            onClick={() => exportLines('other', `regnskap-annet-salg-${slug}.csv`)}
+          />
+        )}
+        {outlets.length > 0 && (
+          <ExportButton
+            label={t('reports.exportOutlets')}
+            disabled={filteredSales.length === 0}
+            onClick={() =>
+              exportAccountingOutletCsv(
+                outletSales,
+                outlets,
+                `regnskap-utsalgssted-${slug}.csv`,
+              )
+            }
+          />
+        )}
         <ExportButton
           label={t('reports.exportVatSummary')}
           disabled={filteredSales.length === 0 && filteredIncome.length === 0}
@@ -396,6 +496,7 @@ function AccountingExportTab({
               filteredSales,
               filteredIncome,
               filteredExpenses,
+              categories,
               `regnskap-mva-oversikt-${slug}.csv`,
             )
           }
@@ -407,15 +508,25 @@ function AccountingExportTab({
             filteredIncome.length === 0 &&
             filteredExpenses.length === 0
           }
+          onClick={() => exportSummary(`regnskap-sammendrag-${slug}.csv`)}
+        />
+        <ExportButton
+          label={t('reports.exportLedger')}
+          disabled={filteredIncome.length === 0 && filteredExpenses.length === 0}
           onClick={() =>
-            exportAccountingSummaryCsv(
-              filteredSales,
+            exportAccountingLedgerCsv(
               filteredIncome,
               filteredExpenses,
-              `regnskap-sammendrag-${slug}.csv`,
+              categories,
+              `regnskap-posteringer-${slug}.csv`,
             )
           }
         />
+        <ExportButton
+          label={t('reports.exportVouchers')}
+          disabled={voucherCount === 0}
+          onClick={() => exportVouchers(`regnskap-bilag-${slug}.zip`)}
+        />
       </div>
 
       {/* Economy export */}
@@ -427,6 +538,7 @@ function AccountingExportTab({
               exportEconomyCsv(
                 filteredIncome,
                 filteredExpenses,
+                categories,
                 `regnskap-okonomi-${slug}.csv`,
               )
             }
@@ -573,6 +685,7 @@ function SponsorReportTab({
 function AnnualReportTab({
   t,
   festival,
+  edition,
   sales,
   income,
   expenses,
@@ -581,16 +694,18 @@ function AnnualReportTab({
 }: {
   t: (key: string) => string
   festival: Festival
-  sales: TicketSale[]
+  edition: FestivalEdition
+  sales: SaleLine[]
   income: Income[]
   expenses: Expense[]
   sponsors: Sponsor[]
   fmt: (n: number) => string
 }) {
-  const tickets = sales.filter((s) => s.category !== 'fb')
-  const fnb = sales.filter((s) => s.category === 'fb')
+  const { tickets, fnb, other } = splitByCategory(countedSales(sales))
   const ticketRev = tickets.reduce((s, r) => s + (r.price_inc_vat ?? 0) * r.quantity, 0)
   const fnbRev = fnb.reduce((s, r) => s + (r.price_inc_vat ?? 0) * r.quantity, 0)
+  const otherRev = other.reduce((s, r) => s + (r.price_inc_vat ?? 0) * r.quantity, 0)
+  const salesRev = ticketRev + fnbRev + otherRev
   const actualIncome = income.filter((i) => !i.is_budget)
   const actualExpenses = expenses.filter((e) => !e.is_budget)
   const totalInc = actualIncome.reduce(
@@ -606,8 +721,8 @@ function AnnualReportTab({
   const sponsorAmount = sponsors.reduce((s, sp) => s + (sp.agreement_amount ?? 0), 0)
 
   const handleGenerate = () => {
-    const doc = generateAnnualReportPdf(festival, sales, income, expenses, sponsors)
-    doc.save(`arsrapport-${festival.slug ?? festival.name.toLowerCase()}.pdf`)
+    const doc = generateAnnualReportPdf(festival, edition, sales, income, expenses, sponsors)
+    doc.save(`arsrapport-${festival.slug ?? festival.name.toLowerCase()}-${edition.year}.pdf`)
   }
 
   return (
@@ -626,8 +741,8 @@ function AnnualReportTab({
         />
         <SummaryCard
           label={t('economy.result')}
-          value={fmt(totalInc + ticketRev + fnbRev - totalExp)}
-          sub={`${t('economy.income')}: ${fmt(totalInc + ticketRev + fnbRev)}`}
+          value={fmt(totalInc + salesRev - totalExp)}
+          sub={`${t('economy.income')}: ${fmt(totalInc + salesRev)}`}
         />
         <SummaryCard
           label={t('sponsors.totalAmount')}
@@ -662,6 +777,14 @@ function AnnualReportTab({
                   {fmt(fnbRev)}
                 </td>
               </tr>
+              {other.length > 0 && (
+                <tr className="border-b border-border-light">
+                  <td className="py-2 pr-4 text-text-body">{t('reports.otherSales')}</td>
+                  <td className="py-2 text-right font-medium text-text-heading">
+                    {fmt(otherRev)}
+                  </td>
+                </tr>
+              )}
               <tr className="border-b border-border-light">
                 <td className="py-2 pr-4 text-text-body">{t('reports.totalIncome')}</td>
                 <td className="py-2 text-right font-medium text-success">
@@ -679,7 +802,7 @@ function AnnualReportTab({
                   {t('economy.result')}
                 </td>
                 <td className="py-2 text-right text-lg font-bold text-text-heading">
-                  {fmt(totalInc + ticketRev + fnbRev - totalExp)}
+                  {fmt(totalInc + salesRev - totalExp)}
                 </td>
               </tr>
             </tbody>
@@ -1,6 +1,6 @@
-import { useMemo } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import { Download, TrendingUp, Ticket, ShoppingBag } from 'lucide-react'
+import { Download, TrendingUp, Ticket, ShoppingBag, Upload, Package } from 'lucide-react'
 import {
   LineChart,
   Line,
@@ -16,16 +16,40 @@ import {
   ResponsiveContainer,
 } from 'recharts'
 import { useAuthContext } from '@/contexts/AuthContext'
-import { useTicketSales } from '@/hooks/useTicketSales'
+import { useSalesSummary } from '@/hooks/useSalesSummary'
 import {
   groupByDate,
   groupByType,
   groupByChannel,
-  computeForecast,
   splitByCategory,
   totalStats,
+  groupByOutlet,
+  NO_OUTLET,
+  filterByOutlet,
+  daysBetween,
 } from '@/lib/sales-utils'
+import { buildEditions, salesToEditionDays } from '@/lib/year-comparison'
+import { computeSalesForecast } from '@/lib/forecast'
+import { computeTicketInventory } from '@/lib/ticket-inventory'
+import { EMPTY_FILTERS, isFiltered, type SalesFilters } from '@/lib/sales-filters'
+import { fetchSaleRows, type SaleGroup } from '@/lib/sales-rows'
+import { DEFAULT_TIMEZONE, todayIn } from '@/lib/timezone'
+import { useSalesHistory } from '@/hooks/useSalesHistory'
+import { useTicketTypes } from '@/hooks/useTicketTypes'
+import { useFnbProducts } from '@/hooks/useFnbProducts'
+import { useOutlets } from '@/hooks/useOutlets'
 import { exportSalesCsv } from '@/lib/export-csv'
+import SalesImport from '@/components/sales/SalesImport'
+import StaleSyncBanner from '@/components/sales/StaleSyncBanner'
+import ForecastPanel from '@/components/sales/ForecastPanel'
+import YearComparison from '@/components/sales/YearComparison'
+import TicketInventory from '@/components/sales/TicketInventory'
+import IntradayPanel from '@/components/sales/IntradayPanel'
+import FnbHourlyPanel from '@/components/sales/FnbHourlyPanel'
+import FnbAnalytics from '@/components/sales/FnbAnalytics'
+import SalesFilterBar from '@/components/sales/SalesFilterBar'
+import SalesTransactions from '@/components/sales/SalesTransactions'
+import OutletBreakdown from '@/components/sales/OutletBreakdown'
 
 const COLORS = ['#6366F1', '#22C55E', '#F59E0B', '#EF4444', '#A855F7', '#EC4899', '#06B6D4', '#F97316']
 
@@ -56,23 +80,97 @@ function formatCurrency(amount: number, currency: string) {
   }).format(amount)
 }
 
+/** Chart element clicked through to its transactions */
+interface Drill {
+  title: string
+  source: 'tickets' | 'fnb' | 'all'
+  filters: Partial<SalesFilters>
+}
+
 export default function SalesPage() {
   const { t } = useTranslation()
-  const { festival } = useAuthContext()
-  const { sales, loading } = useTicketSales()
+  const { festival, edition, profile } = useAuthContext()
+  const { history } = useSalesHistory()
+  const { ticketTypes } = useTicketTypes()
+  const { fnbProducts } = useFnbProducts()
+  const { outlets } = useOutlets()
   const currency = festival?.currency ?? 'NOK'
+  const timeZone = festival?.timezone ?? DEFAULT_TIMEZONE
+  const isAdmin = profile?.role === 'admin'
+  const [showImport, setShowImport] = useState(false)
+  const [filters, setFilters] = useState<SalesFilters>(EMPTY_FILTERS)
+  const { summary, loading, error, refetch } = useSalesSummary(filters)
+  const [drill, setDrill] = useState<Drill | null>(null)
+  const drillRef = useRef<HTMLDivElement>(null)
+  // History and capacity are festival-wide, so they only apply to unfiltered sales
+  const partial = isFiltered(filters)
+
+  // The summary is filtered in the database: sales over time, and per date and ticket type
+  const { tickets, fnb, other } = useMemo(() => splitByCategory(summary.by_time), [summary])
+  const byDateType = useMemo(() => splitByCategory(summary.by_date_type), [summary])
+  // Every outlet side by side, so the outlet filter does not apply here
+  const byOutlet = useMemo(() => groupByOutlet(summary.by_outlet, outlets), [summary, outlets])
+  const fnbByOutlet = useMemo(
+    () => filterByOutlet(splitByCategory(summary.by_outlet).fnb, filters.outletId),
+    [summary, filters.outletId],
+  )
+  // The clicked element narrows the page filters
+  const drillFilters = useMemo(() => (drill ? { ...filters, ...drill.filters } : null), [drill, filters])
+
+  useEffect(() => {
+    if (drill) drillRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+  }, [drill])
+
+  // Line-level exports load the rows behind the summary
+  const exportLines = async (group: SaleGroup, filename: string) => {
+    if (!festival || !edition) return
+    const { data, error: rowsError } = await fetchSaleRows(festival.id, edition.id, filters, group, timeZone)
+    if (rowsError) {
+      alert(rowsError.message)
+      return
+    }
+    exportSalesCsv(data ?? [], filename, timeZone)
+  }
 
-  const { tickets, fnb } = useMemo(() => splitByCategory(sales), [sales])
-  const stats = useMemo(() => totalStats(tickets), [tickets])
-  const fnbStats = useMemo(() => totalStats(fnb), [fnb])
-  const dailySales = useMemo(() => groupByDate(tickets), [tickets])
-  const byType = useMemo(() => groupByType(tickets), [tickets])
-  const byChannel = useMemo(() => groupByChannel(tickets), [tickets])
+  const channelLabel = (channel: string) => (channel === 'web' ? t('sales.web') : t('sales.pos'))
+  const stats = useMemo(() => totalStats(tickets, timeZone), [tickets, timeZone])
+  const fnbStats = useMemo(() => totalStats(fnb, timeZone), [fnb, timeZone])
+  const otherStats = useMemo(() => totalStats(other, timeZone), [other, timeZone])
+  const dailySales = useMemo(() => groupByDate(tickets, timeZone), [tickets, timeZone])
+  const byType = useMemo(() => groupByType(byDateType.tickets), [byDateType])
+  const byChannel = useMemo(() => groupByChannel(splitByCategory(summary.by_channel).tickets), [summary])
+  // A filtered selection is forecast on its trend alone, and only on
+  // editions before the one shown
   const forecast = useMemo(
-    () => computeForecast(dailySales, festival?.start_date ?? null),
-    [dailySales, festival?.start_date],
+    () =>
+      computeSalesForecast({
+        dailySales,
+        festivalStartDate: edition?.start_date ?? null,
+        capacity: partial ? null : (edition?.capacity ?? null),
+        history: partial || !edition ? [] : history.filter((h) => h.edition_year < edition.year),
+        timeZone,
+      }),
+    [dailySales, edition, history, partial, timeZone],
+  )
+  const fnbByType = useMemo(() => groupByType(byDateType.fnb), [byDateType])
+  const inventory = useMemo(
+    () =>
+      ticketTypes.length > 0
+        ? computeTicketInventory(ticketTypes, byDateType.tickets, partial ? null : (edition?.capacity ?? null))
+        : null,
+    [ticketTypes, byDateType, partial, edition?.capacity],
+  )
+
+  // Earlier editions are festival-wide, so there is nothing to compare a filtered selection with
+  const startDate = edition?.start_date ?? null
+  const editionYear = edition?.year ?? null
+  const editions = useMemo(
+    () =>
+      startDate && editionYear && !partial
+        ? buildEditions(editionYear, salesToEditionDays(byDateType.tickets, startDate, timeZone), history)
+        : null,
+    [startDate, editionYear, partial, byDateType, history, timeZone],
   )
-  const fnbByType = useMemo(() => groupByType(fnb), [fnb])
 
   if (loading) {
     return (
@@ -88,8 +186,17 @@ export default function SalesPage() {
       <div className="flex flex-wrap items-center justify-between gap-4">
         <h1 className="text-2xl font-bold">{t('sales.title')}</h1>
         <div className="flex gap-2">
+          {isAdmin && (
+            <button
+              onClick={() => setShowImport(!showImport)}
+              className="flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body hover:bg-surface-hover"
+            >
+              <Upload size={16} />
+              {t('sales.importSales')}
+            </button>
+          )}
           <button
-            onClick={() => exportSalesCsv(tickets, `billettsalg-${new Date().toISOString().slice(0, 10)}.csv`)}
+            onClick={() => exportLines('tickets', `billettsalg-${todayIn(timeZone)}.csv`)}
             className="flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body hover:bg-surface-hover"
           >
             <Download size={16} />
@@ -97,7 +204,7 @@ export default function SalesPage() {
           </button>
           {fnb.length > 0 && (
             <button
-              onClick={() => exportSalesCsv(fnb, `mat-drikke-${new Date().toISOString().slice(0, 10)}.csv`)}
+              onClick={() => exportLines('fnb', `mat-drikke-${todayIn(timeZone)}.csv`)}
               className="flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text-body hover:bg-surface-hover"
             >
               <Download size={16} />
@@ -107,6 +214,32 @@ export default function SalesPage() {
         </div>
       </div>
 
+      <StaleSyncBanner />
+
+      <SalesFilterBar
+        filters={filters}
+        onChange={(next) => {
+          setFilters(next)
+          setDrill(null)
+        }}
+        ticketTypes={summary.ticketTypes}
+      />
+
+      {error && <p className="text-sm text-danger">{error}</p>}
+
+      {showImport && isAdmin && (
+        <SalesImport
+          festivalId={festival!.id}
+          editionId={edition!.id}
+          timeZone={timeZone}
+          onDone={() => {
+            setShowImport(false)
+            refetch()
+          }}
+          onCancel={() => setShowImport(false)}
+        />
+      )}
+
       {/* Stat cards */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
         <StatCard
@@ -128,22 +261,53 @@ export default function SalesPage() {
             sub={`${fnbStats.totalTickets} ${t('sales.items')}`}
           />
         )}
+        {other.length > 0 && (
+          <StatCard
+            icon={Package}
+            label={t('sales.otherSales')}
+            value={formatCurrency(otherStats.totalRevenue, currency)}
+            sub={`${otherStats.totalTickets} ${t('sales.items')}`}
+          />
+        )}
         {forecast && (
           <StatCard
             icon={TrendingUp}
             label={t('sales.forecast')}
             value={forecast.projectedTotal.toLocaleString('nb-NO')}
-            sub={`${forecast.avgPerDay} ${t('sales.perDay')} · ${forecast.daysUntilFestival} ${t('sales.daysLeft')}`}
+            sub={`${forecast.low.toLocaleString('nb-NO')}–${forecast.high.toLocaleString('nb-NO')} · ${forecast.daysUntilFestival} ${t('sales.daysLeft')}`}
           />
         )}
       </div>
 
+      {inventory && <TicketInventory inventory={inventory} />}
+
+      {editions && (
+        <YearComparison
+          editions={editions}
+          daysBefore={daysBetween(todayIn(timeZone), startDate!)}
+          currency={currency}
+        />
+      )}
+
+      {forecast && <ForecastPanel forecast={forecast} capacity={partial ? null : (edition?.capacity ?? null)} />}
+
       {/* Sales over time */}
       {dailySales.length > 0 && (
         <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
           <h2 className="mb-4 text-lg font-semibold">{t('sales.salesOverTime')}</h2>
           <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={dailySales}>
+            <LineChart
+              data={dailySales}
+              onClick={(state) =>
+                state?.activeLabel &&
+                setDrill({
+                  title: `${t('sales.tickets')} · ${state.activeLabel}`,
+                  source: 'tickets',
+                  filters: { dateFrom: state.activeLabel, dateTo: state.activeLabel },
+                })
+              }
+              className="cursor-pointer"
+            >
               <CartesianGrid strokeDasharray="3 3" stroke="#E7E5E4" />
               <XAxis
                 dataKey="date"
@@ -169,6 +333,8 @@ export default function SalesPage() {
         </div>
       )}
 
+      {tickets.length > 0 && <IntradayPanel tickets={tickets} timeZone={timeZone} />}
+
       {/* By type + by channel */}
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
         {/* Per ticket type */}
@@ -176,7 +342,15 @@ export default function SalesPage() {
           <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
             <h2 className="mb-4 text-lg font-semibold">{t('sales.byTicketType')}</h2>
             <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={byType} layout="vertical">
+              <BarChart
+                data={byType}
+                layout="vertical"
+                onClick={(state) =>
+                  state?.activeLabel &&
+                  setDrill({ title: state.activeLabel, source: 'tickets', filters: { ticketType: state.activeLabel } })
+                }
+                className="cursor-pointer"
+              >
                 <CartesianGrid strokeDasharray="3 3" stroke="#E7E5E4" />
                 <XAxis type="number" stroke="#A8A29E" fontSize={12} />
                 <YAxis
@@ -210,8 +384,16 @@ export default function SalesPage() {
                   cy="50%"
                   outerRadius={100}
                   label={({ channel, tickets }: { channel: string; tickets: number }) =>
-                    `${channel === 'web' ? t('sales.web') : t('sales.pos')}: ${tickets}`
+                    `${channelLabel(channel)}: ${tickets}`
+                  }
+                  onClick={({ channel }: { channel: 'web' | 'pos' }) =>
+                    setDrill({
+                      title: `${t('sales.tickets')} · ${channelLabel(channel)}`,
+                      source: 'tickets',
+                      filters: { channel },
+                    })
                   }
+                  className="cursor-pointer"
                 >
                   {byChannel.map((_, i) => (
                     <Cell key={i} fill={COLORS[i % COLORS.length]} />
@@ -226,12 +408,49 @@ export default function SalesPage() {
         )}
       </div>
 
+      {drill && drillFilters && (
+        <div ref={drillRef} className="scroll-mt-4">
+          <SalesTransactions
+            key={drill.title}
+            title={drill.title}
+            filters={drillFilters}
+            group={drill.source}
+            outlets={outlets}
+            timeZone={timeZone}
+            currency={currency}
+            onClose={() => setDrill(null)}
+          />
+        </div>
+      )}
+
+      {outlets.length > 0 && byOutlet.length > 0 && (
+        <OutletBreakdown
+          rows={byOutlet}
+          currency={currency}
+          onSelect={(row) =>
+            setDrill({
+              title: row.name ?? t('sales.noOutlet'),
+              source: 'all',
+              filters: { outletId: row.outletId ?? NO_OUTLET },
+            })
+          }
+        />
+      )}
+
       {/* F&B section */}
       {fnbByType.length > 0 && (
         <div className="rounded-xl border border-border bg-surface p-5 shadow-sm">
           <h2 className="mb-4 text-lg font-semibold">{t('sales.fnb')}</h2>
           <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={fnbByType} layout="vertical">
+            <BarChart
+              data={fnbByType}
+              layout="vertical"
+              onClick={(state) =>
+                state?.activeLabel &&
+                setDrill({ title: state.activeLabel, source: 'fnb', filters: { ticketType: state.activeLabel } })
+              }
+              className="cursor-pointer"
+            >
               <CartesianGrid strokeDasharray="3 3" stroke="#E7E5E4" />
               <XAxis type="number" stroke="#A8A29E" fontSize={12} />
               <YAxis
@@ -251,8 +470,29 @@ export default function SalesPage() {
         </div>
       )}
 
+      {fnb.length > 0 && (
+        <FnbAnalytics
+          fnb={byDateType.fnb}
+          byOutlet={fnbByOutlet}
+          products={fnbProducts}
+          outlets={outlets}
+          timeZone={timeZone}
+          currency={currency}
+        />
+      )}
+
+      {fnb.length > 0 && edition?.start_date && (
+        <FnbHourlyPanel
+          fnb={fnb}
+          startDate={edition.start_date}
+          endDate={edition.end_date}
+          timeZone={timeZone}
+          currency={currency}
+        />
+      )}
+
       {/* Empty state */}
-      {sales.length === 0 && (
+      {summary.ticketTypes.length === 0 && (
         <div className="rounded-xl border border-border bg-surface p-12 text-center shadow-sm">
           <Ticket size={48} className="mx-auto text-primary" />
           <p className="mt-4 text-lg font-medium text-text-body">{t('sales.noData')}</p>
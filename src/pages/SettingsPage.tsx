@@ -1,5 +1,6 @@
 import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
+import { useSearchParams } from 'react-router-dom'
 import {
   Building2,
   Users,
@@ -7,16 +8,29 @@ import {
   Calculator,
   Percent,
   Plug,
+  ShoppingBag,
+  Store,
 } from 'lucide-react'
 import { useAuthContext } from '@/contexts/AuthContext'
 import FestivalSettings from '@/components/settings/FestivalSettings'
 import UserManagement from '@/components/settings/UserManagement'
+import IntegrationSettings from '@/components/settings/IntegrationSettings'
+import CategoryRuleSettings from '@/components/settings/CategoryRuleSettings'
+import SyncStatusPanel from '@/components/settings/SyncStatusPanel'
+import SalesHistorySettings from '@/components/settings/SalesHistorySettings'
+import EditionSettings from '@/components/settings/EditionSettings'
+import TicketTypeSettings from '@/components/settings/TicketTypeSettings'
+import FnbProductSettings from '@/components/settings/FnbProductSettings'
+import OutletSettings from '@/components/settings/OutletSettings'
+import AccountCategorySettings from '@/components/settings/AccountCategorySettings'
 
 const tabs = [
   { id: 'festival', icon: Building2, labelKey: 'settings.festival' },
   { id: 'users', icon: Users, labelKey: 'settings.users' },
   { id: 'ticket-categories', icon: Ticket, labelKey: 'settings.ticketCategories' },
-  { id: 'budget', icon: Calculator, labelKey: 'settings.budgetPosts' },
+  { id: 'fnb', icon: ShoppingBag, labelKey: 'settings.fnbProducts' },
+  { id: 'outlets', icon: Store, labelKey: 'settings.outlets' },
+  { id: 'accounts', icon: Calculator, labelKey: 'settings.accountCategories' },
   { id: 'vat', icon: Percent, labelKey: 'settings.vatRates' },
   { id: 'integrations', icon: Plug, labelKey: 'settings.integrations' },
 ] as const
@@ -26,7 +40,11 @@ type TabId = (typeof tabs)[number]['id']
 export default function SettingsPage() {
   const { t } = useTranslation()
   const { profile } = useAuthContext()
-  const [activeTab, setActiveTab] = useState<TabId>('festival')
+  const [searchParams] = useSearchParams()
+  // ?tab= lets other pages link straight to a tab (e.g. the stale-sync warning)
+  const [activeTab, setActiveTab] = useState<TabId>(
+    () => tabs.find((tab) => tab.id === searchParams.get('tab'))?.id ?? 'festival',
+  )
 
   const isAdmin = profile?.role === 'admin'
 
@@ -37,7 +55,7 @@ export default function SettingsPage() {
       {/* Tabs */}
       <div className="mt-6 flex flex-wrap gap-1 border-b border-border">
         {tabs.map(({ id, icon: Icon, labelKey }) => {
-          if (id === 'users' && !isAdmin) return null
+          if ((id === 'users' || id === 'integrations') && !isAdmin) return null
           return (
             <button
               key={id}
@@ -57,19 +75,31 @@ export default function SettingsPage() {
 
       {/* Tab content */}
       <div className="mt-6 max-w-3xl">
-        {activeTab === 'festival' && <FestivalSettings />}
+        {activeTab === 'festival' && (
+          <div className="space-y-10">
+            <FestivalSettings />
+            {isAdmin && <EditionSettings />}
+            {isAdmin && <SalesHistorySettings />}
+          </div>
+        )}
         {activeTab === 'users' && isAdmin && <UserManagement />}
         {activeTab === 'ticket-categories' && (
-          <p className="text-text-muted">{t('settings.comingSoon')}</p>
-        )}
-        {activeTab === 'budget' && (
-          <p className="text-text-muted">{t('settings.comingSoon')}</p>
+          <div className="space-y-10">
+            <TicketTypeSettings />
+            <CategoryRuleSettings />
+          </div>
         )}
+        {activeTab === 'fnb' && <FnbProductSettings />}
+        {activeTab === 'outlets' && <OutletSettings />}
+        {activeTab === 'accounts' && <AccountCategorySettings />}
         {activeTab === 'vat' && (
           <p className="text-text-muted">{t('settings.comingSoon')}</p>
         )}
-        {activeTab === 'integrations' && (
-          <p className="text-text-muted">{t('settings.comingSoon')}</p>
+        {activeTab === 'integrations' && isAdmin && (
+          <div className="space-y-10">
+            <IntegrationSettings />
+            <SyncStatusPanel />
+          </div>
         )}
       </div>
     </div>
@@ -7,7 +7,7 @@ import type { Sponsor, SponsorDeliverable } from '@/types/database'
 
 export default function SponsorPortalPage() {
   const { t } = useTranslation()
-  const { session, profile, festival } = useAuthContext()
+  const { session, profile, festival, edition } = useAuthContext()
 
   const [sponsor, setSponsor] = useState<Sponsor | null>(null)
   const [deliverables, setDeliverables] = useState<SponsorDeliverable[]>([])
@@ -18,11 +18,11 @@ export default function SponsorPortalPage() {
   const isSponsor = profile?.role === 'sponsor'
 
   const fetchSponsor = useCallback(async () => {
-    if (!session || !profile || !isSponsor) {
+    if (!session || !profile || !edition || !isSponsor) {
       setLoading(false)
       return
     }
-    // Find the sponsor matching the user's email
+    // Find this edition's agreement for the user's email
     const email = session.user.email
     if (!email) {
       setLoading(false)
@@ -32,6 +32,7 @@ export default function SponsorPortalPage() {
       .from('sponsors')
       .select('*')
       .eq('festival_id', profile.festival_id)
+      .eq('edition_id', edition.id)
       .eq('contact_email', email)
       .limit(1)
       .maybeSingle()
@@ -45,7 +46,7 @@ export default function SponsorPortalPage() {
       if (delData) setDeliverables(delData)
     }
     setLoading(false)
-  }, [session, profile, isSponsor])
+  }, [session, profile, edition?.id, isSponsor])
 
   useEffect(() => {
     fetchSponsor()
@@ -36,7 +36,7 @@ const STATUS_COLORS: Record<SponsorStatus, string> = {
 
 export default function SponsorsPage() {
   const { t } = useTranslation()
-  const { festival, profile } = useAuthContext()
+  const { festival, edition, profile } = useAuthContext()
   const currency = festival?.currency ?? 'NOK'
   const isAdmin = profile?.role === 'admin'
 
@@ -47,12 +47,13 @@ export default function SponsorsPage() {
   const [expandedId, setExpandedId] = useState<string | null>(null)
 
   const fetchData = useCallback(async () => {
-    if (!festival) return
+    if (!festival || !edition) return
     const [sponRes, delRes] = await Promise.all([
       supabase
         .from('sponsors')
         .select('*')
         .eq('festival_id', festival.id)
+        .eq('edition_id', edition.id)
         .order('created_at', { ascending: true }),
       supabase
         .from('sponsor_deliverables')
@@ -62,7 +63,7 @@ export default function SponsorsPage() {
     if (sponRes.data) setSponsors(sponRes.data)
     if (delRes.data) setDeliverables(delRes.data)
     setLoading(false)
-  }, [festival?.id])
+  }, [festival?.id, edition?.id])
 
   useEffect(() => {
     fetchData()
@@ -139,6 +140,7 @@ export default function SponsorsPage() {
       {showForm && isAdmin && (
         <SponsorForm
           festivalId={festival!.id}
+          editionId={edition!.id}
           onSaved={() => {
             setShowForm(false)
             fetchData()
@@ -415,10 +417,12 @@ function AddDeliverableInline({ onAdd }: { onAdd: (desc: string) => void }) {
 
 function SponsorForm({
   festivalId,
+  editionId,
   onSaved,
   onCancel,
 }: {
   festivalId: string
+  editionId: string
   onSaved: () => void
   onCancel: () => void
 }) {
@@ -433,6 +437,7 @@ function SponsorForm({
 
     await supabase.from('sponsors').insert({
       festival_id: festivalId,
+      edition_id: editionId,
       name: data.get('name') as string,
       level: (data.get('level') as SponsorLevel) || null,
       contact_name: (data.get('contact_name') as string) || null,
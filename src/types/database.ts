@@ -6,20 +6,42 @@ export type SponsorLevel = 'hovedsponsor' | 'gull' | 'sølv' | 'bronse' | 'partn
 
 export type SaleChannel = 'web' | 'pos'
 
-export type SaleCategory = 'ticket' | 'fb'
+export type SaleCategory = 'ticket' | 'fb' | 'merch' | 'camping' | 'parking' | 'donation'
+
+export type TicketingProvider = 'ticketco'
+
+/** Where a ticket_sales row came from: a provider sync or a manual file import */
+export type SaleSource = TicketingProvider | 'import'
 
 export interface Festival {
   id: string
   name: string
   slug: string
   logo_url: string | null
-  start_date: string | null
-  end_date: string | null
   location: string | null
-  capacity: number | null
   website: string | null
   default_locale: string
   currency: string
+  /** Sales/Dashboard warn when the last successful sync is older than this */
+  sync_stale_after_minutes: number
+  /** IANA zone used for sale dates, "today" and report ranges */
+  timezone: string
+  /** Edition new rows land in by default; admins can switch to view others */
+  current_edition_id: string | null
+  /** Amount ex. VAT above which an expense needs approval by someone other than its submitter */
+  expense_approval_threshold: number | null
+  created_at: string
+}
+
+/** One year of the festival; sales, economy, sponsors and reports belong to one */
+export interface FestivalEdition {
+  id: string
+  festival_id: string
+  year: number
+  name: string | null
+  start_date: string | null
+  end_date: string | null
+  capacity: number | null
   created_at: string
 }
 
@@ -37,22 +59,87 @@ export interface UserProfile {
 export interface TicketSale {
   id: string
   festival_id: string
-  ticketco_id: string | null
+  edition_id: string
+  provider: SaleSource
+  integration_id: string | null
+  /** Ticketing event the line was sold in; null for manual imports */
+  event_id: string | null
+  /** Line id in the source system, unique per provider */
+  external_id: string | null
+  external_order_id: string | null
   ticket_type: string
   category: SaleCategory | null
+  /** The provider's own category for the line; input for sale_category_rules */
+  source_category: string | null
   quantity: number
   price_ex_vat: number | null
   vat_rate: number | null
   vat_amount: number | null
   price_inc_vat: number | null
   sale_channel: SaleChannel | null
+  /** POS sales point (bar, till) the line was rung up at */
+  sales_point: string | null
+  /** POS device the line was rung up on */
+  pos_device: string | null
+  /** Outlet the sales point or device belongs to */
+  outlet_id: string | null
   sold_at: string | null
+  /** Refund line from the ticketing system; quantity is negative */
+  is_reversal: boolean
+  /** Set when the order was refunded or cancelled — excluded from all totals */
+  voided_at: string | null
   synced_at: string
 }
 
+/** The fields sales aggregations read; both ticket_sales rows and summary buckets have them */
+export type SaleLine = Pick<
+  TicketSale,
+  | 'event_id'
+  | 'ticket_type'
+  | 'category'
+  | 'quantity'
+  | 'price_ex_vat'
+  | 'vat_rate'
+  | 'vat_amount'
+  | 'price_inc_vat'
+  | 'sale_channel'
+  | 'outlet_id'
+  | 'sold_at'
+  | 'is_reversal'
+  | 'voided_at'
+>
+
+/**
+ * One group of public.sales_summary(): totals of the counted sales, with
+ * the fields its dimension groups by. The others are left out.
+ */
+export interface SalesSummaryRow {
+  /** Start of the quarter hour, or of the festival date */
+  sold_at?: string | null
+  ticket_type?: string
+  sale_channel?: SaleChannel | null
+  outlet_id?: string | null
+  vat_rate?: number | null
+  category: SaleCategory | null
+  is_reversal: boolean
+  quantity: number
+  total_ex_vat: number | null
+  total_vat: number | null
+  total_inc_vat: number | null
+}
+
+export type SalesSummaryDimension = 'by_time' | 'by_date_type' | 'by_channel' | 'by_vat' | 'by_outlet'
+
+/** public.sales_summary(): the groups of each dimension, from one snapshot */
+export type SalesSummaryResult = Record<SalesSummaryDimension, SalesSummaryRow[]> & {
+  snapshot_at: string
+  ticket_types: string[]
+}
+
 export interface Sponsor {
   id: string
   festival_id: string
+  edition_id: string
   name: string
   level: SponsorLevel | null
   contact_name: string | null
@@ -79,13 +166,17 @@ export interface SponsorDeliverable {
 export interface Income {
   id: string
   festival_id: string
+  edition_id: string
   category: string
+  subcategory: string | null
   description: string | null
   amount_ex_vat: number | null
   vat_rate: number | null
   vat_amount: number | null
   source: string | null
   is_budget: boolean
+  /** Version the budget line belongs to; null on actual entries */
+  budget_version_id: string | null
   date: string | null
   created_at: string
 }
@@ -93,37 +184,260 @@ export interface Income {
 export interface Expense {
   id: string
   festival_id: string
+  edition_id: string
   category: string
+  subcategory: string | null
   description: string | null
   amount_ex_vat: number | null
   vat_rate: number | null
   vat_amount: number | null
   supplier: string | null
   is_budget: boolean
+  /** Version the budget line belongs to; null on actual entries */
+  budget_version_id: string | null
   date: string | null
+  /** Only approved and paid expenses count as actual cost; budget lines are always approved */
+  status: ExpenseStatus
+  submitted_by: string | null
+  submitted_at: string | null
+  decided_by: string | null
+  decided_at: string | null
+  /** Reason given with the approval or rejection */
+  decision_comment: string | null
+  paid_at: string | null
+  created_at: string
+}
+
+export type ExpenseStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'paid'
+
+export type AccountCategoryType = 'income' | 'expense'
+
+/** An income or expense category in a festival's chart of accounts */
+export interface AccountCategory {
+  id: string
+  festival_id: string
+  type: AccountCategoryType
+  /** Stored on income.category and expenses.category; cannot change */
+  slug: string
+  name: string
+  /** NS 4102 account number */
+  account_number: string | null
+  /** SAF-T standard tax code; null takes the code from the entry's VAT rate */
+  vat_code: string | null
+  sort_order: number
+  /** Kept for existing entries but not offered for new ones */
+  archived: boolean
+  created_at: string
+}
+
+export type BudgetKind = 'version' | 'scenario'
+
+/** A named set of budget lines for an edition: a revision of the budget or a what-if scenario */
+export interface BudgetVersion {
+  id: string
+  festival_id: string
+  edition_id: string
+  name: string
+  kind: BudgetKind
+  /** The budget the dashboard and the economy page compare against; one per edition */
+  is_primary: boolean
+  /** The version this one was copied from */
+  based_on: string | null
+  /** Approved and frozen; a locked version cannot be changed or unlocked */
+  locked_at: string | null
+  locked_by: string | null
+  created_at: string
+}
+
+export type AuditAction = 'insert' | 'update' | 'delete'
+
+/** One change to an income or expense entry, written by a trigger */
+export interface EconomyAuditEntry {
+  id: string
+  festival_id: string
+  table_name: 'income' | 'expenses'
+  record_id: string
+  action: AuditAction
+  /** The row before the change; null on insert */
+  old_values: Record<string, unknown> | null
+  /** The row after the change; null on delete */
+  new_values: Record<string, unknown> | null
+  changed_by: string | null
+  changed_by_name: string | null
+  changed_at: string
+}
+
+/** A receipt or invoice in the vouchers bucket, on one income or expense entry */
+export interface EconomyAttachment {
+  id: string
+  festival_id: string
+  income_id: string | null
+  expense_id: string | null
+  /** Object name in the vouchers bucket: <festival_id>/<table>/<entry_id>/<file> */
+  storage_path: string
+  file_name: string
+  content_type: string
+  size_bytes: number | null
+  uploaded_by: string | null
+  created_at: string
+}
+
+export type NotificationKind = 'expense_approved' | 'expense_rejected' | 'expense_paid'
+
+/** In-app message to one user, written by a trigger */
+export interface AppNotification {
+  id: string
+  festival_id: string
+  user_id: string
+  kind: NotificationKind
+  expense_id: string | null
+  /** What it is about, as it read when it was sent */
+  subject: string | null
+  comment: string | null
+  actor_name: string | null
+  read_at: string | null
   created_at: string
 }
 
 export interface FestivalIntegration {
   id: string
   festival_id: string
-  ticketco_api_key: string | null
-  ticketco_event_id: string | null
+  provider: TicketingProvider
+  label: string | null
+  /** Masked suffix of the API key; the key itself is in Vault, readable only by edge functions */
+  api_key_hint: string | null
+  /** Masked suffix of the secret TicketCo must present when calling ticketco-webhook */
+  webhook_secret_hint: string | null
+  enabled: boolean
   created_at: string
 }
 
+/** One event in the ticketing system, synced through its integration */
+export interface IntegrationEvent {
+  id: string
+  festival_id: string
+  integration_id: string
+  /** Edition its sales belong to */
+  edition_id: string | null
+  external_event_id: string
+  label: string | null
+  enabled: boolean
+  created_at: string
+}
+
+export type SyncMode = 'incremental' | 'full' | 'range'
+
+/** Outcome of a full/range resync against the stored sales */
+export interface SyncDiff {
+  inserted: number
+  updated: number
+  deleted: number
+  unchanged: number
+}
+
 export interface TicketCoSyncLog {
   id: string
   festival_id: string
+  integration_id: string | null
+  event_id: string | null
+  provider: TicketingProvider
   synced_at: string
   records_synced: number | null
-  status: 'success' | 'error'
+  /** 'partial': some pages were stored before the run failed */
+  status: 'success' | 'partial' | 'error'
   error_message: string | null
+  cursor: string | null
+  /** First page not stored by a partial run; the next run resumes there */
+  resume_page: number | null
+  duration_ms: number | null
+  pages_fetched: number | null
+  mode: SyncMode
+  range_from: string | null
+  range_to: string | null
+  diff: SyncDiff | null
+}
+
+export interface SaleCategoryRule {
+  id: string
+  festival_id: string
+  match_field: 'title' | 'category'
+  match_type: 'exact' | 'regex'
+  pattern: string
+  category: SaleCategory
+  /** Lowest first; the first matching rule wins */
+  priority: number
+  created_at: string
+}
+
+/** A ticket type on sale in an edition, with its quota */
+export interface TicketType {
+  id: string
+  festival_id: string
+  edition_id: string
+  name: string
+  quota: number | null
+  price_inc_vat: number | null
+  vat_rate: number
+  sale_start: string | null
+  sale_end: string | null
+  /** Provider titles counted as this type, besides the name itself */
+  external_titles: string[]
+  /** Share of the quota (0–1) at which the type is flagged */
+  warn_at: number
+  sort_order: number
+  created_at: string
+}
+
+export interface Outlet {
+  id: string
+  festival_id: string
+  name: string
+  /** POS sales point or device names counted as this outlet, besides the name itself */
+  sales_points: string[]
+  sort_order: number
+  created_at: string
+}
+
+export interface SalesView {
+  id: string
+  festival_id: string
+  name: string
+  /** SalesFilters as saved; read with parseSavedFilters() */
+  filters: Record<string, unknown>
+  created_by: string | null
+  created_at: string
+}
+
+export interface FnbProduct {
+  id: string
+  festival_id: string
+  name: string
+  /** Cost per unit, ex. VAT */
+  cost_price: number | null
+  /** Provider line titles counted as this product, besides the name itself */
+  external_titles: string[]
+  sort_order: number
+  created_at: string
+}
+
+/** Daily ticket count of an earlier edition, aligned on days before its start */
+export interface SalesHistory {
+  id: string
+  festival_id: string
+  edition_year: number
+  /** 0 is opening day; negative during the festival */
+  days_before: number
+  /** '' when the source had daily totals only */
+  ticket_type: string
+  tickets: number
+  revenue: number | null
+  created_at: string
 }
 
 export interface Report {
   id: string
   festival_id: string
+  edition_id: string
   type: 'sponsor_report' | 'annual_report' | 'accounting_report'
   title: string | null
   data: Record<string, unknown> | null
@@ -0,0 +1,50 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { SaleCategory, SaleRow } from './providers/types.ts'
+
+// Admin-managed sale_category_rules, applied to provider rows before they are
+// stored. Matching mirrors public.apply_sale_category_rules(): case-insensitive,
+// exact compares trimmed values, lowest priority wins.
+
+export interface CategoryRule {
+  match_field: 'title' | 'category'
+  match_type: 'exact' | 'regex'
+  pattern: string
+  category: SaleCategory
+  priority: number
+}
+
+export async function loadCategoryRules(
+  supabase: SupabaseClient,
+  festivalId: string,
+): Promise<CategoryRule[]> {
+  const { data, error } = await supabase
+    .from('sale_category_rules')
+    .select('match_field, match_type, pattern, category, priority')
+    .eq('festival_id', festivalId)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return data ?? []
+}
+
+function matches(rule: CategoryRule, row: SaleRow): boolean {
+  const subject = rule.match_field === 'title' ? row.ticket_type : row.source_category
+  if (subject == null) return false
+  if (rule.match_type === 'exact') {
+    return subject.trim().toLowerCase() === rule.pattern.trim().toLowerCase()
+  }
+  try {
+    return new RegExp(rule.pattern, 'i').test(subject)
+  } catch {
+    // Invalid pattern: skip the rule rather than failing the sync
+    return false
+  }
+}
+
+export function applyCategoryRules<T extends SaleRow>(rows: T[], rules: CategoryRule[]): T[] {
+  if (rules.length === 0) return rows
+  return rows.map((row) => {
+    const rule = rules.find((r) => matches(r, row))
+    return rule ? { ...row, category: rule.category } : row
+  })
+}
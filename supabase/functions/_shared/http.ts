@@ -0,0 +1,47 @@
+// fetch() with retries for flaky or rate-limited upstream APIs. Retries
+// network errors, 429 and 5xx with exponential backoff (plus jitter) and
+// honours Retry-After. Other responses are returned as-is.
+
+export interface RetryOptions {
+  retries?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function isRetryable(status: number) {
+  return status === 429 || status >= 500
+}
+
+/** Retry-After is either seconds or an HTTP date */
+function retryAfterMs(resp: Response): number | null {
+  const header = resp.headers.get('Retry-After')
+  if (!header) return null
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  { retries = 4, baseDelayMs = 500, maxDelayMs = 30_000 }: RetryOptions = {},
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let resp: Response | null = null
+    try {
+      resp = await fetch(url, init)
+      if (!isRetryable(resp.status) || attempt >= retries) return resp
+    } catch (err) {
+      if (attempt >= retries) throw err
+    }
+
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2)
+    const delay = resp ? Math.min(maxDelayMs, retryAfterMs(resp) ?? backoff) : backoff
+    // Free the connection before waiting
+    await resp?.body?.cancel()
+    await sleep(delay)
+  }
+}
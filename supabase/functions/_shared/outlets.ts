@@ -0,0 +1,45 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { SaleRow } from './providers/types.ts'
+
+// Admin-managed outlets, assigned to provider rows before they are stored.
+// Matching mirrors public.apply_sale_outlets(): the sales point is tried
+// before the device, names compare trimmed and case-insensitive, and the
+// first outlet in sort order wins.
+
+export interface Outlet {
+  id: string
+  name: string
+  sales_points: string[]
+}
+
+export async function loadOutlets(supabase: SupabaseClient, festivalId: string): Promise<Outlet[]> {
+  const { data, error } = await supabase
+    .from('outlets')
+    .select('id, name, sales_points')
+    .eq('festival_id', festivalId)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true })
+  if (error) throw error
+  return data ?? []
+}
+
+function normalize(name: string) {
+  return name.trim().toLowerCase()
+}
+
+export function applyOutlets<T extends SaleRow>(rows: T[], outlets: Outlet[]): T[] {
+  if (outlets.length === 0) return rows
+  const lookup = new Map<string, string>()
+  for (const outlet of outlets) {
+    for (const name of [outlet.name, ...outlet.sales_points]) {
+      const key = normalize(name)
+      if (key && !lookup.has(key)) lookup.set(key, outlet.id)
+    }
+  }
+  return rows.map((row) => {
+    const outletId = (row.sales_point && lookup.get(normalize(row.sales_point)))
+      || (row.pos_device && lookup.get(normalize(row.pos_device)))
+      || null
+    return { ...row, outlet_id: outletId }
+  })
+}
@@ -0,0 +1,19 @@
+import type { TicketingProvider } from './types.ts'
+import { ticketco } from './ticketco.ts'
+
+export type {
+  FetchSalesOptions,
+  ProviderIntegration,
+  SaleCategory,
+  SaleRow,
+  SalesPage,
+  TicketingProvider,
+} from './types.ts'
+
+const providers: Record<string, TicketingProvider> = {
+  [ticketco.id]: ticketco,
+}
+
+export function getProvider(id: string): TicketingProvider | undefined {
+  return providers[id]
+}
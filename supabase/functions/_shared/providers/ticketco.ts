@@ -0,0 +1,121 @@
+import { fetchWithRetry } from '../http.ts'
+import type {
+  FetchSalesOptions,
+  ProviderIntegration,
+  SaleRow,
+  SalesPage,
+  TicketingProvider,
+} from './types.ts'
+
+const TICKETCO_API_BASE = 'https://ticketco.events/api/public/v1'
+
+export interface TicketCoOrder {
+  id: number
+  event_id?: number
+  created_at: string
+  updated_at?: string
+  status?: string // 'completed' | 'partially_refunded' | 'refunded' | 'cancelled'
+  order_lines: {
+    id: number
+    title: string
+    quantity: number // negative on refund lines
+    price: number
+    vat_amount: number
+    vat_rate: number
+    category?: string
+    created_at?: string // set on refund lines
+  }[]
+  source?: string // 'web' | 'pos'
+  sales_point?: { id: number; name: string } | null // POS orders only
+  pos_device?: { id: number; name: string } | null // POS orders only
+}
+
+// Orders in these states no longer count as revenue
+const VOIDED_ORDER_STATUSES = ['refunded', 'cancelled']
+
+export function isVoidedOrder(order: TicketCoOrder): boolean {
+  return VOIDED_ORDER_STATUSES.includes(order.status ?? '')
+}
+
+// Shared by the polling sync and the webhook receiver
+export function mapOrder(order: TicketCoOrder): SaleRow[] {
+  const changedAt = order.updated_at ?? order.created_at
+  const isVoided = isVoidedOrder(order)
+
+  return (order.order_lines ?? []).map((line) => {
+    // Default when no sale_category_rules match. Keep in sync with
+    // public.default_sale_category() in the database.
+    const isFood = /food|mat|drikke|beverage/.test((line.category ?? '').toLowerCase())
+
+    // Refund lines are stored as reversals: negative quantity, positive unit prices
+    const isReversal = line.quantity < 0 || line.price < 0
+    const price = Math.abs(line.price)
+    const vatAmount = Math.abs(line.vat_amount)
+    return {
+      external_id: `${order.id}-${line.id}`,
+      external_order_id: String(order.id),
+      ticket_type: line.title,
+      category: isFood ? 'fb' : 'ticket',
+      source_category: line.category ?? null,
+      quantity: isReversal ? -Math.abs(line.quantity) : line.quantity,
+      price_ex_vat: price - vatAmount,
+      vat_rate: line.vat_rate / 100, // TicketCo returns 25, we store 0.25
+      vat_amount: vatAmount,
+      price_inc_vat: price,
+      sale_channel: order.source === 'pos' ? 'pos' : 'web',
+      sales_point: order.sales_point?.name ?? null,
+      pos_device: order.pos_device?.name ?? null,
+      outlet_id: null,
+      // A refund counts when it was made, not when the order was placed
+      sold_at: isReversal ? (line.created_at ?? changedAt) : order.created_at,
+      is_reversal: isReversal,
+      voided_at: isVoided ? changedAt : null,
+    }
+  })
+}
+
+export const ticketco: TicketingProvider = {
+  id: 'ticketco',
+
+  async *fetchPages(integration: ProviderIntegration, options: FetchSalesOptions): AsyncGenerator<SalesPage> {
+    const { since, soldFrom, soldBefore, startPage = 1 } = options
+    const headers = {
+      'Authorization': `Token token=${integration.api_key}`,
+      'Content-Type': 'application/json',
+    }
+    // An order placed after soldFrom was also last changed after it
+    const sinceDate = new Date(since ?? soldFrom ?? '2020-01-01').toISOString()
+
+    for (let page = startPage; ; page++) {
+      // updated_since also returns older orders that were refunded or cancelled since
+      const url = `${TICKETCO_API_BASE}/events/${integration.external_event_id}/orders?updated_since=${sinceDate}&page=${page}&per_page=100`
+      const resp = await fetchWithRetry(url, { headers })
+
+      if (!resp.ok) {
+        throw new Error(`TicketCo API error on page ${page}: ${resp.status} ${resp.statusText}`)
+      }
+
+      const data = await resp.json()
+      const orders: TicketCoOrder[] = data.orders ?? data ?? []
+      if (orders.length === 0) return
+
+      let cursor: string | null = null
+      const voidedOrderIds: string[] = []
+      for (const order of orders) {
+        const changedAt = order.updated_at ?? order.created_at
+        // Compared as instants; the sync stores the cursor as UTC
+        if (!cursor || Date.parse(changedAt) > Date.parse(cursor)) cursor = changedAt
+        if (isVoidedOrder(order)) voidedOrderIds.push(String(order.id))
+      }
+
+      // Refunds fall in the window they were made in, not the order's
+      const inWindow = orders.flatMap(mapOrder).filter((row) => {
+        const soldAt = new Date(row.sold_at).getTime()
+        return (!soldFrom || soldAt >= new Date(soldFrom).getTime())
+          && (!soldBefore || soldAt < new Date(soldBefore).getTime())
+      })
+
+      yield { page, rows: inWindow, voidedOrderIds, cursor }
+    }
+  },
+}
@@ -0,0 +1,67 @@
+// Contract between the sync layer and a ticketing system. Each provider turns
+// its own order format into provider-neutral ticket_sales rows; the sync layer
+// owns cursors, upserts and logging.
+
+/** One event of a festival_integrations row, as seen by the sync layer */
+export interface ProviderIntegration {
+  id: string
+  festival_id: string
+  provider: string
+  api_key: string | null
+  /** The integration_events entry being fetched */
+  external_event_id: string | null
+}
+
+export type SaleCategory = 'ticket' | 'fb' | 'merch' | 'camping' | 'parking' | 'donation'
+
+/** A ticket_sales row minus the columns the sync layer fills in */
+export interface SaleRow {
+  external_id: string
+  external_order_id: string | null
+  ticket_type: string
+  /** Provider default; sale_category_rules may override it */
+  category: SaleCategory
+  /** The provider's own category for the line, if any */
+  source_category: string | null
+  quantity: number
+  price_ex_vat: number
+  vat_rate: number
+  vat_amount: number
+  price_inc_vat: number
+  sale_channel: 'web' | 'pos'
+  /** POS sales point (bar, till) the line was rung up at; null for web sales */
+  sales_point: string | null
+  /** POS device the line was rung up on; null for web sales */
+  pos_device: string | null
+  /** Set from the festival's outlets before storing; providers leave it null */
+  outlet_id: string | null
+  sold_at: string
+  is_reversal: boolean
+  voided_at: string | null
+}
+
+export interface FetchSalesOptions {
+  /** Only orders created or changed after this time; null fetches everything */
+  since: string | null
+  /** Only orders placed in [soldFrom, soldBefore) — used by range resyncs */
+  soldFrom?: string
+  soldBefore?: string
+  /** Page to start from when resuming a partially failed run */
+  startPage?: number
+}
+
+/** One page of provider results, stored before the next page is fetched */
+export interface SalesPage {
+  page: number
+  rows: SaleRow[]
+  /** Orders refunded or cancelled since the cursor — all their stored lines get voided */
+  voidedOrderIds: string[]
+  /** Latest change seen on this page */
+  cursor: string | null
+}
+
+export interface TicketingProvider {
+  id: string
+  /** Yields pages in order; throws when a page cannot be fetched after retries */
+  fetchPages(integration: ProviderIntegration, options: FetchSalesOptions): AsyncGenerator<SalesPage>
+}
@@ -0,0 +1,136 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { SaleRow } from './providers/types.ts'
+
+// Full/range resync: makes the stored sales of one integration event match what
+// the provider returned for a window. Rows the provider no longer returns
+// are deleted; incremental syncs never delete.
+
+export interface SyncDiff {
+  inserted: number
+  updated: number
+  deleted: number
+  unchanged: number
+}
+
+interface ReconcileOptions {
+  festivalId: string
+  integrationId: string
+  eventId: string
+  provider: string
+  /** Provider rows for the window, already categorised and assigned to outlets */
+  rows: SaleRow[]
+  soldFrom?: string
+  soldBefore?: string
+  syncedAt: string
+}
+
+type StoredRow = SaleRow & { id: string }
+
+const COMPARED_FIELDS = [
+  'external_order_id',
+  'ticket_type',
+  'category',
+  'source_category',
+  'quantity',
+  'price_ex_vat',
+  'vat_rate',
+  'vat_amount',
+  'price_inc_vat',
+  'sale_channel',
+  'sales_point',
+  'pos_device',
+  'outlet_id',
+  'is_reversal',
+] as const
+
+const PAGE_SIZE = 1000
+
+function sameInstant(a: string | null, b: string | null) {
+  if (a === null || b === null) return a === b
+  return new Date(a).getTime() === new Date(b).getTime()
+}
+
+function hasChanged(stored: StoredRow, fetched: SaleRow) {
+  return COMPARED_FIELDS.some((field) => {
+    const a = stored[field]
+    const b = fetched[field]
+    return typeof b === 'number' ? Number(a) !== b : (a ?? null) !== (b ?? null)
+  })
+    || !sameInstant(stored.sold_at, fetched.sold_at)
+    // A voided order stays voided; only the transition matters
+    || (stored.voided_at === null) !== (fetched.voided_at === null)
+}
+
+async function loadStoredRows(supabase: SupabaseClient, opts: ReconcileOptions) {
+  const stored: StoredRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('ticket_sales')
+      .select(['id', 'external_id', 'sold_at', 'voided_at', ...COMPARED_FIELDS].join(', '))
+      .eq('festival_id', opts.festivalId)
+      .eq('provider', opts.provider)
+      .eq('integration_id', opts.integrationId)
+      .eq('event_id', opts.eventId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (opts.soldFrom) query = query.gte('sold_at', opts.soldFrom)
+    if (opts.soldBefore) query = query.lt('sold_at', opts.soldBefore)
+
+    const { data, error } = await query
+    if (error) throw error
+    stored.push(...(data as unknown as StoredRow[]))
+    if (!data || data.length < PAGE_SIZE) return stored
+  }
+}
+
+export async function reconcileSales(
+  supabase: SupabaseClient,
+  opts: ReconcileOptions,
+): Promise<SyncDiff> {
+  const stored = await loadStoredRows(supabase, opts)
+  const storedById = new Map(stored.map((row) => [row.external_id, row]))
+  const fetchedIds = new Set(opts.rows.map((row) => row.external_id))
+
+  const diff: SyncDiff = { inserted: 0, updated: 0, deleted: 0, unchanged: 0 }
+  const toWrite: SaleRow[] = []
+  for (const row of opts.rows) {
+    const existing = storedById.get(row.external_id)
+    if (!existing) {
+      diff.inserted++
+      toWrite.push(row)
+    } else if (hasChanged(existing, row)) {
+      diff.updated++
+      // Keep the original void time when the order was already voided
+      toWrite.push(existing.voided_at && row.voided_at ? { ...row, voided_at: existing.voided_at } : row)
+    } else {
+      diff.unchanged++
+    }
+  }
+  const orphanIds = stored.filter((row) => !fetchedIds.has(row.external_id)).map((row) => row.id)
+  diff.deleted = orphanIds.length
+
+  for (let i = 0; i < toWrite.length; i += 500) {
+    const batch = toWrite.slice(i, i + 500).map((row) => ({
+      ...row,
+      festival_id: opts.festivalId,
+      provider: opts.provider,
+      integration_id: opts.integrationId,
+      event_id: opts.eventId,
+      synced_at: opts.syncedAt,
+    }))
+    const { error } = await supabase
+      .from('ticket_sales')
+      .upsert(batch, { onConflict: 'festival_id,provider,external_id' })
+    if (error) throw error
+  }
+
+  for (let i = 0; i < orphanIds.length; i += 500) {
+    const { error } = await supabase
+      .from('ticket_sales')
+      .delete()
+      .in('id', orphanIds.slice(i, i + 500))
+    if (error) throw error
+  }
+
+  return diff
+}
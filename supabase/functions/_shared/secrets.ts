@@ -0,0 +1,16 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Integration secrets live in Supabase Vault; only the service role may call
+// integration_secret(), so this works in edge functions and nowhere else.
+export async function getIntegrationSecret(
+  supabase: SupabaseClient,
+  integrationId: string,
+  kind: 'api_key' | 'webhook_secret',
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('integration_secret', {
+    p_integration_id: integrationId,
+    p_kind: kind,
+  })
+  if (error) throw new Error(`Reading ${kind} failed: ${error.message}`)
+  return data
+}
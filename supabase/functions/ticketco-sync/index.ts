@@ -1,28 +1,68 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { getProvider, type ProviderIntegration, type SaleRow } from '../_shared/providers/index.ts'
+import { applyCategoryRules, loadCategoryRules } from '../_shared/categories.ts'
+import { applyOutlets, loadOutlets } from '../_shared/outlets.ts'
+import { reconcileSales, type SyncDiff } from '../_shared/reconcile.ts'
+import { getIntegrationSecret } from '../_shared/secrets.ts'
 
-const TICKETCO_API_BASE = 'https://ticketco.events/api/public/v1'
+type SyncMode = 'incremental' | 'full' | 'range'
 
-interface TicketCoEvent {
-  id: number
-  title: string
+async function upsertSales(supabase: SupabaseClient, rows: Record<string, unknown>[]) {
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error } = await supabase
+      .from('ticket_sales')
+      .upsert(rows.slice(i, i + 500), { onConflict: 'festival_id,provider,external_id' })
+    if (error) throw new Error(`Upserting sales failed: ${error.message}`)
+  }
+}
+
+// The later of two change times, as a UTC ISO string. Providers may mix
+// offsets and precision, so the times are compared as instants.
+function laterCursor(cursor: string | null, candidate: string | null): string | null {
+  const time = candidate ? Date.parse(candidate) : NaN
+  if (Number.isNaN(time)) return cursor
+  const current = cursor ? Date.parse(cursor) : NaN
+  if (!Number.isNaN(current) && current >= time) return cursor
+  return new Date(time).toISOString()
 }
 
-interface TicketCoOrder {
-  id: number
-  created_at: string
-  order_lines: {
-    id: number
-    title: string
-    quantity: number
-    price: number
-    vat_amount: number
-    vat_rate: number
-    category?: string
-  }[]
-  source?: string // 'web' | 'pos'
+// Resyncs rewrite and delete stored sales, so they need the service role
+// key (scripts) or an admin of the festival
+async function canResync(req: Request, festivalId: string): Promise<boolean> {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) return false
+  if (authHeader === `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`) return true
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authHeader } } }
+  )
+  const { data: { user } } = await supabaseClient.auth.getUser()
+  if (!user) return false
+
+  const { data: profile } = await supabaseClient
+    .from('user_profiles')
+    .select('role, festival_id')
+    .eq('id', user.id)
+    .single()
+  return profile?.role === 'admin' && profile.festival_id === festivalId
 }
 
+// Syncs every enabled event of every enabled ticketing integration (TicketCo
+// and other providers) into ticket_sales, each event on its own cursor. Kept under its original name so existing cron jobs and
+// the manual trigger keep working.
+//
+// Body (all optional):
+//   festival_id     only sync this festival
+//   integration_id  only sync this integration
+//   event_id        only sync this integration event
+//   mode            'incremental' (default) fetches changes since the last run;
+//                   'full' re-fetches everything and 'range' re-fetches orders
+//                   placed in [from, to). Both reconcile stored rows: insert,
+//                   update and delete rows the provider no longer returns.
+//   from, to        ISO timestamps for mode 'range'
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -36,142 +76,251 @@ Deno.serve(async (req) => {
 
     // Parse request — can be triggered by cron (no body) or manually (with festival_id)
     let festivalId: string | null = null
+    let integrationId: string | null = null
+    let eventId: string | null = null
+    let mode: SyncMode = 'incremental'
+    let rangeFrom: string | null = null
+    let rangeTo: string | null = null
     if (req.method === 'POST') {
       try {
         const body = await req.json()
         festivalId = body.festival_id ?? null
+        integrationId = body.integration_id ?? null
+        eventId = body.event_id ?? null
+        mode = body.mode ?? 'incremental'
+        rangeFrom = body.from ?? null
+        rangeTo = body.to ?? null
       } catch {
         // No body — cron trigger, sync all festivals
       }
     }
 
-    // Get festivals with TicketCo API keys configured
+    if (!['incremental', 'full', 'range'].includes(mode)) {
+      return new Response(JSON.stringify({ error: `Unknown mode: ${mode}` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      })
+    }
+
+    if (mode !== 'incremental') {
+      if (!festivalId) {
+        return new Response(JSON.stringify({ error: 'Missing festival_id' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+      if (mode === 'range' && (!rangeFrom || !rangeTo || rangeFrom >= rangeTo)) {
+        return new Response(JSON.stringify({ error: 'Range resync needs from < to' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+      if (!(await canResync(req, festivalId))) {
+        return new Response(JSON.stringify({ error: 'Admin access required' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+    }
+
+    // Get enabled integrations with an API key configured
     let query = supabaseAdmin
       .from('festival_integrations')
-      .select('festival_id, ticketco_api_key, ticketco_event_id')
-      .not('ticketco_api_key', 'is', null)
+      .select('id, festival_id, provider, events:integration_events(id, external_event_id, enabled)')
+      .eq('enabled', true)
+      .not('api_key_secret_id', 'is', null)
 
     if (festivalId) {
       query = query.eq('festival_id', festivalId)
     }
+    if (integrationId) {
+      query = query.eq('id', integrationId)
+    }
 
     const { data: integrations, error: intError } = await query
     if (intError || !integrations?.length) {
       return new Response(
-        JSON.stringify({ message: 'No festivals with TicketCo configured', error: intError?.message }),
+        JSON.stringify({ message: 'No ticketing integrations configured', error: intError?.message }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
+    // One run per enabled event; the API key is shared by the integration's events
+    const jobs = integrations.flatMap((stored) =>
+      (stored.events ?? [])
+        .filter((event) => event.enabled && (!eventId || event.id === eventId))
+        .map((event) => ({ stored, event }))
+    )
+    const apiKeys = new Map<string, string | null>()
     const results = []
 
-    for (const integration of integrations) {
-      const { festival_id, ticketco_api_key, ticketco_event_id } = integration
+    for (const { stored, event } of jobs) {
+      const { id: integration_id, festival_id, provider: providerId } = stored
+      const event_id = event.id
+      const startedAt = Date.now()
+      const syncedAt = new Date().toISOString()
+
+      // Progress of this run, so a failure can be logged as partial and resumed
+      let since: string | null = null
+      let cursor: string | null = null
+      let nextPage = 1
+      let pagesFetched = 0
+      let recordsSynced = 0
+      let diff: SyncDiff | null = null
+
+      const writeLog = (fields: Record<string, unknown>) =>
+        supabaseAdmin.from('ticketco_sync_logs').insert({
+          festival_id,
+          integration_id,
+          event_id,
+          provider: providerId,
+          mode,
+          range_from: mode === 'range' ? rangeFrom : null,
+          range_to: mode === 'range' ? rangeTo : null,
+          duration_ms: Date.now() - startedAt,
+          pages_fetched: pagesFetched,
+          ...fields,
+        })
 
       try {
-        // Get last sync time
-        const { data: lastSync } = await supabaseAdmin
-          .from('ticketco_sync_log')
-          .select('synced_at')
-          .eq('festival_id', festival_id)
-          .eq('status', 'success')
-          .order('synced_at', { ascending: false })
-          .limit(1)
-          .single()
-
-        const sinceDate = lastSync?.synced_at
-          ? new Date(lastSync.synced_at).toISOString()
-          : new Date('2020-01-01').toISOString()
-
-        // Fetch orders from TicketCo
-        const headers = {
-          'Authorization': `Token token=${ticketco_api_key}`,
-          'Content-Type': 'application/json',
+        const provider = getProvider(providerId)
+        if (!provider) {
+          throw new Error(`Unknown ticketing provider: ${providerId}`)
         }
 
-        let page = 1
-        let allOrders: TicketCoOrder[] = []
-        let hasMore = true
-
-        while (hasMore) {
-          const url = `${TICKETCO_API_BASE}/events/${ticketco_event_id}/orders?since=${sinceDate}&page=${page}&per_page=100`
-          const resp = await fetch(url, { headers })
+        // Decrypted here only, never stored or returned
+        if (!apiKeys.has(integration_id)) {
+          apiKeys.set(integration_id, await getIntegrationSecret(supabaseAdmin, integration_id, 'api_key'))
+        }
+        const integration: ProviderIntegration = {
+          id: integration_id,
+          festival_id,
+          provider: providerId,
+          api_key: apiKeys.get(integration_id) ?? null,
+          external_event_id: event.external_event_id,
+        }
 
-          if (!resp.ok) {
-            throw new Error(`TicketCo API error: ${resp.status} ${resp.statusText}`)
-          }
+        const rules = await loadCategoryRules(supabaseAdmin, festival_id)
+        const outlets = await loadOutlets(supabaseAdmin, festival_id)
 
-          const data = await resp.json()
-          const orders: TicketCoOrder[] = data.orders ?? data ?? []
+        if (mode === 'incremental') {
+          // Resume from the last successful or partial full/incremental run;
+          // range resyncs do not cover everything and have no cursor
+          const { data: lastSync } = await supabaseAdmin
+            .from('ticketco_sync_logs')
+            .select('status, cursor, synced_at, resume_page')
+            .eq('event_id', event_id)
+            .in('status', ['success', 'partial'])
+            .neq('mode', 'range')
+            .order('synced_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
 
-          if (orders.length === 0) {
-            hasMore = false
+          if (lastSync?.status === 'partial') {
+            // Same window as the failed run, starting at the page that failed
+            since = lastSync.cursor
+            nextPage = lastSync.resume_page ?? 1
           } else {
-            allOrders = allOrders.concat(orders)
-            page++
+            since = lastSync?.cursor ?? lastSync?.synced_at ?? null
           }
-        }
+          cursor = since
 
-        // Transform and upsert sales
-        const salesRows = allOrders.flatMap((order) =>
-          (order.order_lines ?? []).map((line) => {
-            const isFood = (line.category ?? '').toLowerCase().includes('food')
-              || (line.category ?? '').toLowerCase().includes('mat')
-              || (line.category ?? '').toLowerCase().includes('drikke')
-              || (line.category ?? '').toLowerCase().includes('beverage')
+          // Each page is stored before the next is fetched
+          for await (const page of provider.fetchPages(integration, { since, startPage: nextPage })) {
+            pagesFetched++
 
-            const priceExVat = line.price - line.vat_amount
-            return {
+            // Upsert sales, categorised by the festival's rules and assigned to its outlets
+            const salesRows = applyOutlets(applyCategoryRules(page.rows, rules), outlets).map((row) => ({
+              ...row,
               festival_id,
-              ticketco_id: `${order.id}-${line.id}`,
-              ticket_type: line.title,
-              category: isFood ? 'fb' : 'ticket',
-              quantity: line.quantity,
-              price_ex_vat: priceExVat,
-              vat_rate: line.vat_rate / 100, // TicketCo returns 25, we store 0.25
-              vat_amount: line.vat_amount,
-              price_inc_vat: line.price,
-              sale_channel: order.source === 'pos' ? 'pos' : 'web',
-              sold_at: order.created_at,
-              synced_at: new Date().toISOString(),
+              provider: providerId,
+              integration_id,
+              event_id,
+              synced_at: syncedAt,
+            }))
+            await upsertSales(supabaseAdmin, salesRows)
+
+            // Void every stored line of refunded/cancelled orders, including lines
+            // the provider no longer returns on the order
+            if (page.voidedOrderIds.length > 0) {
+              const { error } = await supabaseAdmin
+                .from('ticket_sales')
+                .update({ voided_at: syncedAt })
+                .eq('festival_id', festival_id)
+                .eq('provider', providerId)
+                .in('external_order_id', page.voidedOrderIds)
+                .is('voided_at', null)
+              if (error) throw new Error(`Voiding orders failed: ${error.message}`)
             }
-          })
-        )
-
-        if (salesRows.length > 0) {
-          // Upsert in batches of 500
-          for (let i = 0; i < salesRows.length; i += 500) {
-            const batch = salesRows.slice(i, i + 500)
-            await supabaseAdmin
-              .from('ticket_sales')
-              .upsert(batch, { onConflict: 'ticketco_id' })
+
+            recordsSynced += salesRows.length
+            cursor = laterCursor(cursor, page.cursor)
+            nextPage = page.page + 1
+          }
+        } else {
+          const soldFrom = mode === 'range' ? rangeFrom! : undefined
+          const soldBefore = mode === 'range' ? rangeTo! : undefined
+
+          // Reconciling deletes rows, so it only runs once every page is in
+          const rows: SaleRow[] = []
+          for await (const page of provider.fetchPages(integration, { since: null, soldFrom, soldBefore })) {
+            pagesFetched++
+            rows.push(...page.rows)
+            cursor = laterCursor(cursor, page.cursor)
           }
+          // Only a full resync has seen every order and can move the cursor
+          if (mode === 'range') cursor = null
+
+          diff = await reconcileSales(supabaseAdmin, {
+            festivalId: festival_id,
+            integrationId: integration_id,
+            eventId: event_id,
+            provider: providerId,
+            rows: applyOutlets(applyCategoryRules(rows, rules), outlets),
+            soldFrom,
+            soldBefore,
+            syncedAt,
+          })
+          recordsSynced = diff.inserted + diff.updated
         }
 
-        // Log success
-        await supabaseAdmin.from('ticketco_sync_log').insert({
-          festival_id,
-          records_synced: salesRows.length,
+        await writeLog({
+          records_synced: recordsSynced,
           status: 'success',
+          cursor,
+          diff,
         })
 
         results.push({
           festival_id,
-          records_synced: salesRows.length,
+          integration_id,
+          event_id,
+          provider: providerId,
+          mode,
+          records_synced: recordsSynced,
           status: 'success',
+          ...(diff && { diff }),
         })
       } catch (err) {
-        // Log error
-        await supabaseAdmin.from('ticketco_sync_log').insert({
-          festival_id,
-          records_synced: 0,
-          status: 'error',
+        // Pages stored before the failure stay stored; the next incremental
+        // run re-fetches the same window from the page that failed
+        const partial = mode === 'incremental' && pagesFetched > 0
+        await writeLog({
+          records_synced: recordsSynced,
+          status: partial ? 'partial' : 'error',
           error_message: (err as Error).message,
+          cursor: partial ? since : null,
+          resume_page: partial ? nextPage : null,
         })
 
         results.push({
           festival_id,
-          status: 'error',
+          integration_id,
+          event_id,
+          provider: providerId,
+          mode,
+          records_synced: recordsSynced,
+          status: partial ? 'partial' : 'error',
           error: (err as Error).message,
         })
       }
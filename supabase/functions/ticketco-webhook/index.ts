@@ -0,0 +1,139 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { isVoidedOrder, mapOrder, type TicketCoOrder } from '../_shared/providers/ticketco.ts'
+import { applyCategoryRules, loadCategoryRules } from '../_shared/categories.ts'
+import { applyOutlets, loadOutlets } from '../_shared/outlets.ts'
+import { getIntegrationSecret } from '../_shared/secrets.ts'
+
+// Receives TicketCo order webhooks so sales show up on the dashboard within
+// seconds instead of waiting for the next ticketco-sync run. TicketCo calls
+//   POST /functions/v1/ticketco-webhook?integration=<festival_integrations.id>
+// with the integration's secret in the X-Webhook-Secret header (or a
+// `secret` query parameter). JWT verification is off for this function in
+// supabase/config.toml: TicketCo sends no Supabase JWT, the shared secret is
+// the authentication.
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+// Compares digests so the time taken does not reveal how much of the secret matched
+async function secretsMatch(given: string, expected: string): Promise<boolean> {
+  const encoder = new TextEncoder()
+  const [a, b] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(given)),
+    crypto.subtle.digest('SHA-256', encoder.encode(expected)),
+  ])
+  const x = new Uint8Array(a)
+  const y = new Uint8Array(b)
+  let diff = 0
+  for (let i = 0; i < x.length; i++) diff |= x[i] ^ y[i]
+  return diff === 0
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const url = new URL(req.url)
+    const integrationId = url.searchParams.get('integration')
+    const secret = req.headers.get('x-webhook-secret') ?? url.searchParams.get('secret')
+    if (!integrationId || !secret) {
+      return json({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const { data: integration } = await supabaseAdmin
+      .from('festival_integrations')
+      .select('id, festival_id, provider, enabled, events:integration_events(id, external_event_id, enabled)')
+      .eq('id', integrationId)
+      .eq('provider', 'ticketco')
+      .maybeSingle()
+
+    const expected = integration
+      ? await getIntegrationSecret(supabaseAdmin, integration.id, 'webhook_secret')
+      : null
+
+    // Same response for unknown integrations and wrong secrets
+    if (!integration || !expected || !(await secretsMatch(secret, expected))) {
+      return json({ error: 'Unauthorized' }, 401)
+    }
+
+    // Acknowledge so TicketCo does not keep retrying; the next sync skips it too
+    if (!integration.enabled) {
+      return json({ status: 'ignored', reason: 'integration disabled' })
+    }
+
+    let body
+    try {
+      body = await req.json()
+    } catch {
+      return json({ error: 'Invalid JSON' }, 400)
+    }
+
+    // TicketCo wraps the order as { event, order }; accept a bare order as well
+    const order: TicketCoOrder | undefined = body?.order ?? (body?.order_lines ? body : undefined)
+    if (!order?.id) {
+      return json({ error: 'Missing order' }, 400)
+    }
+
+    // Tag the sale with its event; an order without event id can only belong
+    // to an integration with a single event
+    const events: { id: string; external_event_id: string; enabled: boolean }[] =
+      integration.events ?? []
+    const event = order.event_id !== undefined
+      ? events.find((e) => e.external_event_id === String(order.event_id))
+      : events.length === 1 ? events[0] : undefined
+    if (!event || !event.enabled) {
+      return json({ status: 'ignored', reason: 'other event' })
+    }
+
+    const rules = await loadCategoryRules(supabaseAdmin, integration.festival_id)
+    const outlets = await loadOutlets(supabaseAdmin, integration.festival_id)
+    const syncedAt = new Date().toISOString()
+    const salesRows = applyOutlets(applyCategoryRules(mapOrder(order), rules), outlets).map((row) => ({
+      ...row,
+      festival_id: integration.festival_id,
+      provider: 'ticketco',
+      integration_id: integration.id,
+      event_id: event.id,
+      synced_at: syncedAt,
+    }))
+
+    if (salesRows.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('ticket_sales')
+        .upsert(salesRows, { onConflict: 'festival_id,provider,external_id' })
+      if (error) throw error
+    }
+
+    // A refund/cancellation webhook may not repeat every original line
+    if (isVoidedOrder(order)) {
+      const { error } = await supabaseAdmin
+        .from('ticket_sales')
+        .update({ voided_at: order.updated_at ?? syncedAt })
+        .eq('festival_id', integration.festival_id)
+        .eq('provider', 'ticketco')
+        .eq('external_order_id', String(order.id))
+        .is('voided_at', null)
+      if (error) throw error
+    }
+
+    return json({ status: 'success', records_synced: salesRows.length })
+  } catch (err) {
+    // 500 makes TicketCo retry the delivery
+    return json({ error: (err as Error).message }, 500)
+  }
+})
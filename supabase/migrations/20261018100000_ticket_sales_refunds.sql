@@ -0,0 +1,18 @@
+-- ============================================================
+-- Refunds and cancellations from TicketCo + incremental sync cursor
+-- ============================================================
+
+-- Refunded/cancelled orders keep their rows but get voided_at set, so they
+-- drop out of all totals. Partial refunds arrive as reversal lines with a
+-- negative quantity that net out against the original sale.
+ALTER TABLE ticket_sales
+  ADD COLUMN ticketco_order_id text,
+  ADD COLUMN is_reversal boolean NOT NULL DEFAULT false,
+  ADD COLUMN voided_at timestamptz;
+
+CREATE INDEX idx_ticket_sales_order ON ticket_sales(festival_id, ticketco_order_id);
+
+-- Newest order change seen by a sync run. The next run asks TicketCo for
+-- orders updated after this point instead of relying on the wall clock.
+ALTER TABLE ticketco_sync_logs
+  ADD COLUMN cursor timestamptz;
@@ -0,0 +1,46 @@
+-- ============================================================
+-- Pluggable ticketing providers
+-- A festival can have several integrations (one row per provider
+-- account/event); all of them sync into ticket_sales.
+-- ============================================================
+
+ALTER TABLE festival_integrations RENAME COLUMN ticketco_api_key TO api_key;
+ALTER TABLE festival_integrations RENAME COLUMN ticketco_event_id TO external_event_id;
+
+ALTER TABLE festival_integrations
+  ADD COLUMN provider text NOT NULL DEFAULT 'ticketco'
+    CHECK (provider IN ('ticketco')),
+  ADD COLUMN label text,
+  ADD COLUMN enabled boolean NOT NULL DEFAULT true;
+
+CREATE INDEX idx_festival_integrations_festival ON festival_integrations(festival_id);
+
+-- ticket_sales: provider-neutral source identifiers
+ALTER TABLE ticket_sales RENAME COLUMN ticketco_id TO external_id;
+ALTER TABLE ticket_sales RENAME COLUMN ticketco_order_id TO external_order_id;
+
+ALTER TABLE ticket_sales
+  ADD COLUMN provider text NOT NULL DEFAULT 'ticketco',
+  ADD COLUMN integration_id uuid REFERENCES festival_integrations(id) ON DELETE SET NULL;
+
+UPDATE ticket_sales ts
+SET integration_id = fi.id
+FROM festival_integrations fi
+WHERE fi.festival_id = ts.festival_id;
+
+-- Source ids are only unique within a provider
+CREATE UNIQUE INDEX ticket_sales_provider_external_id_key
+  ON ticket_sales(festival_id, provider, external_id);
+
+-- Sync log: cursors are tracked per integration
+ALTER TABLE ticketco_sync_logs
+  ADD COLUMN integration_id uuid REFERENCES festival_integrations(id) ON DELETE CASCADE,
+  ADD COLUMN provider text NOT NULL DEFAULT 'ticketco';
+
+UPDATE ticketco_sync_logs l
+SET integration_id = fi.id
+FROM festival_integrations fi
+WHERE fi.festival_id = l.festival_id;
+
+CREATE INDEX idx_ticketco_sync_logs_integration
+  ON ticketco_sync_logs(integration_id, synced_at DESC);
@@ -0,0 +1,13 @@
+-- ============================================================
+-- Manual import of ticket sales (CSV/XLSX from the Sales page)
+-- Imported rows use provider 'import' and a content hash as
+-- external_id, so the unique (festival_id, provider, external_id)
+-- index makes re-importing the same file a no-op.
+-- ============================================================
+
+CREATE POLICY "Admins can manage ticket_sales"
+  ON ticket_sales FOR ALL
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'admin'
+  );
@@ -0,0 +1,23 @@
+-- ============================================================
+-- TicketCo webhooks
+-- Each integration gets its own shared secret; the ticketco-webhook
+-- function rejects deliveries that do not present it.
+-- ============================================================
+
+ALTER TABLE festival_integrations
+  ADD COLUMN webhook_secret text;
+
+-- Webhook upserts reach the dashboard through Supabase Realtime
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'ticket_sales'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE ticket_sales;
+  END IF;
+END $$;
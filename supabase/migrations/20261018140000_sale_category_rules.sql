@@ -0,0 +1,111 @@
+-- ============================================================
+-- Configurable sale categories
+-- Admins maintain rules that map a sale line (by title or by the
+-- provider's own category) to a sale category. Rules are applied
+-- during sync/webhook and can be re-applied to stored sales with
+-- apply_sale_category_rules().
+-- ============================================================
+
+-- More categories than ticket / F&B
+ALTER TABLE ticket_sales DROP CONSTRAINT IF EXISTS ticket_sales_category_check;
+ALTER TABLE ticket_sales
+  ADD CONSTRAINT ticket_sales_category_check
+    CHECK (category IN ('ticket', 'fb', 'merch', 'camping', 'parking', 'donation'));
+
+-- The provider's raw line category, kept so rules can be re-applied later
+ALTER TABLE ticket_sales ADD COLUMN source_category text;
+
+CREATE TABLE sale_category_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  match_field text NOT NULL CHECK (match_field IN ('title', 'category')),
+  match_type text NOT NULL CHECK (match_type IN ('exact', 'regex')),
+  pattern text NOT NULL,
+  category text NOT NULL
+    CHECK (category IN ('ticket', 'fb', 'merch', 'camping', 'parking', 'donation')),
+  priority integer NOT NULL DEFAULT 0, -- lowest first; first match wins
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sale_category_rules_festival
+  ON sale_category_rules(festival_id, priority);
+
+ALTER TABLE sale_category_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Festival members can read sale_category_rules"
+  ON sale_category_rules FOR SELECT
+  USING (festival_id = public.current_user_festival_id());
+
+CREATE POLICY "Admins can manage sale_category_rules"
+  ON sale_category_rules FOR ALL
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'admin'
+  );
+
+-- Fallback when no rule matches. Keep in sync with mapOrder() in
+-- supabase/functions/_shared/providers/ticketco.ts
+CREATE OR REPLACE FUNCTION public.default_sale_category(p_source_category text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN lower(coalesce(p_source_category, '')) ~ '(food|mat|drikke|beverage)' THEN 'fb'
+    ELSE 'ticket'
+  END
+$$;
+
+-- Re-classifies all stored sales of a festival. Runs with the caller's
+-- rights, so only admins (ticket_sales write policy) change anything.
+-- Rows without a source category (manual imports, sales synced before
+-- this migration) keep their category unless a rule matches.
+-- Returns the number of rows whose category changed.
+CREATE OR REPLACE FUNCTION public.apply_sale_category_rules(p_festival_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  WITH classified AS (
+    SELECT
+      ts.id,
+      COALESCE(
+        (
+          SELECT r.category
+          FROM sale_category_rules r
+          CROSS JOIN LATERAL (
+            SELECT CASE r.match_field
+              WHEN 'title' THEN ts.ticket_type
+              ELSE ts.source_category
+            END AS subject
+          ) s
+          WHERE r.festival_id = ts.festival_id
+            AND s.subject IS NOT NULL
+            AND (
+              (r.match_type = 'exact' AND lower(trim(s.subject)) = lower(trim(r.pattern)))
+              OR (r.match_type = 'regex' AND s.subject ~* r.pattern)
+            )
+          ORDER BY r.priority, r.created_at
+          LIMIT 1
+        ),
+        CASE
+          WHEN ts.source_category IS NULL THEN ts.category
+          ELSE public.default_sale_category(ts.source_category)
+        END
+      ) AS category
+    FROM ticket_sales ts
+    WHERE ts.festival_id = p_festival_id
+  )
+  UPDATE ticket_sales ts
+  SET category = c.category
+  FROM classified c
+  WHERE ts.id = c.id
+    AND ts.category IS DISTINCT FROM c.category;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
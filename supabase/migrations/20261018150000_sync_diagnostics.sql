@@ -0,0 +1,29 @@
+-- ============================================================
+-- Sync diagnostics
+-- Run metrics on every sync log row, and a per-festival threshold
+-- after which the app warns that sales data is stale.
+-- ============================================================
+
+ALTER TABLE ticketco_sync_logs
+  ADD COLUMN duration_ms integer,
+  ADD COLUMN pages_fetched integer;
+
+-- Minutes since the last successful sync before Sales/Dashboard warn
+ALTER TABLE festivals
+  ADD COLUMN sync_stale_after_minutes integer NOT NULL DEFAULT 60
+    CHECK (sync_stale_after_minutes > 0);
+
+-- Lets the stale warning clear as soon as a sync finishes
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'ticketco_sync_logs'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE ticketco_sync_logs;
+  END IF;
+END $$;
@@ -0,0 +1,14 @@
+-- ============================================================
+-- Full and range resyncs
+-- ticketco-sync can re-fetch all orders (mode 'full') or orders
+-- placed in a window (mode 'range') and reconcile ticket_sales
+-- against them. The log records the mode, window and diff.
+-- ============================================================
+
+ALTER TABLE ticketco_sync_logs
+  ADD COLUMN mode text NOT NULL DEFAULT 'incremental'
+    CHECK (mode IN ('incremental', 'full', 'range')),
+  ADD COLUMN range_from timestamptz,
+  ADD COLUMN range_to timestamptz,
+  -- { inserted, updated, deleted, unchanged } for full/range runs
+  ADD COLUMN diff jsonb;
@@ -0,0 +1,14 @@
+-- ============================================================
+-- Partial sync runs
+-- A run that stored some pages before failing is logged as
+-- 'partial'. Its cursor is the window it started from and
+-- resume_page the first page not stored, so the next run
+-- continues there.
+-- ============================================================
+
+ALTER TABLE ticketco_sync_logs DROP CONSTRAINT IF EXISTS ticketco_sync_logs_status_check;
+ALTER TABLE ticketco_sync_logs
+  ADD CONSTRAINT ticketco_sync_logs_status_check
+    CHECK (status IN ('success', 'partial', 'error'));
+
+ALTER TABLE ticketco_sync_logs ADD COLUMN resume_page integer;
@@ -0,0 +1,162 @@
+-- ============================================================
+-- Encrypted integration secrets
+-- API keys and webhook secrets move from plaintext columns into
+-- Supabase Vault. The browser can only write them (through
+-- set_integration_secret) and sees a masked hint; edge functions
+-- read them with the service role through integration_secret().
+-- ============================================================
+
+CREATE EXTENSION IF NOT EXISTS supabase_vault WITH SCHEMA vault;
+
+ALTER TABLE festival_integrations
+  ADD COLUMN api_key_secret_id uuid,
+  ADD COLUMN api_key_hint text,
+  ADD COLUMN webhook_secret_id uuid,
+  ADD COLUMN webhook_secret_hint text;
+
+-- Last four characters, enough to recognise a key without revealing it.
+-- Short secrets get only the mask, as four characters would give most of
+-- them away.
+CREATE OR REPLACE FUNCTION public.secret_hint(p_secret text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN length(p_secret) > 12 THEN '••••' || right(p_secret, 4) ELSE '••••' END
+$$;
+
+-- Move existing plaintext values into the vault
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT id, api_key, webhook_secret FROM festival_integrations LOOP
+    IF r.api_key IS NOT NULL THEN
+      UPDATE festival_integrations
+      SET api_key_secret_id = vault.create_secret(r.api_key, 'integration:' || r.id || ':api_key'),
+          api_key_hint = public.secret_hint(r.api_key)
+      WHERE id = r.id;
+    END IF;
+    IF r.webhook_secret IS NOT NULL THEN
+      UPDATE festival_integrations
+      SET webhook_secret_id = vault.create_secret(r.webhook_secret, 'integration:' || r.id || ':webhook_secret'),
+          webhook_secret_hint = public.secret_hint(r.webhook_secret)
+      WHERE id = r.id;
+    END IF;
+  END LOOP;
+END $$;
+
+ALTER TABLE festival_integrations
+  DROP COLUMN api_key,
+  DROP COLUMN webhook_secret;
+
+-- Secret references are only set by set_integration_secret(); otherwise an
+-- admin could point their integration at another festival's vault entry.
+-- New columns that the app should edit must be granted here too.
+REVOKE INSERT, UPDATE ON festival_integrations FROM anon, authenticated;
+GRANT INSERT (festival_id, provider, label, external_event_id, enabled)
+  ON festival_integrations TO authenticated;
+GRANT UPDATE (provider, label, external_event_id, enabled)
+  ON festival_integrations TO authenticated;
+
+-- Write-only from the app: admins of the integration's festival can set,
+-- replace or clear (NULL/empty) a secret, but never read it back
+CREATE OR REPLACE FUNCTION public.set_integration_secret(
+  p_integration_id uuid,
+  p_kind text,
+  p_secret text
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_integration festival_integrations%ROWTYPE;
+  v_secret_id uuid;
+  v_hint text;
+BEGIN
+  IF p_kind NOT IN ('api_key', 'webhook_secret') THEN
+    RAISE EXCEPTION 'Unknown secret kind: %', p_kind;
+  END IF;
+
+  SELECT * INTO v_integration FROM festival_integrations WHERE id = p_integration_id;
+  IF NOT FOUND
+    OR v_integration.festival_id IS DISTINCT FROM public.current_user_festival_id()
+    OR public.current_user_role() IS DISTINCT FROM 'admin'
+  THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  v_secret_id := CASE p_kind
+    WHEN 'api_key' THEN v_integration.api_key_secret_id
+    ELSE v_integration.webhook_secret_id
+  END;
+
+  IF coalesce(p_secret, '') = '' THEN
+    DELETE FROM vault.secrets WHERE id = v_secret_id;
+    v_secret_id := NULL;
+    v_hint := NULL;
+  ELSIF v_secret_id IS NULL THEN
+    v_secret_id := vault.create_secret(p_secret, 'integration:' || p_integration_id || ':' || p_kind);
+    v_hint := public.secret_hint(p_secret);
+  ELSE
+    PERFORM vault.update_secret(v_secret_id, p_secret);
+    v_hint := public.secret_hint(p_secret);
+  END IF;
+
+  IF p_kind = 'api_key' THEN
+    UPDATE festival_integrations
+    SET api_key_secret_id = v_secret_id, api_key_hint = v_hint
+    WHERE id = p_integration_id;
+  ELSE
+    UPDATE festival_integrations
+    SET webhook_secret_id = v_secret_id, webhook_secret_hint = v_hint
+    WHERE id = p_integration_id;
+  END IF;
+
+  RETURN v_hint;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_integration_secret(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_integration_secret(uuid, text, text) TO authenticated;
+
+-- Decrypts a secret. Edge functions only: not callable from the browser.
+CREATE OR REPLACE FUNCTION public.integration_secret(p_integration_id uuid, p_kind text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ds.decrypted_secret
+  FROM festival_integrations fi
+  JOIN vault.decrypted_secrets ds
+    ON ds.id = CASE p_kind
+      WHEN 'api_key' THEN fi.api_key_secret_id
+      WHEN 'webhook_secret' THEN fi.webhook_secret_id
+    END
+  WHERE fi.id = p_integration_id
+$$;
+
+REVOKE ALL ON FUNCTION public.integration_secret(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.integration_secret(uuid, text) TO service_role;
+
+-- Deleting an integration removes its secrets from the vault
+CREATE OR REPLACE FUNCTION public.delete_integration_secrets()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM vault.secrets
+  WHERE id IN (OLD.api_key_secret_id, OLD.webhook_secret_id);
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER festival_integrations_delete_secrets
+  AFTER DELETE ON festival_integrations
+  FOR EACH ROW EXECUTE FUNCTION public.delete_integration_secrets();
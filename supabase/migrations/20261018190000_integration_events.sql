@@ -0,0 +1,64 @@
+-- ============================================================
+-- Several ticketing events per integration
+-- One TicketCo account often sells separate events for the same
+-- festival (main festival, warm-up concert, children's day). Each
+-- event is synced on its own cursor and every sale is tagged with
+-- the event it came from.
+-- ============================================================
+
+CREATE TABLE integration_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  integration_id uuid NOT NULL REFERENCES festival_integrations(id) ON DELETE CASCADE,
+  external_event_id text NOT NULL,
+  label text,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (integration_id, external_event_id)
+);
+
+CREATE INDEX idx_integration_events_festival ON integration_events(festival_id);
+
+ALTER TABLE integration_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Festival members can read integration_events"
+  ON integration_events FOR SELECT
+  USING (festival_id = public.current_user_festival_id());
+
+CREATE POLICY "Admins can manage integration_events"
+  ON integration_events FOR ALL
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'admin'
+  );
+
+-- The event id on the integration becomes its first event
+INSERT INTO integration_events (festival_id, integration_id, external_event_id, label)
+SELECT festival_id, id, external_event_id, label
+FROM festival_integrations
+WHERE external_event_id IS NOT NULL;
+
+ALTER TABLE festival_integrations DROP COLUMN external_event_id;
+
+-- Source event of each sale (NULL for manual imports)
+ALTER TABLE ticket_sales
+  ADD COLUMN event_id uuid REFERENCES integration_events(id) ON DELETE SET NULL;
+
+UPDATE ticket_sales ts
+SET event_id = ie.id
+FROM integration_events ie
+WHERE ie.integration_id = ts.integration_id;
+
+CREATE INDEX idx_ticket_sales_event ON ticket_sales(event_id);
+
+-- Sync cursors are tracked per event
+ALTER TABLE ticketco_sync_logs
+  ADD COLUMN event_id uuid REFERENCES integration_events(id) ON DELETE CASCADE;
+
+UPDATE ticketco_sync_logs l
+SET event_id = ie.id
+FROM integration_events ie
+WHERE ie.integration_id = l.integration_id;
+
+CREATE INDEX idx_ticketco_sync_logs_event
+  ON ticketco_sync_logs(event_id, synced_at DESC);
@@ -0,0 +1,72 @@
+-- ============================================================
+-- Ticket sales of earlier editions, for forecasting
+-- Daily ticket counts keyed by days before that edition's festival
+-- start, so curves from different years line up. Filled from a CSV
+-- of an earlier year or by archiving the current year's sales with
+-- archive_sales_history().
+-- ============================================================
+
+CREATE TABLE sales_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  edition_year integer NOT NULL,
+  days_before integer NOT NULL, -- 0 = opening day, negative = during the festival
+  tickets integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (festival_id, edition_year, days_before)
+);
+
+ALTER TABLE sales_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Festival members can read sales_history"
+  ON sales_history FOR SELECT
+  USING (festival_id = public.current_user_festival_id());
+
+CREATE POLICY "Admins can manage sales_history"
+  ON sales_history FOR ALL
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'admin'
+  );
+
+-- Replaces the history of p_edition_year with the festival's current
+-- ticket sales (voided orders excluded, uncategorised rows count as
+-- tickets). Runs with the caller's rights, so only admins can write.
+-- Returns the number of days stored.
+CREATE OR REPLACE FUNCTION public.archive_sales_history(
+  p_festival_id uuid,
+  p_edition_year integer
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_start_date date;
+  v_days integer;
+BEGIN
+  SELECT start_date INTO v_start_date FROM festivals WHERE id = p_festival_id;
+  IF v_start_date IS NULL THEN
+    RAISE EXCEPTION 'Festival has no start date';
+  END IF;
+
+  DELETE FROM sales_history
+  WHERE festival_id = p_festival_id AND edition_year = p_edition_year;
+
+  INSERT INTO sales_history (festival_id, edition_year, days_before, tickets)
+  SELECT
+    p_festival_id,
+    p_edition_year,
+    v_start_date - (ts.sold_at AT TIME ZONE 'Europe/Oslo')::date,
+    sum(ts.quantity)
+  FROM ticket_sales ts
+  WHERE ts.festival_id = p_festival_id
+    AND ts.voided_at IS NULL
+    AND ts.sold_at IS NOT NULL
+    AND (ts.category = 'ticket' OR ts.category IS NULL)
+  GROUP BY 3;
+
+  GET DIAGNOSTICS v_days = ROW_COUNT;
+  RETURN v_days;
+END;
+$$;
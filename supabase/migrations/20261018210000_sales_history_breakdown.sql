@@ -0,0 +1,58 @@
+-- ============================================================
+-- Revenue and ticket types in the sales history
+-- The year-over-year comparison overlays revenue as well as tickets
+-- and breaks both down per ticket type. Rows without a ticket type
+-- (imports of daily totals) use ''.
+-- ============================================================
+
+ALTER TABLE sales_history
+  ADD COLUMN ticket_type text NOT NULL DEFAULT '',
+  ADD COLUMN revenue numeric(12,2);
+
+ALTER TABLE sales_history
+  DROP CONSTRAINT sales_history_festival_id_edition_year_days_before_key;
+ALTER TABLE sales_history
+  ADD CONSTRAINT sales_history_day_type_key
+    UNIQUE (festival_id, edition_year, days_before, ticket_type);
+
+CREATE OR REPLACE FUNCTION public.archive_sales_history(
+  p_festival_id uuid,
+  p_edition_year integer
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_start_date date;
+  v_days integer;
+BEGIN
+  SELECT start_date INTO v_start_date FROM festivals WHERE id = p_festival_id;
+  IF v_start_date IS NULL THEN
+    RAISE EXCEPTION 'Festival has no start date';
+  END IF;
+
+  DELETE FROM sales_history
+  WHERE festival_id = p_festival_id AND edition_year = p_edition_year;
+
+  INSERT INTO sales_history (festival_id, edition_year, days_before, ticket_type, tickets, revenue)
+  SELECT
+    p_festival_id,
+    p_edition_year,
+    v_start_date - (ts.sold_at AT TIME ZONE 'Europe/Oslo')::date,
+    ts.ticket_type,
+    sum(ts.quantity),
+    sum(coalesce(ts.price_inc_vat, 0) * ts.quantity)
+  FROM ticket_sales ts
+  WHERE ts.festival_id = p_festival_id
+    AND ts.voided_at IS NULL
+    AND ts.sold_at IS NOT NULL
+    AND (ts.category = 'ticket' OR ts.category IS NULL)
+  GROUP BY 3, 4;
+
+  SELECT count(DISTINCT days_before) INTO v_days
+  FROM sales_history
+  WHERE festival_id = p_festival_id AND edition_year = p_edition_year;
+  RETURN v_days;
+END;
+$$;
@@ -0,0 +1,247 @@
+-- ============================================================
+-- Festival editions
+-- A festival runs once a year. Dates and capacity move from the
+-- festival to its editions, and sales, income, expenses, sponsors
+-- and reports belong to one edition. festivals.current_edition_id is
+-- the edition new rows land in unless they name one; rollover
+-- creates the next edition from the previous one.
+-- ============================================================
+
+CREATE TABLE festival_editions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  year integer NOT NULL,
+  name text,
+  start_date date,
+  end_date date,
+  capacity integer,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (festival_id, year)
+);
+
+ALTER TABLE festival_editions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Festival members can read festival_editions"
+  ON festival_editions FOR SELECT
+  USING (festival_id = public.current_user_festival_id());
+
+CREATE POLICY "Admins can manage festival_editions"
+  ON festival_editions FOR ALL
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'admin'
+  );
+
+ALTER TABLE festivals
+  ADD COLUMN current_edition_id uuid REFERENCES festival_editions(id) ON DELETE SET NULL;
+
+-- Every festival starts with one edition holding its dates and capacity
+INSERT INTO festival_editions (festival_id, year, start_date, end_date, capacity)
+SELECT id, extract(year FROM coalesce(start_date, now()))::integer, start_date, end_date, capacity
+FROM festivals;
+
+UPDATE festivals f
+SET current_edition_id = e.id
+FROM festival_editions e
+WHERE e.festival_id = f.id;
+
+ALTER TABLE festivals
+  DROP COLUMN start_date,
+  DROP COLUMN end_date,
+  DROP COLUMN capacity;
+
+-- Edition of each row, backfilled with the festival's only edition
+ALTER TABLE ticket_sales ADD COLUMN edition_id uuid REFERENCES festival_editions(id) ON DELETE CASCADE;
+ALTER TABLE income ADD COLUMN edition_id uuid REFERENCES festival_editions(id) ON DELETE CASCADE;
+ALTER TABLE expenses ADD COLUMN edition_id uuid REFERENCES festival_editions(id) ON DELETE CASCADE;
+ALTER TABLE sponsors ADD COLUMN edition_id uuid REFERENCES festival_editions(id) ON DELETE CASCADE;
+ALTER TABLE reports ADD COLUMN edition_id uuid REFERENCES festival_editions(id) ON DELETE CASCADE;
+-- Sales of an event go to its edition, also when an old event is resynced
+ALTER TABLE integration_events ADD COLUMN edition_id uuid REFERENCES festival_editions(id) ON DELETE SET NULL;
+
+UPDATE ticket_sales t SET edition_id = f.current_edition_id FROM festivals f WHERE f.id = t.festival_id;
+UPDATE income t SET edition_id = f.current_edition_id FROM festivals f WHERE f.id = t.festival_id;
+UPDATE expenses t SET edition_id = f.current_edition_id FROM festivals f WHERE f.id = t.festival_id;
+UPDATE sponsors t SET edition_id = f.current_edition_id FROM festivals f WHERE f.id = t.festival_id;
+UPDATE reports t SET edition_id = f.current_edition_id FROM festivals f WHERE f.id = t.festival_id;
+UPDATE integration_events t SET edition_id = f.current_edition_id FROM festivals f WHERE f.id = t.festival_id;
+
+ALTER TABLE ticket_sales ALTER COLUMN edition_id SET NOT NULL;
+ALTER TABLE income ALTER COLUMN edition_id SET NOT NULL;
+ALTER TABLE expenses ALTER COLUMN edition_id SET NOT NULL;
+ALTER TABLE sponsors ALTER COLUMN edition_id SET NOT NULL;
+ALTER TABLE reports ALTER COLUMN edition_id SET NOT NULL;
+
+CREATE INDEX idx_ticket_sales_edition ON ticket_sales(edition_id);
+CREATE INDEX idx_income_edition ON income(edition_id);
+CREATE INDEX idx_expenses_edition ON expenses(edition_id);
+CREATE INDEX idx_sponsors_edition ON sponsors(edition_id);
+CREATE INDEX idx_reports_edition ON reports(edition_id);
+
+-- Rows inserted without an edition (syncs, webhooks, older clients) go to
+-- their event's edition, else the festival's current edition
+CREATE OR REPLACE FUNCTION public.set_default_edition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Nested so NEW.event_id is only read on ticket_sales
+  IF TG_TABLE_NAME = 'ticket_sales' THEN
+    IF NEW.edition_id IS NULL AND NEW.event_id IS NOT NULL THEN
+      SELECT edition_id INTO NEW.edition_id FROM integration_events WHERE id = NEW.event_id;
+    END IF;
+  END IF;
+  IF NEW.edition_id IS NULL THEN
+    SELECT current_edition_id INTO NEW.edition_id FROM festivals WHERE id = NEW.festival_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ticket_sales_default_edition
+  BEFORE INSERT ON ticket_sales
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_edition();
+CREATE TRIGGER income_default_edition
+  BEFORE INSERT ON income
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_edition();
+CREATE TRIGGER expenses_default_edition
+  BEFORE INSERT ON expenses
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_edition();
+CREATE TRIGGER sponsors_default_edition
+  BEFORE INSERT ON sponsors
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_edition();
+CREATE TRIGGER reports_default_edition
+  BEFORE INSERT ON reports
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_edition();
+CREATE TRIGGER integration_events_default_edition
+  BEFORE INSERT ON integration_events
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_edition();
+
+-- The history archive now reads one edition: its start date and its sales
+CREATE OR REPLACE FUNCTION public.archive_sales_history(
+  p_festival_id uuid,
+  p_edition_year integer
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_edition festival_editions%ROWTYPE;
+  v_days integer;
+BEGIN
+  SELECT * INTO v_edition
+  FROM festival_editions
+  WHERE festival_id = p_festival_id AND year = p_edition_year;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No edition for %', p_edition_year;
+  END IF;
+  IF v_edition.start_date IS NULL THEN
+    RAISE EXCEPTION 'Edition % has no start date', p_edition_year;
+  END IF;
+
+  DELETE FROM sales_history
+  WHERE festival_id = p_festival_id AND edition_year = p_edition_year;
+
+  INSERT INTO sales_history (festival_id, edition_year, days_before, ticket_type, tickets, revenue)
+  SELECT
+    p_festival_id,
+    p_edition_year,
+    v_edition.start_date - (ts.sold_at AT TIME ZONE 'Europe/Oslo')::date,
+    ts.ticket_type,
+    sum(ts.quantity),
+    sum(coalesce(ts.price_inc_vat, 0) * ts.quantity)
+  FROM ticket_sales ts
+  WHERE ts.edition_id = v_edition.id
+    AND ts.voided_at IS NULL
+    AND ts.sold_at IS NOT NULL
+    AND (ts.category = 'ticket' OR ts.category IS NULL)
+  GROUP BY 3, 4;
+
+  SELECT count(DISTINCT days_before) INTO v_days
+  FROM sales_history
+  WHERE festival_id = p_festival_id AND edition_year = p_edition_year;
+  RETURN v_days;
+END;
+$$;
+
+-- Starts the next edition: creates it, archives the previous edition's
+-- ticket sales into sales_history (for comparison and forecasting),
+-- optionally copies sponsors (with their deliverables, reset to not
+-- delivered) and budget lines, and makes the new edition current.
+-- Sale category rules and integrations belong to the festival and carry
+-- over as they are. Runs with the caller's rights: admins only.
+CREATE OR REPLACE FUNCTION public.rollover_festival_edition(
+  p_festival_id uuid,
+  p_year integer,
+  p_name text,
+  p_start_date date,
+  p_end_date date,
+  p_capacity integer,
+  p_copy_sponsors boolean,
+  p_copy_budget boolean
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_previous festival_editions%ROWTYPE;
+  v_edition_id uuid;
+  v_sponsor record;
+  v_sponsor_id uuid;
+BEGIN
+  SELECT e.* INTO v_previous
+  FROM festivals f
+  JOIN festival_editions e ON e.id = f.current_edition_id
+  WHERE f.id = p_festival_id;
+
+  INSERT INTO festival_editions (festival_id, year, name, start_date, end_date, capacity)
+  VALUES (p_festival_id, p_year, p_name, p_start_date, p_end_date, p_capacity)
+  RETURNING id INTO v_edition_id;
+
+  IF v_previous.id IS NOT NULL THEN
+    IF v_previous.start_date IS NOT NULL THEN
+      PERFORM public.archive_sales_history(p_festival_id, v_previous.year);
+    END IF;
+
+    IF p_copy_sponsors THEN
+      FOR v_sponsor IN SELECT * FROM sponsors WHERE edition_id = v_previous.id LOOP
+        INSERT INTO sponsors (
+          festival_id, edition_id, name, level, contact_name, contact_email,
+          contact_phone, invoice_address, logo_url, agreement_amount, status, notes
+        )
+        VALUES (
+          p_festival_id, v_edition_id, v_sponsor.name, v_sponsor.level, v_sponsor.contact_name,
+          v_sponsor.contact_email, v_sponsor.contact_phone, v_sponsor.invoice_address,
+          v_sponsor.logo_url, v_sponsor.agreement_amount, 'contacted', v_sponsor.notes
+        )
+        RETURNING id INTO v_sponsor_id;
+
+        INSERT INTO sponsor_deliverables (sponsor_id, festival_id, description, delivered)
+        SELECT v_sponsor_id, p_festival_id, description, false
+        FROM sponsor_deliverables
+        WHERE sponsor_id = v_sponsor.id;
+      END LOOP;
+    END IF;
+
+    IF p_copy_budget THEN
+      INSERT INTO income (festival_id, edition_id, category, description, amount_ex_vat, vat_rate, vat_amount, source, is_budget)
+      SELECT p_festival_id, v_edition_id, category, description, amount_ex_vat, vat_rate, vat_amount, source, true
+      FROM income
+      WHERE edition_id = v_previous.id AND is_budget;
+
+      INSERT INTO expenses (festival_id, edition_id, category, description, amount_ex_vat, vat_rate, vat_amount, supplier, is_budget)
+      SELECT p_festival_id, v_edition_id, category, description, amount_ex_vat, vat_rate, vat_amount, supplier, true
+      FROM expenses
+      WHERE edition_id = v_previous.id AND is_budget;
+    END IF;
+  END IF;
+
+  UPDATE festivals SET current_edition_id = v_edition_id WHERE id = p_festival_id;
+
+  RETURN v_edition_id;
+END;
+$$;
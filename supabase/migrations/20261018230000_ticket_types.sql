@@ -0,0 +1,131 @@
+-- ============================================================
+-- Ticket type catalogue
+-- Each edition lists the ticket types on sale with a quota, price,
+-- VAT rate and sale window. Sales are matched to a type by its name
+-- or one of the provider titles in external_titles, so the sales page
+-- can show sold against quota. warn_at is the share of the quota
+-- that triggers a warning.
+-- ============================================================
+
+CREATE TABLE ticket_types (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  edition_id uuid NOT NULL REFERENCES festival_editions(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  quota integer CHECK (quota >= 0),
+  price_inc_vat numeric(10,2),
+  vat_rate numeric(4,3) NOT NULL DEFAULT 0.12,
+  sale_start timestamptz,
+  sale_end timestamptz,
+  external_titles text[] NOT NULL DEFAULT '{}',
+  warn_at numeric(4,3) NOT NULL DEFAULT 0.9 CHECK (warn_at > 0 AND warn_at <= 1),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (edition_id, name)
+);
+
+CREATE INDEX idx_ticket_types_edition ON ticket_types(edition_id, sort_order);
+
+ALTER TABLE ticket_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Festival members can read ticket_types"
+  ON ticket_types FOR SELECT
+  USING (festival_id = public.current_user_festival_id());
+
+CREATE POLICY "Admins can manage ticket_types"
+  ON ticket_types FOR ALL
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'admin'
+  );
+
+CREATE TRIGGER ticket_types_default_edition
+  BEFORE INSERT ON ticket_types
+  FOR EACH ROW EXECUTE FUNCTION public.set_default_edition();
+
+-- Rollover also copies the ticket catalogue to the new edition
+CREATE OR REPLACE FUNCTION public.rollover_festival_edition(
+  p_festival_id uuid,
+  p_year integer,
+  p_name text,
+  p_start_date date,
+  p_end_date date,
+  p_capacity integer,
+  p_copy_sponsors boolean,
+  p_copy_budget boolean
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_previous festival_editions%ROWTYPE;
+  v_edition_id uuid;
+  v_sponsor record;
+  v_sponsor_id uuid;
+BEGIN
+  SELECT e.* INTO v_previous
+  FROM festivals f
+  JOIN festival_editions e ON e.id = f.current_edition_id
+  WHERE f.id = p_festival_id;
+
+  INSERT INTO festival_editions (festival_id, year, name, start_date, end_date, capacity)
+  VALUES (p_festival_id, p_year, p_name, p_start_date, p_end_date, p_capacity)
+  RETURNING id INTO v_edition_id;
+
+  IF v_previous.id IS NOT NULL THEN
+    IF v_previous.start_date IS NOT NULL THEN
+      PERFORM public.archive_sales_history(p_festival_id, v_previous.year);
+    END IF;
+
+    IF p_copy_sponsors THEN
+      FOR v_sponsor IN SELECT * FROM sponsors WHERE edition_id = v_previous.id LOOP
+        INSERT INTO sponsors (
+          festival_id, edition_id, name, level, contact_name, contact_email,
+          contact_phone, invoice_address, logo_url, agreement_amount, status, notes
+        )
+        VALUES (
+          p_festival_id, v_edition_id, v_sponsor.name, v_sponsor.level, v_sponsor.contact_name,
+          v_sponsor.contact_email, v_sponsor.contact_phone, v_sponsor.invoice_address,
+          v_sponsor.logo_url, v_sponsor.agreement_amount, 'contacted', v_sponsor.notes
+        )
+        RETURNING id INTO v_sponsor_id;
+
+        INSERT INTO sponsor_deliverables (sponsor_id, festival_id, description, delivered)
+        SELECT v_sponsor_id, p_festival_id, description, false
+        FROM sponsor_deliverables
+        WHERE sponsor_id = v_sponsor.id;
+      END LOOP;
+    END IF;
+
+    IF p_copy_budget THEN
+      INSERT INTO income (festival_id, edition_id, category, description, amount_ex_vat, vat_rate, vat_amount, source, is_budget)
+      SELECT p_festival_id, v_edition_id, category, description, amount_ex_vat, vat_rate, vat_amount, source, true
+      FROM income
+      WHERE edition_id = v_previous.id AND is_budget;
+
+      INSERT INTO expenses (festival_id, edition_id, category, description, amount_ex_vat, vat_rate, vat_amount, supplier, is_budget)
+      SELECT p_festival_id, v_edition_id, category, description, amount_ex_vat, vat_rate, vat_amount, supplier, true
+      FROM expenses
+      WHERE edition_id = v_previous.id AND is_budget;
+    END IF;
+
+    -- The ticket catalogue usually repeats; sale windows move with the year
+    INSERT INTO ticket_types (
+      festival_id, edition_id, name, quota, price_inc_vat, vat_rate,
+      sale_start, sale_end, external_titles, warn_at, sort_order
+    )
+    SELECT
+      p_festival_id, v_edition_id, name, quota, price_inc_vat, vat_rate,
+      sale_start + make_interval(years => p_year - v_previous.year),
+      sale_end + make_interval(years => p_year - v_previous.year),
+      external_titles, warn_at, sort_order
+    FROM ticket_types
+    WHERE edition_id = v_previous.id;
+  END IF;
+
+  UPDATE festivals SET current_edition_id = v_edition_id WHERE id = p_festival_id;
+
+  RETURN v_edition_id;
+END;
+$$;
@@ -0,0 +1,75 @@
+-- ============================================================
+-- Festival time zone
+-- Dates of sales (daily totals, "today", report ranges, CSV dates and
+-- the sales history) are the festival's local dates, not UTC and not
+-- the browser's. Any IANA zone name PostgreSQL knows is accepted.
+-- ============================================================
+
+ALTER TABLE festivals ADD COLUMN timezone text NOT NULL DEFAULT 'Europe/Oslo';
+
+CREATE OR REPLACE FUNCTION public.check_festival_timezone()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER festivals_check_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON festivals
+  FOR EACH ROW EXECUTE FUNCTION public.check_festival_timezone();
+
+-- The history archive counts days before start in the festival's zone
+CREATE OR REPLACE FUNCTION public.archive_sales_history(
+  p_festival_id uuid,
+  p_edition_year integer
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_edition festival_editions%ROWTYPE;
+  v_timezone text;
+  v_days integer;
+BEGIN
+  SELECT * INTO v_edition
+  FROM festival_editions
+  WHERE festival_id = p_festival_id AND year = p_edition_year;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No edition for %', p_edition_year;
+  END IF;
+  IF v_edition.start_date IS NULL THEN
+    RAISE EXCEPTION 'Edition % has no start date', p_edition_year;
+  END IF;
+  SELECT timezone INTO v_timezone FROM festivals WHERE id = p_festival_id;
+
+  DELETE FROM sales_history
+  WHERE festival_id = p_festival_id AND edition_year = p_edition_year;
+
+  INSERT INTO sales_history (festival_id, edition_year, days_before, ticket_type, tickets, revenue)
+  SELECT
+    p_festival_id,
+    p_edition_year,
+    v_edition.start_date - (ts.sold_at AT TIME ZONE v_timezone)::date,
+    ts.ticket_type,
+    sum(ts.quantity),
+    sum(coalesce(ts.price_inc_vat, 0) * ts.quantity)
+  FROM ticket_sales ts
+  WHERE ts.edition_id = v_edition.id
+    AND ts.voided_at IS NULL
+    AND ts.sold_at IS NOT NULL
+    AND (ts.category = 'ticket' OR ts.category IS NULL)
+  GROUP BY 3, 4;
+
+  SELECT count(DISTINCT days_before) INTO v_days
+  FROM sales_history
+  WHERE festival_id = p_festival_id AND edition_year = p_edition_year;
+  RETURN v_days;
+END;
+$$;
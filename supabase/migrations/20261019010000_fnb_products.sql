@@ -0,0 +1,34 @@
+-- ============================================================
+-- F&B products and margins
+-- A festival-wide catalogue of bar products with their cost price per
+-- unit (ex. VAT). F&B sale lines are matched to a product by its name
+-- or one of the provider titles in external_titles, so the sales page
+-- can show cost of goods and gross margin. POS lines also record the
+-- sales point (bar, till) they were rung up at.
+-- ============================================================
+
+ALTER TABLE ticket_sales ADD COLUMN sales_point text;
+
+CREATE TABLE fnb_products (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  cost_price numeric(10,2) CHECK (cost_price >= 0),
+  external_titles text[] NOT NULL DEFAULT '{}',
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (festival_id, name)
+);
+
+ALTER TABLE fnb_products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Festival members can read fnb_products"
+  ON fnb_products FOR SELECT
+  USING (festival_id = public.current_user_festival_id());
+
+CREATE POLICY "Admins can manage fnb_products"
+  ON fnb_products FOR ALL
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'admin'
+  );
@@ -0,0 +1,80 @@
+-- ============================================================
+-- Sales outlets
+-- Every bar, the merch tent and the door sale run on TicketCo POS, so
+-- sale_channel alone cannot tell them apart. Admins name their outlets
+-- and list the POS sales points and devices that belong to each; sync,
+-- webhook and manual import set ticket_sales.outlet_id from them, and
+-- apply_sale_outlets() re-assigns stored sales after the list changes.
+-- ============================================================
+
+CREATE TABLE outlets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- POS sales point or device names counted as this outlet, besides the name
+  sales_points text[] NOT NULL DEFAULT '{}',
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (festival_id, name)
+);
+
+ALTER TABLE outlets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Festival members can read outlets"
+  ON outlets FOR SELECT
+  USING (festival_id = public.current_user_festival_id());
+
+CREATE POLICY "Admins can manage outlets"
+  ON outlets FOR ALL
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'admin'
+  );
+
+-- The POS device, kept next to the sales point so either can identify the outlet
+ALTER TABLE ticket_sales ADD COLUMN pos_device text;
+ALTER TABLE ticket_sales
+  ADD COLUMN outlet_id uuid REFERENCES outlets(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_ticket_sales_outlet ON ticket_sales(festival_id, outlet_id);
+
+-- Re-assigns all stored sales of a festival to outlets. The sales point
+-- is tried before the device; names compare trimmed and case-insensitive,
+-- and the first outlet in sort order wins. Mirrors applyOutlets() in
+-- supabase/functions/_shared/outlets.ts. Runs with the caller's rights.
+-- Returns the number of rows whose outlet changed.
+CREATE OR REPLACE FUNCTION public.apply_sale_outlets(p_festival_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  WITH assigned AS (
+    SELECT
+      ts.id,
+      (
+        SELECT o.id
+        FROM outlets o
+        CROSS JOIN LATERAL unnest(array_prepend(o.name, o.sales_points)) AS n(name)
+        CROSS JOIN LATERAL (VALUES (1, ts.sales_point), (2, ts.pos_device)) AS s(rank, subject)
+        WHERE o.festival_id = ts.festival_id
+          AND s.subject IS NOT NULL
+          AND lower(trim(n.name)) = lower(trim(s.subject))
+        ORDER BY s.rank, o.sort_order, o.name
+        LIMIT 1
+      ) AS outlet_id
+    FROM ticket_sales ts
+    WHERE ts.festival_id = p_festival_id
+  )
+  UPDATE ticket_sales ts
+  SET outlet_id = a.outlet_id
+  FROM assigned a
+  WHERE ts.id = a.id
+    AND ts.outlet_id IS DISTINCT FROM a.outlet_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
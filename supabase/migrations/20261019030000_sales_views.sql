@@ -0,0 +1,47 @@
+-- ============================================================
+-- Saved sales views
+-- Named filter sets for the sales page ("Weekend passes, web only"),
+-- shared by everyone in the festival. filters holds the page's filter
+-- state as jsonb; keys the app no longer knows are ignored on load.
+-- ============================================================
+
+CREATE TABLE sales_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  filters jsonb NOT NULL DEFAULT '{}',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (festival_id, name)
+);
+
+ALTER TABLE sales_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Non-sponsor members can read sales_views"
+  ON sales_views FOR SELECT
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() IN ('admin', 'board', 'crew', 'accountant')
+  );
+
+CREATE POLICY "Non-sponsor members can create sales_views"
+  ON sales_views FOR INSERT
+  WITH CHECK (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() IN ('admin', 'board', 'crew', 'accountant')
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Members can delete own sales_views"
+  ON sales_views FOR DELETE
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Admins can manage sales_views"
+  ON sales_views FOR ALL
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'admin'
+  );
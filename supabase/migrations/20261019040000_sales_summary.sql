@@ -0,0 +1,52 @@
+-- ============================================================
+-- Sales summary
+-- Dashboard, Sales and Reports used to load every ticket_sales row of
+-- the edition and aggregate in the browser. sales_summary() rolls the
+-- counted lines up per quarter hour and per every dimension the charts,
+-- filters and VAT reports group by, so the client gets a few thousand
+-- buckets instead of every line. Quarter hours keep local dates and
+-- hours exact in any festival time zone.
+-- ============================================================
+
+-- Counted (not voided) sales of an edition. Amounts are totals over the
+-- bucket; an amount is null when it is null on every line. Runs with the
+-- caller's rights, so the ticket_sales read policies apply.
+CREATE OR REPLACE FUNCTION public.sales_summary(p_festival_id uuid, p_edition_id uuid)
+RETURNS TABLE (
+  sold_at timestamptz,
+  event_id uuid,
+  ticket_type text,
+  category text,
+  sale_channel text,
+  outlet_id uuid,
+  vat_rate numeric,
+  is_reversal boolean,
+  quantity bigint,
+  total_ex_vat numeric,
+  total_vat numeric,
+  total_inc_vat numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    date_bin('15 minutes', ts.sold_at, timestamptz '1970-01-01 00:00+00') AS sold_at,
+    ts.event_id,
+    ts.ticket_type,
+    ts.category,
+    ts.sale_channel,
+    ts.outlet_id,
+    ts.vat_rate,
+    ts.is_reversal,
+    sum(ts.quantity) AS quantity,
+    sum(ts.price_ex_vat * ts.quantity) AS total_ex_vat,
+    sum(ts.vat_amount * ts.quantity) AS total_vat,
+    sum(ts.price_inc_vat * ts.quantity) AS total_inc_vat
+  FROM ticket_sales ts
+  WHERE ts.festival_id = p_festival_id
+    AND ts.edition_id = p_edition_id
+    AND ts.voided_at IS NULL
+  GROUP BY 1, 2, 3, 4, 5, 6, 7, 8
+  ORDER BY 1, 3, 2, 4, 5, 6, 7, 8
+$$;
@@ -0,0 +1,82 @@
+-- ============================================================
+-- Economy change history
+-- Income and expense entries can now be edited in place. Every insert,
+-- update and delete on income and expenses is written to
+-- economy_audit_log by a trigger, with the row before and after, who
+-- made the change and when, so the treasurer can follow how a number
+-- came to be. The log is written by the trigger only; nobody can edit it.
+-- ============================================================
+
+CREATE TABLE economy_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  table_name text NOT NULL CHECK (table_name IN ('income', 'expenses')),
+  -- No foreign key: the history outlives a deleted entry
+  record_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  -- The whole row as jsonb; old_values is null on insert, new_values on delete
+  old_values jsonb,
+  new_values jsonb,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Kept with the entry so it still reads right after the user is removed
+  changed_by_name text,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_economy_audit_log_record ON economy_audit_log(record_id, changed_at);
+
+ALTER TABLE economy_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Non-sponsor members can read economy_audit_log"
+  ON economy_audit_log FOR SELECT
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() IN ('admin', 'board', 'crew', 'accountant')
+  );
+
+-- Runs as owner so it can write the log, which has no write policies.
+-- Updates that change nothing are not logged, nor are the deletes of a
+-- festival being deleted.
+CREATE OR REPLACE FUNCTION public.log_economy_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+BEGIN
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM festivals WHERE id = OLD.festival_id) THEN
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO economy_audit_log (
+    festival_id, table_name, record_id, action,
+    old_values, new_values, changed_by, changed_by_name
+  )
+  VALUES (
+    (coalesce(v_new, v_old)->>'festival_id')::uuid,
+    TG_TABLE_NAME,
+    (coalesce(v_new, v_old)->>'id')::uuid,
+    lower(TG_OP),
+    v_old,
+    v_new,
+    auth.uid(),
+    (SELECT coalesce(full_name, email) FROM user_profiles WHERE id = auth.uid())
+  );
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER income_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON income
+  FOR EACH ROW EXECUTE FUNCTION public.log_economy_change();
+
+CREATE TRIGGER expenses_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION public.log_economy_change();
@@ -0,0 +1,70 @@
+-- ============================================================
+-- Vouchers on income and expenses
+-- Receipts and invoices (PDF, JPG, PNG) are uploaded to the private
+-- vouchers bucket under <festival_id>/<table>/<entry_id>/ and listed in
+-- economy_attachments. Files are read through signed URLs, so only
+-- festival members who may see the economy can open them.
+-- ============================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('vouchers', 'vouchers', false, 10485760, ARRAY['application/pdf', 'image/jpeg', 'image/png'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE economy_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  income_id uuid REFERENCES income(id) ON DELETE CASCADE,
+  expense_id uuid REFERENCES expenses(id) ON DELETE CASCADE,
+  -- Object name in the vouchers bucket
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  content_type text NOT NULL,
+  size_bytes integer,
+  uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(income_id, expense_id) = 1)
+);
+
+CREATE INDEX idx_economy_attachments_income ON economy_attachments(income_id);
+CREATE INDEX idx_economy_attachments_expense ON economy_attachments(expense_id);
+
+ALTER TABLE economy_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Non-sponsor members can read economy_attachments"
+  ON economy_attachments FOR SELECT
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() IN ('admin', 'board', 'crew', 'accountant')
+  );
+
+CREATE POLICY "Admins can manage economy_attachments"
+  ON economy_attachments FOR ALL
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'admin'
+  );
+
+-- The first folder of every object is the festival id
+CREATE POLICY "Non-sponsor members can read vouchers"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'vouchers'
+    AND (storage.foldername(name))[1] = public.current_user_festival_id()::text
+    AND public.current_user_role() IN ('admin', 'board', 'crew', 'accountant')
+  );
+
+CREATE POLICY "Admins can upload vouchers"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'vouchers'
+    AND (storage.foldername(name))[1] = public.current_user_festival_id()::text
+    AND public.current_user_role() = 'admin'
+  );
+
+CREATE POLICY "Admins can delete vouchers"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'vouchers'
+    AND (storage.foldername(name))[1] = public.current_user_festival_id()::text
+    AND public.current_user_role() = 'admin'
+  );
@@ -0,0 +1,279 @@
+-- ============================================================
+-- Expense approval
+-- Actual expenses go through draft → submitted → approved/rejected →
+-- paid, and only approved and paid ones count as cost. Crew members
+-- submit their own expenses with receipts; board members and admins
+-- decide. Above the festival's approval threshold an expense must be
+-- approved by someone other than whoever submitted it. Submitters get
+-- a notification when their expense is approved, rejected or paid.
+-- ============================================================
+
+-- Amount ex. VAT above which an expense needs someone else's approval;
+-- null lets admins enter any expense as approved
+ALTER TABLE festivals
+  ADD COLUMN expense_approval_threshold numeric CHECK (expense_approval_threshold >= 0);
+
+-- Existing entries were entered as actual cost, so they start approved
+ALTER TABLE expenses
+  ADD COLUMN status text NOT NULL DEFAULT 'approved'
+    CHECK (status IN ('draft', 'submitted', 'approved', 'rejected', 'paid')),
+  ADD COLUMN submitted_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN submitted_at timestamptz,
+  ADD COLUMN decided_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN decided_at timestamptz,
+  ADD COLUMN decision_comment text,
+  ADD COLUMN paid_at timestamptz;
+
+CREATE INDEX idx_expenses_status ON expenses(festival_id, status) WHERE status IN ('draft', 'submitted');
+
+-- Stamps who moved an expense along and when, and enforces what each
+-- role may do. Without a user (service role, migrations) only the
+-- stamps apply.
+CREATE OR REPLACE FUNCTION public.check_expense_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_role text := public.current_user_role();
+  v_threshold numeric;
+  -- The columns a review may change
+  v_review text[] := ARRAY['status', 'decided_by', 'decided_at', 'decision_comment'];
+BEGIN
+  -- Budget lines are plans, not costs, and skip the workflow
+  IF NEW.is_budget THEN
+    NEW.status := 'approved';
+    RETURN NEW;
+  END IF;
+
+  SELECT expense_approval_threshold INTO v_threshold FROM festivals WHERE id = NEW.festival_id;
+
+  -- Raising an approved expense above the threshold needs a new decision
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status = 'approved'
+    AND v_threshold IS NOT NULL
+    AND coalesce(NEW.amount_ex_vat, 0) > v_threshold
+    AND coalesce(NEW.amount_ex_vat, 0) > coalesce(OLD.amount_ex_vat, 0)
+  THEN
+    NEW.status := 'submitted';
+  END IF;
+
+  IF v_role = 'crew' AND NEW.status NOT IN ('draft', 'submitted') THEN
+    RAISE EXCEPTION 'Crew members can only save and submit expenses';
+  END IF;
+
+  IF v_role = 'board' AND (
+    TG_OP = 'INSERT'
+    OR OLD.status <> 'submitted'
+    OR NEW.status NOT IN ('approved', 'rejected')
+    OR to_jsonb(NEW) - v_review <> to_jsonb(OLD) - v_review
+  ) THEN
+    RAISE EXCEPTION 'Board members can only approve or reject submitted expenses';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status = 'paid' AND OLD.status NOT IN ('approved', 'paid') THEN
+    RAISE EXCEPTION 'Only approved expenses can be paid';
+  END IF;
+
+  -- A budget line turned into cost is treated as a new expense
+  IF TG_OP = 'INSERT' OR OLD.is_budget OR NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('approved', 'paid')
+      AND (TG_OP = 'INSERT' OR OLD.is_budget OR OLD.status NOT IN ('approved', 'paid'))
+      AND v_role IS NOT NULL
+      AND v_threshold IS NOT NULL
+      AND coalesce(NEW.amount_ex_vat, 0) > v_threshold
+      AND NEW.submitted_by IS NOT DISTINCT FROM auth.uid()
+    THEN
+      RAISE EXCEPTION 'Expenses above % need approval by someone other than the submitter', v_threshold;
+    END IF;
+
+    CASE NEW.status
+      WHEN 'submitted' THEN
+        NEW.submitted_by := coalesce(NEW.submitted_by, auth.uid());
+        NEW.submitted_at := now();
+        NEW.decided_by := NULL;
+        NEW.decided_at := NULL;
+        NEW.decision_comment := NULL;
+      WHEN 'approved', 'rejected' THEN
+        NEW.decided_by := auth.uid();
+        NEW.decided_at := now();
+      WHEN 'paid' THEN
+        NEW.paid_at := now();
+      ELSE
+        NULL;
+    END CASE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER expenses_check_status
+  BEFORE INSERT OR UPDATE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION public.check_expense_status();
+
+-- Admins keep "Admins can manage expenses"; crew and board get their part
+CREATE POLICY "Crew can submit expenses"
+  ON expenses FOR INSERT
+  WITH CHECK (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'crew'
+    AND submitted_by = auth.uid()
+    AND NOT is_budget
+  );
+
+CREATE POLICY "Crew can edit their open expenses"
+  ON expenses FOR UPDATE
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'crew'
+    AND submitted_by = auth.uid()
+    AND status IN ('draft', 'submitted', 'rejected')
+  )
+  WITH CHECK (
+    festival_id = public.current_user_festival_id()
+    AND submitted_by = auth.uid()
+    AND NOT is_budget
+  );
+
+CREATE POLICY "Crew can delete their open expenses"
+  ON expenses FOR DELETE
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'crew'
+    AND submitted_by = auth.uid()
+    AND status IN ('draft', 'submitted', 'rejected')
+  );
+
+CREATE POLICY "Board can review submitted expenses"
+  ON expenses FOR UPDATE
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'board'
+    AND status = 'submitted'
+  )
+  WITH CHECK (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'board'
+  );
+
+-- Receipts on a crew member's own open expenses
+CREATE POLICY "Crew can attach vouchers to their open expenses"
+  ON economy_attachments FOR INSERT
+  WITH CHECK (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'crew'
+    AND uploaded_by = auth.uid()
+    AND expense_id IN (
+      SELECT id FROM expenses
+      WHERE submitted_by = auth.uid() AND status IN ('draft', 'submitted', 'rejected')
+    )
+  );
+
+CREATE POLICY "Crew can remove vouchers from their open expenses"
+  ON economy_attachments FOR DELETE
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'crew'
+    AND uploaded_by = auth.uid()
+    AND expense_id IN (
+      SELECT id FROM expenses
+      WHERE submitted_by = auth.uid() AND status IN ('draft', 'submitted', 'rejected')
+    )
+  );
+
+CREATE POLICY "Crew can upload expense vouchers"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'vouchers'
+    AND (storage.foldername(name))[1] = public.current_user_festival_id()::text
+    AND (storage.foldername(name))[2] = 'expenses'
+    AND public.current_user_role() = 'crew'
+  );
+
+CREATE POLICY "Crew can delete their own vouchers"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'vouchers'
+    AND owner = auth.uid()
+    AND public.current_user_role() = 'crew'
+  );
+
+-- ------------------------------------------------------------
+-- Notifications
+-- ------------------------------------------------------------
+
+CREATE TABLE notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('expense_approved', 'expense_rejected', 'expense_paid')),
+  expense_id uuid REFERENCES expenses(id) ON DELETE CASCADE,
+  -- The expense's description or category as it read when the notification was sent
+  subject text,
+  comment text,
+  actor_name text,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user ON notifications(user_id, created_at DESC);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their notifications"
+  ON notifications FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+  ON notifications FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Runs as owner so it can write notifications, which have no insert policy.
+-- Nobody is told about their own decision.
+CREATE OR REPLACE FUNCTION public.notify_expense_decision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.submitted_by IS NULL OR NEW.submitted_by IS NOT DISTINCT FROM auth.uid() THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (festival_id, user_id, kind, expense_id, subject, comment, actor_name)
+  VALUES (
+    NEW.festival_id,
+    NEW.submitted_by,
+    'expense_' || NEW.status,
+    NEW.id,
+    coalesce(NEW.description, NEW.category),
+    CASE WHEN NEW.status IN ('approved', 'rejected') THEN NEW.decision_comment END,
+    (SELECT coalesce(full_name, email) FROM user_profiles WHERE id = auth.uid())
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER expenses_notify_decision
+  AFTER UPDATE OF status ON expenses
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('approved', 'rejected', 'paid'))
+  EXECUTE FUNCTION public.notify_expense_decision();
+
+-- The bell updates as soon as a decision is made
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'notifications'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
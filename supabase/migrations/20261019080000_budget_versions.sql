@@ -0,0 +1,331 @@
+-- ============================================================
+-- Budget versions and scenarios
+-- Budget lines (income and expenses with is_budget) now belong to a
+-- named budget version of the edition. Versions are revisions of the
+-- budget and scenarios are what-ifs ("sell-out", "rainy weekend"); new
+-- ones start as a copy of an existing one. The primary version is the
+-- budget the dashboard and the economy page compare against. A locked
+-- version is approved and can no longer change. Lines also get an
+-- optional subcategory under their category.
+-- ============================================================
+
+CREATE TABLE budget_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  edition_id uuid NOT NULL REFERENCES festival_editions(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  kind text NOT NULL DEFAULT 'version' CHECK (kind IN ('version', 'scenario')),
+  is_primary boolean NOT NULL DEFAULT false,
+  -- The version this one was copied from
+  based_on uuid REFERENCES budget_versions(id) ON DELETE SET NULL,
+  locked_at timestamptz,
+  locked_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (edition_id, name),
+  CHECK (NOT (is_primary AND kind = 'scenario'))
+);
+
+CREATE UNIQUE INDEX idx_budget_versions_primary ON budget_versions(edition_id) WHERE is_primary;
+
+ALTER TABLE budget_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Non-sponsor members can read budget_versions"
+  ON budget_versions FOR SELECT
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() IN ('admin', 'board', 'crew', 'accountant')
+  );
+
+CREATE POLICY "Admins can manage budget_versions"
+  ON budget_versions FOR ALL
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'admin'
+  );
+
+ALTER TABLE income
+  ADD COLUMN budget_version_id uuid REFERENCES budget_versions(id) ON DELETE CASCADE,
+  ADD COLUMN subcategory text;
+ALTER TABLE expenses
+  ADD COLUMN budget_version_id uuid REFERENCES budget_versions(id) ON DELETE CASCADE,
+  ADD COLUMN subcategory text;
+
+-- The budget lines so far become each edition's primary version
+INSERT INTO budget_versions (festival_id, edition_id, name, is_primary)
+SELECT DISTINCT festival_id, edition_id, 'Budsjett', true
+FROM (
+  SELECT festival_id, edition_id FROM income WHERE is_budget
+  UNION
+  SELECT festival_id, edition_id FROM expenses WHERE is_budget
+) lines;
+
+UPDATE income i SET budget_version_id = v.id
+FROM budget_versions v
+WHERE i.is_budget AND v.edition_id = i.edition_id;
+
+UPDATE expenses e SET budget_version_id = v.id
+FROM budget_versions v
+WHERE e.is_budget AND v.edition_id = e.edition_id;
+
+ALTER TABLE income ADD CONSTRAINT income_budget_version
+  CHECK (is_budget = (budget_version_id IS NOT NULL));
+ALTER TABLE expenses ADD CONSTRAINT expenses_budget_version
+  CHECK (is_budget = (budget_version_id IS NOT NULL));
+
+CREATE INDEX idx_income_budget_version ON income(budget_version_id);
+CREATE INDEX idx_expenses_budget_version ON expenses(budget_version_id);
+
+-- Budget lines without a version go to the edition's primary one, which
+-- is created when the edition has none; actual entries never have one.
+-- Lines of a locked version cannot be added or changed. Runs after
+-- set_default_edition (triggers fire in name order).
+CREATE OR REPLACE FUNCTION public.set_budget_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND EXISTS (
+    SELECT 1 FROM budget_versions WHERE id = OLD.budget_version_id AND locked_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Budget version is locked';
+  END IF;
+
+  IF NOT NEW.is_budget THEN
+    NEW.budget_version_id := NULL;
+  ELSIF NEW.budget_version_id IS NULL THEN
+    SELECT id INTO NEW.budget_version_id
+    FROM budget_versions
+    WHERE edition_id = NEW.edition_id AND is_primary;
+
+    IF NEW.budget_version_id IS NULL THEN
+      INSERT INTO budget_versions (festival_id, edition_id, name, is_primary)
+      VALUES (NEW.festival_id, NEW.edition_id, 'Budsjett', true)
+      RETURNING id INTO NEW.budget_version_id;
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM budget_versions WHERE id = NEW.budget_version_id AND locked_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Budget version is locked';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER income_set_budget_version
+  BEFORE INSERT OR UPDATE ON income
+  FOR EACH ROW EXECUTE FUNCTION public.set_budget_version();
+CREATE TRIGGER expenses_set_budget_version
+  BEFORE INSERT OR UPDATE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION public.set_budget_version();
+
+-- Nor removed, except when the whole edition is deleted
+CREATE OR REPLACE FUNCTION public.check_budget_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM budget_versions v
+    JOIN festival_editions e ON e.id = v.edition_id
+    WHERE v.id = OLD.budget_version_id AND v.locked_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Budget version is locked';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER income_check_budget_lock
+  BEFORE DELETE ON income
+  FOR EACH ROW EXECUTE FUNCTION public.check_budget_lock();
+CREATE TRIGGER expenses_check_budget_lock
+  BEFORE DELETE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION public.check_budget_lock();
+
+-- Locking is for good: a locked version keeps its name and lines and
+-- cannot be unlocked or deleted, but can still be made primary or not
+CREATE OR REPLACE FUNCTION public.check_budget_version_lock()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.locked_at IS NOT NULL AND EXISTS (SELECT 1 FROM festival_editions WHERE id = OLD.edition_id) THEN
+      RAISE EXCEPTION 'Budget version is locked';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.locked_at IS NOT NULL AND (
+    NEW.locked_at IS DISTINCT FROM OLD.locked_at
+    OR NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.kind IS DISTINCT FROM OLD.kind
+  ) THEN
+    RAISE EXCEPTION 'Budget version is locked';
+  END IF;
+
+  IF OLD.locked_at IS NULL AND NEW.locked_at IS NOT NULL THEN
+    NEW.locked_at := now();
+    NEW.locked_by := auth.uid();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER budget_versions_check_lock
+  BEFORE UPDATE OR DELETE ON budget_versions
+  FOR EACH ROW EXECUTE FUNCTION public.check_budget_version_lock();
+
+-- New version or scenario with the same lines as an existing one
+CREATE OR REPLACE FUNCTION public.copy_budget_version(
+  p_version_id uuid,
+  p_name text,
+  p_kind text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_source budget_versions%ROWTYPE;
+  v_id uuid;
+BEGIN
+  SELECT * INTO v_source FROM budget_versions WHERE id = p_version_id;
+  IF v_source.id IS NULL THEN
+    RAISE EXCEPTION 'Unknown budget version: %', p_version_id;
+  END IF;
+
+  INSERT INTO budget_versions (festival_id, edition_id, name, kind, based_on)
+  VALUES (v_source.festival_id, v_source.edition_id, p_name, p_kind, v_source.id)
+  RETURNING id INTO v_id;
+
+  INSERT INTO income (
+    festival_id, edition_id, budget_version_id, category, subcategory,
+    description, amount_ex_vat, vat_rate, vat_amount, source, is_budget, date
+  )
+  SELECT
+    festival_id, edition_id, v_id, category, subcategory,
+    description, amount_ex_vat, vat_rate, vat_amount, source, true, date
+  FROM income
+  WHERE budget_version_id = p_version_id;
+
+  INSERT INTO expenses (
+    festival_id, edition_id, budget_version_id, category, subcategory,
+    description, amount_ex_vat, vat_rate, vat_amount, supplier, is_budget, date
+  )
+  SELECT
+    festival_id, edition_id, v_id, category, subcategory,
+    description, amount_ex_vat, vat_rate, vat_amount, supplier, true, date
+  FROM expenses
+  WHERE budget_version_id = p_version_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Moves the primary mark; scenarios cannot be primary
+CREATE OR REPLACE FUNCTION public.set_primary_budget_version(p_version_id uuid)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE budget_versions SET is_primary = false
+  WHERE is_primary AND id <> p_version_id
+    AND edition_id = (SELECT edition_id FROM budget_versions WHERE id = p_version_id);
+  UPDATE budget_versions SET is_primary = true WHERE id = p_version_id;
+$$;
+
+-- Rollover copies the primary budget only, into the new edition's
+-- primary version
+CREATE OR REPLACE FUNCTION public.rollover_festival_edition(
+  p_festival_id uuid,
+  p_year integer,
+  p_name text,
+  p_start_date date,
+  p_end_date date,
+  p_capacity integer,
+  p_copy_sponsors boolean,
+  p_copy_budget boolean
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_previous festival_editions%ROWTYPE;
+  v_edition_id uuid;
+  v_sponsor record;
+  v_sponsor_id uuid;
+BEGIN
+  SELECT e.* INTO v_previous
+  FROM festivals f
+  JOIN festival_editions e ON e.id = f.current_edition_id
+  WHERE f.id = p_festival_id;
+
+  INSERT INTO festival_editions (festival_id, year, name, start_date, end_date, capacity)
+  VALUES (p_festival_id, p_year, p_name, p_start_date, p_end_date, p_capacity)
+  RETURNING id INTO v_edition_id;
+
+  IF v_previous.id IS NOT NULL THEN
+    IF v_previous.start_date IS NOT NULL THEN
+      PERFORM public.archive_sales_history(p_festival_id, v_previous.year);
+    END IF;
+
+    IF p_copy_sponsors THEN
+      FOR v_sponsor IN SELECT * FROM sponsors WHERE edition_id = v_previous.id LOOP
+        INSERT INTO sponsors (
+          festival_id, edition_id, name, level, contact_name, contact_email,
+          contact_phone, invoice_address, logo_url, agreement_amount, status, notes
+        )
+        VALUES (
+          p_festival_id, v_edition_id, v_sponsor.name, v_sponsor.level, v_sponsor.contact_name,
+          v_sponsor.contact_email, v_sponsor.contact_phone, v_sponsor.invoice_address,
+          v_sponsor.logo_url, v_sponsor.agreement_amount, 'contacted', v_sponsor.notes
+        )
+        RETURNING id INTO v_sponsor_id;
+
+        INSERT INTO sponsor_deliverables (sponsor_id, festival_id, description, delivered)
+        SELECT v_sponsor_id, p_festival_id, description, false
+        FROM sponsor_deliverables
+        WHERE sponsor_id = v_sponsor.id;
+      END LOOP;
+    END IF;
+
+    IF p_copy_budget THEN
+      INSERT INTO income (festival_id, edition_id, category, subcategory, description, amount_ex_vat, vat_rate, vat_amount, source, is_budget)
+      SELECT p_festival_id, v_edition_id, i.category, i.subcategory, i.description, i.amount_ex_vat, i.vat_rate, i.vat_amount, i.source, true
+      FROM income i
+      JOIN budget_versions v ON v.id = i.budget_version_id
+      WHERE v.edition_id = v_previous.id AND v.is_primary;
+
+      INSERT INTO expenses (festival_id, edition_id, category, subcategory, description, amount_ex_vat, vat_rate, vat_amount, supplier, is_budget)
+      SELECT p_festival_id, v_edition_id, e.category, e.subcategory, e.description, e.amount_ex_vat, e.vat_rate, e.vat_amount, e.supplier, true
+      FROM expenses e
+      JOIN budget_versions v ON v.id = e.budget_version_id
+      WHERE v.edition_id = v_previous.id AND v.is_primary;
+    END IF;
+
+    -- The ticket catalogue usually repeats; sale windows move with the year
+    INSERT INTO ticket_types (
+      festival_id, edition_id, name, quota, price_inc_vat, vat_rate,
+      sale_start, sale_end, external_titles, warn_at, sort_order
+    )
+    SELECT
+      p_festival_id, v_edition_id, name, quota, price_inc_vat, vat_rate,
+      sale_start + make_interval(years => p_year - v_previous.year),
+      sale_end + make_interval(years => p_year - v_previous.year),
+      external_titles, warn_at, sort_order
+    FROM ticket_types
+    WHERE edition_id = v_previous.id;
+  END IF;
+
+  UPDATE festivals SET current_edition_id = v_edition_id WHERE id = p_festival_id;
+
+  RETURN v_edition_id;
+END;
+$$;
@@ -0,0 +1,124 @@
+-- ============================================================
+-- Chart of accounts
+-- Income and expense categories were fixed lists in the app. Each
+-- festival now keeps its own categories, mapped to an NS 4102 account
+-- number and a SAF-T standard tax code so the accounting exports can be
+-- imported without re-keying. income.category and expenses.category
+-- hold the category slug, which is fixed once the category exists;
+-- admins rename, re-map or archive categories instead.
+-- ============================================================
+
+CREATE TABLE account_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  festival_id uuid NOT NULL REFERENCES festivals(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('income', 'expense')),
+  slug text NOT NULL,
+  name text NOT NULL,
+  -- NS 4102 account, with room for sub-accounts
+  account_number text CHECK (account_number ~ '^[0-9]{4,6}$'),
+  -- SAF-T standard tax code; NULL takes the code from each entry's VAT rate
+  vat_code text CHECK (vat_code ~ '^[0-9]{1,2}$'),
+  sort_order integer NOT NULL DEFAULT 0,
+  -- Archived categories keep their entries but are not offered for new ones
+  archived boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (festival_id, type, slug)
+);
+
+ALTER TABLE account_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Festival members can read account categories"
+  ON account_categories FOR SELECT
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() IN ('admin', 'board', 'crew', 'accountant')
+  );
+
+CREATE POLICY "Admins can manage account categories"
+  ON account_categories FOR ALL
+  USING (
+    festival_id = public.current_user_festival_id()
+    AND public.current_user_role() = 'admin'
+  );
+
+-- The categories the app used to ship with, on their usual NS 4102 accounts
+CREATE OR REPLACE FUNCTION public.seed_account_categories(p_festival_id uuid)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  INSERT INTO account_categories (festival_id, type, slug, name, account_number, sort_order)
+  VALUES
+    (p_festival_id, 'income', 'billetter', 'Billetter', '3000', 10),
+    (p_festival_id, 'income', 'sponsor', 'Sponsor', '3000', 20),
+    (p_festival_id, 'income', 'tilskudd', 'Tilskudd', '3400', 30),
+    (p_festival_id, 'income', 'bar_mat', 'Bar/mat', '3000', 40),
+    (p_festival_id, 'income', 'merch', 'Merch', '3000', 50),
+    (p_festival_id, 'income', 'annet', 'Annet', '3900', 60),
+    (p_festival_id, 'expense', 'artist', 'Artist/booking', '6790', 10),
+    (p_festival_id, 'expense', 'produksjon', 'Produksjon/teknikk', '6550', 20),
+    (p_festival_id, 'expense', 'markedsforing', 'Markedsføring', '7320', 30),
+    (p_festival_id, 'expense', 'leie', 'Leie/infrastruktur', '6300', 40),
+    (p_festival_id, 'expense', 'forsikring', 'Forsikring', '7500', 50),
+    (p_festival_id, 'expense', 'admin', 'Administrasjon', '6800', 60),
+    (p_festival_id, 'expense', 'annet', 'Annet', '7790', 70)
+  ON CONFLICT (festival_id, type, slug) DO NOTHING;
+$$;
+
+SELECT public.seed_account_categories(id) FROM festivals;
+
+-- Categories typed in by hand before, so every entry has a category
+INSERT INTO account_categories (festival_id, type, slug, name, sort_order)
+SELECT DISTINCT festival_id, 'income', category, category, 100 FROM income
+UNION
+SELECT DISTINCT festival_id, 'expense', category, category, 100 FROM expenses
+ON CONFLICT (festival_id, type, slug) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.seed_festival_account_categories()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_account_categories(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER festivals_seed_account_categories
+  AFTER INSERT ON festivals
+  FOR EACH ROW EXECUTE FUNCTION public.seed_festival_account_categories();
+
+-- Entries point at the slug, so it cannot change, and a category in use
+-- cannot be deleted unless its festival is being deleted
+CREATE OR REPLACE FUNCTION public.check_account_category()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.slug <> OLD.slug OR NEW.type <> OLD.type OR NEW.festival_id <> OLD.festival_id THEN
+      RAISE EXCEPTION 'The slug and type of an account category cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM festivals WHERE id = OLD.festival_id) AND (
+    (OLD.type = 'income' AND EXISTS (
+      SELECT 1 FROM income WHERE festival_id = OLD.festival_id AND category = OLD.slug
+    ))
+    OR (OLD.type = 'expense' AND EXISTS (
+      SELECT 1 FROM expenses WHERE festival_id = OLD.festival_id AND category = OLD.slug
+    ))
+  ) THEN
+    RAISE EXCEPTION 'Account category % is in use; archive it instead', OLD.name;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER account_categories_check
+  BEFORE UPDATE OR DELETE ON account_categories
+  FOR EACH ROW EXECUTE FUNCTION public.check_account_category();
@@ -0,0 +1,31 @@
+-- ============================================================
+-- Source ids are unique per festival and provider
+-- The old sync upserted on ticketco_id alone, so the database has a
+-- unique constraint on that column that no migration created. It
+-- followed the rename to external_id and still rejects two providers
+-- or festivals that use the same id. ticket_sales_provider_external_id_key
+-- covers uniqueness now.
+-- ============================================================
+
+DO $$
+DECLARE
+  idx record;
+BEGIN
+  FOR idx IN
+    SELECT i.indexrelid::regclass AS index_name, c.conname
+    FROM pg_index i
+    JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = i.indkey[0]
+    LEFT JOIN pg_constraint c ON c.conindid = i.indexrelid AND c.conrelid = i.indrelid
+    WHERE i.indrelid = 'public.ticket_sales'::regclass
+      AND i.indisunique
+      AND i.indnatts = 1
+      AND a.attname = 'external_id'
+  LOOP
+    IF idx.conname IS NOT NULL THEN
+      EXECUTE format('ALTER TABLE public.ticket_sales DROP CONSTRAINT %I', idx.conname);
+    ELSE
+      EXECUTE format('DROP INDEX %s', idx.index_name);
+    END IF;
+  END LOOP;
+END;
+$$;
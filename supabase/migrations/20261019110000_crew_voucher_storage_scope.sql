@@ -0,0 +1,37 @@
+-- ============================================================
+-- Crew voucher files follow the expense
+-- Crew could upload anywhere under their festival's expenses folder and
+-- delete any voucher file they owned, also after the expense was
+-- approved. Both now require the folder to be one of their own open
+-- expenses, like the economy_attachments rows.
+-- ============================================================
+
+DROP POLICY IF EXISTS "Crew can upload expense vouchers" ON storage.objects;
+DROP POLICY IF EXISTS "Crew can delete their own vouchers" ON storage.objects;
+
+CREATE POLICY "Crew can upload vouchers to their open expenses"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'vouchers'
+    AND (storage.foldername(name))[1] = public.current_user_festival_id()::text
+    AND (storage.foldername(name))[2] = 'expenses'
+    AND (storage.foldername(name))[3] IN (
+      SELECT id::text FROM expenses
+      WHERE submitted_by = auth.uid() AND status IN ('draft', 'submitted', 'rejected')
+    )
+    AND public.current_user_role() = 'crew'
+  );
+
+CREATE POLICY "Crew can delete vouchers from their open expenses"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'vouchers'
+    AND owner = auth.uid()
+    AND (storage.foldername(name))[1] = public.current_user_festival_id()::text
+    AND (storage.foldername(name))[2] = 'expenses'
+    AND (storage.foldername(name))[3] IN (
+      SELECT id::text FROM expenses
+      WHERE submitted_by = auth.uid() AND status IN ('draft', 'submitted', 'rejected')
+    )
+    AND public.current_user_role() = 'crew'
+  );
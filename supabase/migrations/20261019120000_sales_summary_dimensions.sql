@@ -0,0 +1,140 @@
+-- ============================================================
+-- Sales summary per dimension
+-- sales_summary() grouped each quarter hour by every dimension at once,
+-- which hardly shrinks bar sales, and clients paged through it in calls
+-- that could each see different data. It now takes the sales filters and
+-- returns, in one value from one snapshot, the totals the views group by:
+-- per quarter hour, per festival date and ticket type, per channel, per
+-- VAT rate, and per outlet and ticket type. Every group is split by
+-- category and into sales and refunds.
+-- ============================================================
+
+DROP FUNCTION IF EXISTS public.sales_summary(uuid, uuid);
+
+-- p_filters has the shape of the sales page filters, as sales_views
+-- stores them: empty or missing values match everything, dates are the
+-- festival's local dates, and lines without a channel or category count
+-- as web tickets. The outlet groups leave the outlet filter out so
+-- outlets can be compared side by side. snapshot_at lets clients skip
+-- realtime changes the summary already has: it is read from the clock
+-- once the query's snapshot is taken, as now() is the start of the
+-- transaction and would let changes committed since then count twice.
+-- That makes the function volatile. Runs with the caller's rights, so
+-- the ticket_sales read policies apply.
+CREATE OR REPLACE FUNCTION public.sales_summary(
+  p_festival_id uuid,
+  p_edition_id uuid,
+  p_filters jsonb DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      clock_timestamp() AS snapshot_at,
+      f.timezone AS time_zone,
+      NULLIF(p_filters->>'dateFrom', '')::date AS date_from,
+      NULLIF(p_filters->>'dateTo', '')::date AS date_to,
+      NULLIF(p_filters->>'ticketType', '') AS ticket_type,
+      NULLIF(p_filters->>'channel', '') AS channel,
+      NULLIF(p_filters->>'category', '') AS category,
+      NULLIF(p_filters->>'outletId', '') AS outlet_id,
+      NULLIF(p_filters->>'eventId', '') AS event_id
+    FROM festivals f
+    WHERE f.id = p_festival_id
+  ),
+  counted AS (
+    SELECT
+      date_bin('15 minutes', ts.sold_at, timestamptz '1970-01-01 00:00+00') AS quarter_hour,
+      -- Start of the festival date, so dates stay exact in any time zone
+      date_trunc('day', ts.sold_at, p.time_zone) AS sold_day,
+      ts.ticket_type,
+      ts.category,
+      ts.sale_channel,
+      ts.outlet_id,
+      ts.vat_rate,
+      ts.is_reversal,
+      ts.quantity,
+      ts.price_ex_vat * ts.quantity AS total_ex_vat,
+      ts.vat_amount * ts.quantity AS total_vat,
+      ts.price_inc_vat * ts.quantity AS total_inc_vat,
+      -- 'none' is the filter value for sales without an outlet
+      p.outlet_id IS NULL OR ts.outlet_id::text IS NOT DISTINCT FROM NULLIF(p.outlet_id, 'none') AS in_outlet
+    FROM ticket_sales ts, params p
+    WHERE ts.festival_id = p_festival_id
+      AND ts.edition_id = p_edition_id
+      AND ts.voided_at IS NULL
+      AND (p.date_from IS NULL OR (ts.sold_at AT TIME ZONE p.time_zone)::date >= p.date_from)
+      AND (p.date_to IS NULL OR (ts.sold_at AT TIME ZONE p.time_zone)::date <= p.date_to)
+      AND (p.ticket_type IS NULL OR ts.ticket_type = p.ticket_type)
+      AND (p.channel IS NULL OR coalesce(ts.sale_channel, 'web') = p.channel)
+      AND (p.category IS NULL OR coalesce(ts.category, 'ticket') = p.category)
+      AND (p.event_id IS NULL OR ts.event_id::text = p.event_id)
+  )
+  SELECT jsonb_build_object(
+    'snapshot_at', (SELECT snapshot_at FROM params),
+    -- Every ticket type of the edition, for the filter options
+    'ticket_types', (
+      SELECT coalesce(jsonb_agg(DISTINCT ts.ticket_type ORDER BY ts.ticket_type), '[]')
+      FROM ticket_sales ts
+      WHERE ts.festival_id = p_festival_id
+        AND ts.edition_id = p_edition_id
+        AND ts.voided_at IS NULL
+    ),
+    'by_time', (
+      SELECT coalesce(jsonb_agg(g ORDER BY g.sold_at), '[]')
+      FROM (
+        SELECT quarter_hour AS sold_at, category, is_reversal,
+          sum(quantity) AS quantity, sum(total_ex_vat) AS total_ex_vat,
+          sum(total_vat) AS total_vat, sum(total_inc_vat) AS total_inc_vat
+        FROM counted
+        WHERE in_outlet
+        GROUP BY 1, 2, 3
+      ) g
+    ),
+    'by_date_type', (
+      SELECT coalesce(jsonb_agg(g ORDER BY g.sold_at), '[]')
+      FROM (
+        SELECT sold_day AS sold_at, ticket_type, category, is_reversal,
+          sum(quantity) AS quantity, sum(total_ex_vat) AS total_ex_vat,
+          sum(total_vat) AS total_vat, sum(total_inc_vat) AS total_inc_vat
+        FROM counted
+        WHERE in_outlet
+        GROUP BY 1, 2, 3, 4
+      ) g
+    ),
+    'by_channel', (
+      SELECT coalesce(jsonb_agg(g), '[]')
+      FROM (
+        SELECT sale_channel, category, is_reversal,
+          sum(quantity) AS quantity, sum(total_ex_vat) AS total_ex_vat,
+          sum(total_vat) AS total_vat, sum(total_inc_vat) AS total_inc_vat
+        FROM counted
+        WHERE in_outlet
+        GROUP BY 1, 2, 3
+      ) g
+    ),
+    'by_vat', (
+      SELECT coalesce(jsonb_agg(g), '[]')
+      FROM (
+        SELECT vat_rate, category, is_reversal,
+          sum(quantity) AS quantity, sum(total_ex_vat) AS total_ex_vat,
+          sum(total_vat) AS total_vat, sum(total_inc_vat) AS total_inc_vat
+        FROM counted
+        WHERE in_outlet
+        GROUP BY 1, 2, 3
+      ) g
+    ),
+    'by_outlet', (
+      SELECT coalesce(jsonb_agg(g), '[]')
+      FROM (
+        SELECT outlet_id, ticket_type, category, is_reversal,
+          sum(quantity) AS quantity, sum(total_ex_vat) AS total_ex_vat,
+          sum(total_vat) AS total_vat, sum(total_inc_vat) AS total_inc_vat
+        FROM counted
+        GROUP BY 1, 2, 3, 4
+      ) g
+    )
+  )
+$$;